@@ -21,10 +21,10 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
+import { createChatModel } from "@/lib/models";
 
 // ====== 第一步：用 Zod 定义你想要的输出结构 ======
 // 这就是 Output Parser 的核心 —— 提前声明 AI 应该返回什么格式
@@ -92,14 +92,8 @@ export async function POST(request: NextRequest) {
       ],
     ]);
 
-    const model = new ChatOpenAI({
-      model: "deepseek-chat",
-      temperature: 0.1, // 结构化输出用低温度，减少"创造力"，提高格式准确性
-      apiKey: process.env.DEEPSEEK_API_KEY,
-      configuration: {
-        baseURL: process.env.DEEPSEEK_BASE_URL,
-      },
-    });
+    // 结构化输出用低温度，减少"创造力"，提高格式准确性
+    const model = createChatModel("utility", { temperature: 0.1 });
 
     // ====== 第四步：用 pipe 串联 Prompt → Model → Parser ======
     // 这就是 LangChain 的链式调用：
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { setMcpToolPolicy } from "@/lib/mcp-db";
+import { takePausedRun } from "@/lib/tool-approval";
+
+/**
+ * 工具调用确认 API：恢复停在 approval_required 上的那轮对话
+ *
+ * POST /api/chat/approve
+ *   { runId, approved: boolean, args?: object, always?: boolean }
+ *   → SSE 流（事件格式和 /api/chat 相同，接着之前的回复继续输出）
+ *
+ * args 是用户改过的工具参数，不传按模型给的参数执行；
+ * always 为 true 时把这个 MCP 工具的策略改成 allow，以后不再询问
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { runId, approved, args, always } = body ?? {};
+  if (typeof runId !== "string" || typeof approved !== "boolean") {
+    return NextResponse.json({ error: "缺少参数: runId, approved" }, { status: 400 });
+  }
+  if (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args))) {
+    return NextResponse.json({ error: "args 必须是对象" }, { status: 400 });
+  }
+
+  const paused = takePausedRun(runId, userId);
+  if (!paused) {
+    return NextResponse.json({ error: "待确认的工具调用不存在或已过期" }, { status: 404 });
+  }
+
+  const { mcpServerId, mcpToolName } = paused.request;
+  if (always === true && approved && mcpServerId && mcpToolName) {
+    await setMcpToolPolicy(mcpServerId, userId, mcpToolName, "allow").catch((err) =>
+      console.warn("保存工具策略失败:", err)
+    );
+  }
+  console.log(`▶️ 工具调用${approved ? "已批准" : "被拒绝"}: ${paused.request.tool}（运行 ${runId}）`);
+
+  return new Response(paused.resume({ approved, args }, request.signal), {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
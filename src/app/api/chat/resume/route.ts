@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { getActiveMessages, getSession } from "@/lib/db";
+import { getChatRun } from "@/lib/chat-runs";
+import { chatThreadId, hasCheckpoint } from "@/lib/checkpointer";
+
+/**
+ * 重新连上后台运行的对话（关掉标签页后重新打开、刷新页面、切换会话回来、网络断开重连后）
+ *
+ * GET /api/chat/resume?sessionId=xxx[&after=seq]
+ *   → 有进行中的运行：SSE 流（事件格式和 /api/chat 相同），先重放已经发出的事件，再接着推新事件；
+ *     带 after（或 Last-Event-ID 请求头）时只重放序号大于它的事件，断线重连时不用从头重放；
+ *     响应头 X-Run-State 是 generating（后台还在生成）或 idle（已经结束或停在工具确认上，重放完就关闭）
+ *   → 没有：404 { error, resumable, userMessageId }
+ *
+ * resumable 为 true 表示活跃链末尾的用户消息还没有回复、但留有没跑完的检查点（服务重启过），
+ * 前端用 POST /api/chat { regenerateFromUserMessageId: userMessageId, continueRun: true } 从检查点继续
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const sessionId = request.nextUrl.searchParams.get("sessionId");
+  if (!sessionId) {
+    return NextResponse.json({ error: "缺少 sessionId" }, { status: 400 });
+  }
+
+  const run = getChatRun(sessionId, userId);
+  if (run) {
+    // 事件的 seq 就是它在事件日志里的下标
+    const after = Number(
+      request.nextUrl.searchParams.get("after") ?? request.headers.get("Last-Event-ID") ?? -1
+    );
+    const from = Number.isInteger(after) && after >= 0 ? after + 1 : 0;
+    return new Response(run.stream(request.signal, from), {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+        "X-Run-State": run.generating ? "generating" : "idle",
+      },
+    });
+  }
+
+  try {
+    const session = await getSession(sessionId, userId);
+    if (!session) {
+      return NextResponse.json({ error: "会话不存在" }, { status: 404 });
+    }
+    const last = (await getActiveMessages(sessionId)).at(-1);
+    const resumable =
+      last?.role === "user" && (await hasCheckpoint(chatThreadId(sessionId, last.id)));
+    return NextResponse.json(
+      { error: "没有进行中的运行", resumable, userMessageId: resumable ? last.id : null },
+      { status: 404 }
+    );
+  } catch (error) {
+    console.error("查询可继续的运行失败:", error);
+    return NextResponse.json({ error: "查询运行状态失败" }, { status: 500 });
+  }
+}
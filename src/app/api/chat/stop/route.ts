@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { getChatRun } from "@/lib/chat-runs";
+
+/**
+ * 停止会话里进行中的对话运行
+ *
+ * POST /api/chat/stop  { sessionId }
+ *
+ * 断开连接不会停止运行（生成在后台继续，见 chat-runs.ts），这是唯一能中止运行的方式；
+ * 已经生成的部分回复照常保存
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { sessionId } = (await request.json().catch(() => null)) ?? {};
+  if (typeof sessionId !== "string" || !sessionId) {
+    return NextResponse.json({ error: "缺少 sessionId" }, { status: 400 });
+  }
+
+  const run = getChatRun(sessionId, userId);
+  if (!run) {
+    return NextResponse.json({ error: "没有进行中的运行" }, { status: 404 });
+  }
+  run.stop();
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { isUserAdmin } from "@/lib/db";
+import {
+  listKnowledgeBases,
+  createKnowledgeBase,
+  updateKnowledgeBase,
+  deleteKnowledgeBase,
+  canManageKnowledgeBase,
+} from "@/lib/knowledge-db";
+
+/**
+ * 知识库（文档集合）管理 API
+ *
+ * GET    /api/knowledge/bases                        → 当前用户可见的知识库（自己的 + 共享的）
+ * POST   /api/knowledge/bases { name, description?, shared? } → 新建知识库，归属当前用户
+ * PATCH  /api/knowledge/bases { id, name?, description?, shared? } → 修改（仅归属者）
+ * DELETE /api/knowledge/bases?id=xxx                 → 删除知识库及其全部文档（仅归属者）
+ *
+ * 会话 / 自定义角色绑定知识库分别见 /api/sessions、/api/personas
+ */
+
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const [bases, admin] = await Promise.all([
+      listKnowledgeBases(userId),
+      isUserAdmin(userId),
+    ]);
+    return NextResponse.json({
+      knowledgeBases: bases.map((kb) => ({
+        ...kb,
+        manageable: canManageKnowledgeBase(kb, userId, admin),
+      })),
+    });
+  } catch (error) {
+    console.error("获取知识库列表失败:", error);
+    return NextResponse.json({ error: "获取知识库列表失败" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const { name, description, shared } = (await request.json()) as {
+      name?: string;
+      description?: string;
+      shared?: boolean;
+    };
+    if (!name?.trim()) {
+      return NextResponse.json({ error: "知识库名称不能为空" }, { status: 400 });
+    }
+    const knowledgeBase = await createKnowledgeBase(
+      userId,
+      name.trim(),
+      description?.trim() || "",
+      shared === true
+    );
+    return NextResponse.json({ knowledgeBase });
+  } catch (error) {
+    console.error("创建知识库失败:", error);
+    return NextResponse.json({ error: "创建知识库失败" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const { id, name, description, shared } = (await request.json()) as {
+      id?: string;
+      name?: string;
+      description?: string;
+      shared?: boolean;
+    };
+    if (!id) {
+      return NextResponse.json({ error: "缺少 id" }, { status: 400 });
+    }
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json({ error: "知识库名称不能为空" }, { status: 400 });
+    }
+
+    const knowledgeBase = await updateKnowledgeBase(id, userId, {
+      name: name?.trim(),
+      description: description?.trim(),
+      shared: typeof shared === "boolean" ? shared : undefined,
+    });
+    if (!knowledgeBase) {
+      return NextResponse.json(
+        { error: "知识库不存在或无权限" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ knowledgeBase });
+  } catch (error) {
+    console.error("修改知识库失败:", error);
+    return NextResponse.json({ error: "修改知识库失败" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "缺少 id" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteKnowledgeBase(id, userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "知识库不存在或无权限" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("删除知识库失败:", error);
+    return NextResponse.json({ error: "删除知识库失败" }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { isUserAdmin } from "@/lib/db";
+import {
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  getKnowledgeBase,
+  canReadKnowledgeBase,
+  isKnowledgeBaseIdList,
+} from "@/lib/knowledge-db";
+import { RETRIEVAL_STRATEGIES, RetrievalStrategy } from "@/lib/rag";
+import {
+  DEFAULT_EVAL_CONFIG,
+  EvalConfig,
+  isGoldenSet,
+  loadGoldenSet,
+  runKnowledgeEval,
+} from "@/lib/rag-eval";
+
+/**
+ * 知识库检索评测 API（仅管理员）
+ *
+ * GET  /api/knowledge/eval → 默认标准问题集（eval/golden-set.json）和当前检索配置
+ * POST /api/knowledge/eval { configs?, goldenSet?, knowledgeBaseIds? }
+ *      → 按一组或两组配置跑标准问题集，返回 recall@k、MRR 和逐题结果；两组时附带差值
+ *
+ * configs 每项可覆盖 { name, chunkSize, chunkOverlap, chunker, strategy, rerank, topK }，没给的沿用当前配置；
+ * 例：[{}, { "chunkSize": 500, "chunkOverlap": 80 }] 对比当前切分和更大的切分
+ */
+
+/** 校验并补全一组评测配置，返回字符串表示校验失败的原因 */
+function normalizeConfig(input: Partial<EvalConfig>, index: number): EvalConfig | string {
+  const config: EvalConfig = {
+    ...DEFAULT_EVAL_CONFIG,
+    name: `配置 ${String.fromCharCode(65 + index)}`,
+    ...input,
+  };
+  if (!Number.isInteger(config.chunkSize) || config.chunkSize < 50 || config.chunkSize > 4000) {
+    return "chunkSize 需要是 50 ~ 4000 的整数";
+  }
+  if (
+    !Number.isInteger(config.chunkOverlap) ||
+    config.chunkOverlap < 0 ||
+    config.chunkOverlap >= config.chunkSize
+  ) {
+    return "chunkOverlap 需要是小于 chunkSize 的非负整数";
+  }
+  if (config.chunker !== "auto" && config.chunker !== "recursive") {
+    return "chunker 只能是 auto / recursive";
+  }
+  if (!RETRIEVAL_STRATEGIES.includes(config.strategy as RetrievalStrategy)) {
+    return `strategy 只能是 ${RETRIEVAL_STRATEGIES.join(" / ")}`;
+  }
+  if (!Number.isInteger(config.topK) || config.topK < 1 || config.topK > 20) {
+    return "topK 需要是 1 ~ 20 的整数";
+  }
+  return { ...config, rerank: config.rerank === true };
+}
+
+async function authorizeAdmin(request: NextRequest): Promise<string | NextResponse> {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+  if (!(await isUserAdmin(userId))) {
+    return NextResponse.json({ error: "仅管理员可以运行知识库评测" }, { status: 403 });
+  }
+  return userId;
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json({
+      goldenSet: loadGoldenSet(),
+      defaultConfig: DEFAULT_EVAL_CONFIG,
+    });
+  } catch (error) {
+    console.error("读取标准问题集失败:", error);
+    return NextResponse.json({ error: "读取标准问题集失败" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+  const userId = auth;
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as {
+      configs?: Partial<EvalConfig>[];
+      goldenSet?: unknown;
+      knowledgeBaseIds?: unknown;
+    };
+
+    const rawConfigs = body.configs?.length ? body.configs : [{}];
+    if (!Array.isArray(rawConfigs) || rawConfigs.length > 2) {
+      return NextResponse.json({ error: "configs 最多两组" }, { status: 400 });
+    }
+    const configs: EvalConfig[] = [];
+    for (const [i, raw] of rawConfigs.entries()) {
+      const config = normalizeConfig(raw, i);
+      if (typeof config === "string") {
+        return NextResponse.json({ error: `第 ${i + 1} 组配置：${config}` }, { status: 400 });
+      }
+      configs.push(config);
+    }
+
+    const goldenSet = body.goldenSet === undefined ? loadGoldenSet() : body.goldenSet;
+    if (!isGoldenSet(goldenSet) || goldenSet.length === 0) {
+      return NextResponse.json(
+        { error: "goldenSet 格式不对：需要 [{ question, expected: [{ source, contains? }] }]" },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeBaseIds =
+      body.knowledgeBaseIds === undefined ? [DEFAULT_KNOWLEDGE_BASE_ID] : body.knowledgeBaseIds;
+    if (!isKnowledgeBaseIdList(knowledgeBaseIds) || knowledgeBaseIds.length === 0) {
+      return NextResponse.json({ error: "knowledgeBaseIds 需要是非空的字符串数组" }, { status: 400 });
+    }
+    for (const id of knowledgeBaseIds) {
+      const kb = await getKnowledgeBase(id);
+      if (!kb || !canReadKnowledgeBase(kb, userId)) {
+        return NextResponse.json({ error: `知识库不存在: ${id}` }, { status: 404 });
+      }
+    }
+
+    const comparison = await runKnowledgeEval(goldenSet, configs, knowledgeBaseIds);
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error("知识库评测失败:", error);
+    return NextResponse.json({ error: "知识库评测失败" }, { status: 500 });
+  }
+}
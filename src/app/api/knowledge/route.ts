@@ -0,0 +1,293 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { isUserAdmin } from "@/lib/db";
+import {
+  parseFile,
+  FileParseError,
+  SUPPORTED_EXTENSIONS,
+} from "@/lib/file-parser";
+import {
+  listDocuments,
+  getDocument,
+  renameDocument,
+  deleteDocument,
+  getKnowledgeBase,
+  canReadKnowledgeBase,
+  canManageKnowledgeBase,
+  KnowledgeDocument,
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  SYSTEM_OWNER,
+} from "@/lib/knowledge-db";
+import {
+  indexDocument,
+  retrieveKnowledge,
+  RetrievalStrategy,
+  RETRIEVAL_STRATEGIES,
+} from "@/lib/rag";
+
+/**
+ * 知识库文档管理 API
+ *
+ * GET    /api/knowledge?knowledgeBaseId=xxx → 某个知识库的文档列表（默认内置公司知识库）
+ * GET    /api/knowledge?id=xxx              → 单个文档信息
+ * GET    /api/knowledge?q=xxx&knowledgeBaseId=a,b&strategy=hybrid&rerank=1&topK=5&section=报销制度
+ *                                            → 检索调试：返回命中的文本块和各检索方式的分数
+ * POST   /api/knowledge  (multipart: file, knowledgeBaseId?, title?) → 上传新文档（PDF / Excel / Markdown / TXT）
+ * PUT    /api/knowledge  (multipart: id, file, title?)  → 替换文档内容，按内容哈希增量重建索引
+ * PATCH  /api/knowledge  { id, title }      → 修改标题
+ * DELETE /api/knowledge?id=xxx              → 删除文档
+ *
+ * 知识库本身的增删改见 /api/knowledge/bases。
+ * 能看到知识库（自己的或共享的）就能读文档；上传 / 修改 / 删除需要知识库的管理权限
+ */
+
+/**
+ * 校验当前用户对某个知识库的权限
+ * 返回 NextResponse 表示校验失败（直接返回给前端）
+ */
+async function authorizeKnowledgeBase(
+  userId: string,
+  knowledgeBaseId: string,
+  access: "read" | "manage"
+): Promise<NextResponse | null> {
+  const kb = await getKnowledgeBase(knowledgeBaseId);
+  if (!kb || !canReadKnowledgeBase(kb, userId)) {
+    return NextResponse.json({ error: "知识库不存在" }, { status: 404 });
+  }
+  if (access === "manage") {
+    const admin = kb.owner_id === SYSTEM_OWNER && (await isUserAdmin(userId));
+    if (!canManageKnowledgeBase(kb, userId, admin)) {
+      return NextResponse.json({ error: "没有权限修改这个知识库" }, { status: 403 });
+    }
+  }
+  return null;
+}
+
+/** 把上传的文件落到临时目录，用 parseFile 完整解析后删除 */
+async function extractUpload(file: File): Promise<string> {
+  const ext = path.extname(file.name).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    throw new FileParseError(
+      `不支持的文件格式: ${ext || "未知"}。支持的格式: PDF, Excel, CSV, TXT, Markdown`
+    );
+  }
+  const tmpPath = path.join(
+    os.tmpdir(),
+    `knowledge-${Date.now()}-${Math.random().toString(36).slice(2)}${ext}`
+  );
+  fs.writeFileSync(tmpPath, Buffer.from(await file.arrayBuffer()));
+  try {
+    const text = await parseFile(tmpPath, { full: true });
+    if (!text.trim()) throw new FileParseError("文件没有可入库的文本内容");
+    return text;
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
+
+/** 文档写操作的权限校验：知识库管理权限 + knowledge/ 目录同步的文档只读 */
+async function authorizeDocumentWrite(
+  userId: string,
+  doc: KnowledgeDocument | undefined
+): Promise<NextResponse | null> {
+  if (!doc) {
+    return NextResponse.json({ error: "文档不存在" }, { status: 404 });
+  }
+  const denied = await authorizeKnowledgeBase(userId, doc.knowledge_base_id, "manage");
+  if (denied) return denied;
+  if (doc.created_by === SYSTEM_OWNER) {
+    return NextResponse.json(
+      { error: "该文档来自 knowledge/ 目录，请直接修改目录中的文件" },
+      { status: 400 }
+    );
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const knowledgeBaseId =
+    searchParams.get("knowledgeBaseId") || DEFAULT_KNOWLEDGE_BASE_ID;
+
+  try {
+    const query = searchParams.get("q")?.trim();
+    if (query) {
+      const ids = (searchParams.get("knowledgeBaseId") || DEFAULT_KNOWLEDGE_BASE_ID)
+        .split(",")
+        .filter(Boolean);
+      for (const kbId of ids) {
+        const denied = await authorizeKnowledgeBase(userId, kbId, "read");
+        if (denied) return denied;
+      }
+      const strategy = searchParams.get("strategy") || "hybrid";
+      if (!RETRIEVAL_STRATEGIES.includes(strategy as RetrievalStrategy)) {
+        return NextResponse.json(
+          { error: `strategy 只能是 ${RETRIEVAL_STRATEGIES.join(" / ")}` },
+          { status: 400 }
+        );
+      }
+      const topK = Math.min(Math.max(Number(searchParams.get("topK")) || 5, 1), 50);
+      const result = await retrieveKnowledge(query, {
+        topK,
+        knowledgeBaseIds: ids,
+        section: searchParams.get("section")?.trim() || undefined,
+        strategy: strategy as RetrievalStrategy,
+        rerank: searchParams.get("rerank") === "1",
+      });
+      return NextResponse.json(result);
+    }
+
+    if (id) {
+      const document = await getDocument(id);
+      const denied = document
+        ? await authorizeKnowledgeBase(userId, document.knowledge_base_id, "read")
+        : NextResponse.json({ error: "文档不存在" }, { status: 404 });
+      if (denied) return denied;
+      return NextResponse.json({ document });
+    }
+    const denied = await authorizeKnowledgeBase(userId, knowledgeBaseId, "read");
+    if (denied) return denied;
+    const documents = await listDocuments(knowledgeBaseId);
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("获取知识库文档失败:", error);
+    return NextResponse.json({ error: "获取知识库文档失败" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const title = (formData.get("title") as string | null)?.trim();
+    const knowledgeBaseId =
+      (formData.get("knowledgeBaseId") as string | null) || DEFAULT_KNOWLEDGE_BASE_ID;
+    if (!file) {
+      return NextResponse.json({ error: "没有上传文件" }, { status: 400 });
+    }
+
+    const denied = await authorizeKnowledgeBase(userId, knowledgeBaseId, "manage");
+    if (denied) return denied;
+
+    const content = await extractUpload(file);
+    const ext = path.extname(file.name).toLowerCase();
+    const result = await indexDocument({
+      knowledgeBaseId,
+      title: title || path.basename(file.name, ext),
+      source: file.name,
+      fileType: ext,
+      content,
+      createdBy: userId,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof FileParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("上传知识库文档失败:", error);
+    return NextResponse.json({ error: "上传知识库文档失败" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const id = formData.get("id") as string | null;
+    const file = formData.get("file") as File | null;
+    const title = (formData.get("title") as string | null)?.trim();
+    if (!id || !file) {
+      return NextResponse.json({ error: "缺少参数: id, file" }, { status: 400 });
+    }
+
+    const existing = await getDocument(id);
+    const denied = await authorizeDocumentWrite(userId, existing);
+    if (denied) return denied;
+
+    const content = await extractUpload(file);
+    const result = await indexDocument({
+      id,
+      knowledgeBaseId: existing!.knowledge_base_id,
+      title: title || existing!.title,
+      source: file.name,
+      fileType: path.extname(file.name).toLowerCase(),
+      content,
+      createdBy: existing!.created_by,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof FileParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("更新知识库文档失败:", error);
+    return NextResponse.json({ error: "更新知识库文档失败" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const { id, title } = (await request.json()) as {
+      id?: string;
+      title?: string;
+    };
+    if (!id || !title?.trim()) {
+      return NextResponse.json({ error: "缺少参数: id, title" }, { status: 400 });
+    }
+
+    const denied = await authorizeDocumentWrite(userId, await getDocument(id));
+    if (denied) return denied;
+
+    const document = await renameDocument(id, title.trim());
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error("修改知识库文档失败:", error);
+    return NextResponse.json({ error: "修改知识库文档失败" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "缺少 id 参数" }, { status: 400 });
+  }
+
+  try {
+    const denied = await authorizeDocumentWrite(userId, await getDocument(id));
+    if (denied) return denied;
+
+    await deleteDocument(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("删除知识库文档失败:", error);
+    return NextResponse.json({ error: "删除知识库文档失败" }, { status: 500 });
+  }
+}
@@ -12,7 +12,7 @@
  * GET    - 获取当前用户的 MCP server 列表
  * POST   - 添加新的 MCP server
  * DELETE  - 删除指定 MCP server
- * PATCH  - 启用/禁用 MCP server
+ * PATCH  - 启用/禁用 MCP server，或设置工具确认策略 { id, toolPolicy, toolPolicies? }
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -22,7 +22,9 @@ import {
   addMcpServer,
   deleteMcpServer,
   toggleMcpServer,
+  updateMcpServerPolicies,
 } from "@/lib/mcp-db";
+import { isToolPolicy } from "@/lib/tool-approval";
 
 export async function GET(request: NextRequest) {
   const userId = await getCurrentUserId(request);
@@ -134,7 +136,31 @@ export async function PATCH(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { id, enabled } = body;
+    const { id, enabled, toolPolicy, toolPolicies } = body;
+
+    // 工具确认策略：server 默认策略 + 可选的单个工具策略（整体替换）
+    if (id && "toolPolicy" in body) {
+      const validOverrides =
+        toolPolicies === undefined ||
+        (typeof toolPolicies === "object" &&
+          toolPolicies !== null &&
+          !Array.isArray(toolPolicies) &&
+          Object.values(toolPolicies).every(isToolPolicy));
+      if (!isToolPolicy(toolPolicy) || !validOverrides) {
+        return NextResponse.json(
+          { error: "工具策略只能是 allow、ask 或 deny" },
+          { status: 400 }
+        );
+      }
+      const updated = await updateMcpServerPolicies(id, userId, toolPolicy, toolPolicies);
+      if (!updated) {
+        return NextResponse.json(
+          { error: "MCP server 不存在或无权限" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true });
+    }
 
     if (!id || typeof enabled !== "boolean") {
       return NextResponse.json(
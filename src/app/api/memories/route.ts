@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { getSession, updateSessionMemoryEnabled } from "@/lib/db";
+import {
+  listMemories,
+  getMemoryHistory,
+  updateMemory,
+  deleteMemory,
+  getMemorySettings,
+  setAutoExtract,
+  MEMORY_IMPORTANCE,
+  MemoryImportance,
+} from "@/lib/long-memory";
+
+/**
+ * 长期记忆管理 API（按用户隔离）
+ *
+ * GET    /api/memories                    → 记忆列表 + 记忆设置
+ * GET    /api/memories?q=xxx              → 按内容/关键词搜索
+ * GET    /api/memories?sessionId=xxx      → 额外返回该会话的记忆开关
+ * GET    /api/memories?historyOf=ID       → 某条记忆被合并 / 取代 / 编辑前的历史版本
+ * PATCH  /api/memories { id, ... }        → 编辑内容 / 关键词 / 重要程度 / 置顶
+ * PATCH  /api/memories { autoExtract }    → 全局开关自动提取（带 sessionId 则只作用于该会话）
+ * DELETE /api/memories?id=xxx             → 遗忘一条记忆
+ */
+
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q") || "";
+  const sessionId = searchParams.get("sessionId");
+  const historyOf = searchParams.get("historyOf");
+
+  try {
+    if (historyOf) {
+      const memoryId = Number(historyOf);
+      if (!Number.isInteger(memoryId) || memoryId <= 0) {
+        return NextResponse.json({ error: "historyOf 必须是记忆 id" }, { status: 400 });
+      }
+      const history = await getMemoryHistory(memoryId, userId);
+      return NextResponse.json({ history });
+    }
+
+    const [memories, settings] = await Promise.all([
+      listMemories(userId, query),
+      getMemorySettings(userId),
+    ]);
+
+    let sessionAutoExtract: boolean | null = null;
+    if (sessionId) {
+      const session = await getSession(sessionId, userId);
+      sessionAutoExtract = session ? session.memory_enabled : null;
+    }
+
+    return NextResponse.json({ memories, settings, sessionAutoExtract });
+  } catch (error) {
+    console.error("获取记忆失败:", error);
+    return NextResponse.json({ error: "获取记忆失败" }, { status: 500 });
+  }
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === "string";
+}
+
+export async function PATCH(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { id, content, keywords, importance, pinned, autoExtract, sessionId } =
+      (body ?? {}) as Record<string, unknown>;
+
+    // 请求体不可信：数字、数组等传进来会在 trim() 或 SQL 里报 500
+    if (!isOptionalString(content) || !isOptionalString(keywords) || !isOptionalString(sessionId)) {
+      return NextResponse.json(
+        { error: "content、keywords、sessionId 必须是字符串" },
+        { status: 400 }
+      );
+    }
+    if (pinned !== undefined && typeof pinned !== "boolean") {
+      return NextResponse.json({ error: "pinned 必须是布尔值" }, { status: 400 });
+    }
+
+    // ── 记忆开关 ──
+    if (id === undefined) {
+      if (typeof autoExtract !== "boolean") {
+        return NextResponse.json(
+          { error: "缺少参数: id 或 autoExtract" },
+          { status: 400 }
+        );
+      }
+      if (sessionId) {
+        const updated = await updateSessionMemoryEnabled(
+          sessionId,
+          autoExtract,
+          userId
+        );
+        if (!updated) {
+          return NextResponse.json({ error: "会话不存在" }, { status: 404 });
+        }
+      } else {
+        await setAutoExtract(userId, autoExtract);
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    // ── 编辑单条记忆 ──
+    if (typeof id !== "number" || !Number.isInteger(id)) {
+      return NextResponse.json({ error: "id 必须是整数" }, { status: 400 });
+    }
+    if (content !== undefined && !content.trim()) {
+      return NextResponse.json({ error: "记忆内容不能为空" }, { status: 400 });
+    }
+    if (
+      importance !== undefined &&
+      !MEMORY_IMPORTANCE.includes(importance as MemoryImportance)
+    ) {
+      return NextResponse.json(
+        { error: `importance 只能是 ${MEMORY_IMPORTANCE.join(" / ")}` },
+        { status: 400 }
+      );
+    }
+
+    const memory = await updateMemory(id, userId, {
+      content: content?.trim(),
+      keywords: keywords?.trim(),
+      importance: importance as MemoryImportance | undefined,
+      pinned: typeof pinned === "boolean" ? pinned : undefined,
+    });
+    if (!memory) {
+      return NextResponse.json(
+        { error: "记忆不存在或无权限" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error("更新记忆失败:", error);
+    return NextResponse.json({ error: "更新记忆失败" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = Number(searchParams.get("id"));
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "缺少 id 参数" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteMemory(id, userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "记忆不存在或无权限" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("删除记忆失败:", error);
+    return NextResponse.json({ error: "删除记忆失败" }, { status: 500 });
+  }
+}
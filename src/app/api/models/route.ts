@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth-check";
+import { getModelRegistry, listModels } from "@/lib/models";
+
+/**
+ * 模型列表 API（给前端的模型选择器用）
+ *
+ * GET /api/models → { models: [{ id, label, capabilities, contextWindow, maxOutput }], defaults: { chat, reasoning, utility } }
+ *
+ * 只返回注册表里的模型配置，不含供应商地址和密钥
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  try {
+    const models = listModels().map(({ id, label, capabilities, contextWindow, maxOutput }) => ({
+      id,
+      label,
+      capabilities,
+      contextWindow,
+      maxOutput,
+    }));
+    return NextResponse.json({ models, defaults: getModelRegistry().roles });
+  } catch (error) {
+    console.error("读取模型注册表失败:", error);
+    return NextResponse.json({ error: "读取模型列表失败" }, { status: 500 });
+  }
+}
@@ -3,8 +3,12 @@ import {
   createCustomPersona,
   getAllCustomPersonas,
   deleteCustomPersona,
+  updateCustomPersonaKnowledgeBases,
+  updateCustomPersonaModel,
 } from "@/lib/db";
 import { getCurrentUserId } from "@/lib/auth-check";
+import { isKnowledgeBaseIdList } from "@/lib/knowledge-db";
+import { parseModelChoice } from "@/lib/models";
 
 /** GET /api/personas → 获取当前用户的自定义角色 */
 export async function GET(request: NextRequest) {
@@ -24,21 +28,68 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "未登录" }, { status: 401 });
   }
 
-  const { name, emoji, description, prompt, temperature } = await request.json();
+  const { name, emoji, description, prompt, temperature, knowledgeBaseIds, modelId, modelParams } =
+    await request.json();
   if (!name || !prompt) {
     return NextResponse.json({ error: "名称和提示词为必填" }, { status: 400 });
   }
+  const choice = parseModelChoice(modelId ?? null, modelParams);
+  if (typeof choice === "string") {
+    return NextResponse.json({ error: choice }, { status: 400 });
+  }
   const persona = await createCustomPersona(
     name,
     emoji || "🤖",
     description || "",
     prompt,
     temperature ?? 0.7,
-    userId
+    userId,
+    isKnowledgeBaseIdList(knowledgeBaseIds) ? knowledgeBaseIds : null,
+    choice.id,
+    choice.params
   );
   return NextResponse.json({ persona });
 }
 
+/**
+ * PATCH /api/personas { id, knowledgeBaseIds } → 绑定角色可检索的知识库（null 取消绑定）
+ * PATCH /api/personas { id, modelId, modelParams? } → 设置角色使用的模型和参数（modelId 为 null 恢复默认）
+ */
+export async function PATCH(request: NextRequest) {
+  const userId = await getCurrentUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { id, knowledgeBaseIds } = body;
+  if ("modelId" in body) {
+    if (!id) {
+      return NextResponse.json({ error: "缺少 id" }, { status: 400 });
+    }
+    const choice = parseModelChoice(body.modelId, body.modelParams);
+    if (typeof choice === "string") {
+      return NextResponse.json({ error: choice }, { status: 400 });
+    }
+    const updated = await updateCustomPersonaModel(id, choice.id, choice.params, userId);
+    if (!updated) {
+      return NextResponse.json({ error: "角色不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, modelId: choice.id, modelParams: choice.params });
+  }
+  if (!id || (knowledgeBaseIds !== null && !isKnowledgeBaseIdList(knowledgeBaseIds))) {
+    return NextResponse.json(
+      { error: "缺少 id 或 knowledgeBaseIds 格式错误" },
+      { status: 400 }
+    );
+  }
+  const updated = await updateCustomPersonaKnowledgeBases(id, knowledgeBaseIds, userId);
+  if (!updated) {
+    return NextResponse.json({ error: "角色不存在" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
+
 /** DELETE /api/personas?id=xxx → 删除自定义角色（校验归属） */
 export async function DELETE(request: NextRequest) {
   const userId = await getCurrentUserId(request);
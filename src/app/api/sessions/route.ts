@@ -7,16 +7,23 @@ import {
   getSiblings,
   setActiveLeaf,
   getSession,
+  updateSessionKnowledgeBases,
+  updateSessionModel,
 } from "@/lib/db";
 import { getCurrentUserId } from "@/lib/auth-check";
+import { isKnowledgeBaseIdList } from "@/lib/knowledge-db";
+import { parseModelChoice } from "@/lib/models";
+import { getGeneratingSessionIds } from "@/lib/chat-runs";
 
 /**
  * 会话管理 API（按用户隔离）
  *
- * GET    /api/sessions              → 获取当前用户的所有会话列表
+ * GET    /api/sessions              → 获取当前用户的所有会话列表（generating：后台还在生成回复）
  * GET    /api/sessions?id=xxx       → 获取某个会话当前活跃链 + 分支版本信息
  * POST   /api/sessions              → 创建新会话
  * PATCH  /api/sessions              → 切换分支（更新 active_leaf_id）
+ * PATCH  /api/sessions { sessionId, knowledgeBaseIds } → 绑定会话可检索的知识库（null 取消绑定）
+ * PATCH  /api/sessions { sessionId, modelId, modelParams? } → 设置会话使用的模型和参数（modelId 为 null 恢复默认）
  * DELETE /api/sessions?id=xxx       → 删除会话
  */
 
@@ -47,6 +54,8 @@ export async function GET(request: NextRequest) {
           id: m.id,
           role: m.role,
           content: m.content,
+          citations: m.citations ?? [],
+          model: m.model,
           parent_id: m.parent_id,
           created_at: m.created_at,
           variantIndex: variantIndex >= 0 ? variantIndex : 0,
@@ -60,7 +69,10 @@ export async function GET(request: NextRequest) {
 
   // 获取当前用户的所有会话
   const sessions = await getAllSessions(userId);
-  return NextResponse.json({ sessions });
+  const generating = getGeneratingSessionIds(userId);
+  return NextResponse.json({
+    sessions: sessions.map((s) => ({ ...s, generating: generating.has(s.id) })),
+  });
 }
 
 // 创建新会话
@@ -76,12 +88,43 @@ export async function POST(request: NextRequest) {
 }
 
 // 切换分支：把 active_leaf_id 指向目标消息（会沿子节点下潜到叶子）
+// 带 knowledgeBaseIds 时改为更新会话的知识库绑定，带 modelId 时改为更新会话的模型选择
 export async function PATCH(request: NextRequest) {
   const userId = await getCurrentUserId(request);
   if (!userId) {
     return NextResponse.json({ error: "未登录" }, { status: 401 });
   }
-  const { sessionId, messageId } = await request.json();
+  const body = await request.json();
+  const { sessionId, messageId } = body;
+
+  if ("knowledgeBaseIds" in body) {
+    const ids = body.knowledgeBaseIds;
+    if (!sessionId || (ids !== null && !isKnowledgeBaseIdList(ids))) {
+      return NextResponse.json(
+        { error: "缺少 sessionId 或 knowledgeBaseIds 格式错误" },
+        { status: 400 }
+      );
+    }
+    const updated = await updateSessionKnowledgeBases(sessionId, ids, userId);
+    if (!updated) {
+      return NextResponse.json({ error: "会话不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  }
+  if ("modelId" in body) {
+    if (!sessionId) {
+      return NextResponse.json({ error: "缺少 sessionId" }, { status: 400 });
+    }
+    const choice = parseModelChoice(body.modelId, body.modelParams);
+    if (typeof choice === "string") {
+      return NextResponse.json({ error: choice }, { status: 400 });
+    }
+    const updated = await updateSessionModel(sessionId, choice.id, choice.params, userId);
+    if (!updated) {
+      return NextResponse.json({ error: "会话不存在" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, modelId: choice.id, modelParams: choice.params });
+  }
   if (!sessionId || typeof messageId !== "number") {
     return NextResponse.json(
       { error: "缺少 sessionId 或 messageId" },
@@ -0,0 +1,196 @@
+/**
+ * ========== 外部 API：OpenAI 兼容的 Chat Completions ==========
+ *
+ * POST /api/v1/chat/completions，格式和 OpenAI 一致（见 openai-compat.ts）：
+ * - API Key 鉴权（Authorization: Bearer <API_SECRET_KEY>，OpenAI SDK 的 apiKey 就填它）
+ * - model 填 /api/v1/models 列出的角色模型（cortex-assistant、cortex-coder……）
+ * - 支持 stream / 非流式、temperature 等采样参数，tools / tool_choice 透传给模型
+ *
+ * 不带 tools 时和 /api/v1/chat 一样跑对话管道的工具模式，服务端工具在服务端执行；
+ * 配置了 API_USER_ID 时按这个用户加载知识库范围和 MCP server
+ */
+
+import { NextRequest } from "next/server";
+import { SystemMessage } from "@langchain/core/messages";
+import { StructuredToolInterface } from "@langchain/core/tools";
+import { verifyApiKey } from "@/lib/auth";
+import { createKnowledgeResearchTool } from "@/lib/graph";
+import { ALL_TOOLS, createKnowledgeBaseTool, knowledgeBaseTool } from "@/lib/tools";
+import { resolveKnowledgeScope } from "@/lib/knowledge-db";
+import { getMcpTools } from "@/lib/mcp-client";
+import { getBuiltinToolPolicy, ToolPolicyEntry } from "@/lib/tool-approval";
+import { ModelConfig, resolveModel } from "@/lib/models";
+import { createChatPipeline } from "@/lib/chat-pipeline";
+import { createToolsMode } from "@/lib/chat-modes";
+import { appendCurrentDate, dateMiddleware } from "@/lib/chat-middleware";
+import {
+  collectCompletion,
+  CompletionProducer,
+  completionRequestSchema,
+  createCompletionMeta,
+  createPassthroughModel,
+  estimatePromptTokens,
+  findPersonaModel,
+  invalidRequestError,
+  openAIError,
+  streamCompletion,
+  toLangChainMessages,
+  toModelParams,
+  toolCallDeltas,
+} from "@/lib/openai-compat";
+
+/**
+ * 服务端工具：内置工具，配置了 API_USER_ID 时换成这个用户的知识库范围并加上 MCP 工具
+ * 外部接口没有人能确认工具调用：只保留策略为 allow 的工具（见 tool-approval.ts）
+ */
+async function loadServerTools(model: ModelConfig): Promise<{
+  tools: StructuredToolInterface[];
+  cleanup: () => Promise<void>;
+}> {
+  // 不支持 function calling 的模型不挂工具，也不启动 MCP server
+  if (!model.capabilities.tools) return { tools: [], cleanup: async () => {} };
+
+  let tools: StructuredToolInterface[] = [...ALL_TOOLS];
+  let policies = new Map<string, ToolPolicyEntry>();
+  let cleanup = async () => {};
+
+  const userId = process.env.API_USER_ID;
+  if (userId) {
+    const knowledgeBases = await resolveKnowledgeScope(userId, null);
+    tools = tools.filter((t) => t !== knowledgeBaseTool);
+    if (knowledgeBases.length > 0) {
+      const scopedKnowledgeTool = createKnowledgeBaseTool(knowledgeBases);
+      tools.push(scopedKnowledgeTool, createKnowledgeResearchTool(scopedKnowledgeTool));
+    }
+
+    try {
+      const mcp = await getMcpTools(userId);
+      tools = [...tools, ...mcp.tools];
+      policies = mcp.policies;
+      cleanup = mcp.cleanup;
+    } catch (err) {
+      console.warn("MCP 工具加载跳过:", err);
+    }
+  }
+
+  return {
+    tools: tools.filter(
+      (t) => (policies.get(t.name)?.policy ?? getBuiltinToolPolicy(t.name)) === "allow"
+    ),
+    cleanup,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  // ====== 鉴权 ======
+  const auth = verifyApiKey(request);
+  if (!auth.ok) {
+    return openAIError(401, auth.error ?? "无效的 API Key", "invalid_request_error", "invalid_api_key");
+  }
+
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return openAIError(400, "请求体不是合法的 JSON", "invalid_request_error");
+  }
+  const parsed = completionRequestSchema.safeParse(json);
+  if (!parsed.success) return invalidRequestError(parsed.error);
+  const body = parsed.data;
+
+  const persona = findPersonaModel(body.model);
+  if (!persona) {
+    return openAIError(
+      404,
+      `模型 ${body.model} 不存在，可用的模型见 /api/v1/models`,
+      "invalid_request_error",
+      "model_not_found",
+      "model"
+    );
+  }
+
+  // ====== 构建 LangChain 消息 ======
+  // 调用方的 system 消息接在人设提示后面
+  const { systemPrompt: callerPrompt, messages } = toLangChainMessages(body.messages);
+  if (messages.length === 0) {
+    return openAIError(400, "messages 里至少要有一条非 system 消息", "invalid_request_error", null, "messages");
+  }
+  const systemPrompt = callerPrompt ? `${persona.prompt}\n\n${callerPrompt}` : persona.prompt;
+
+  const model = resolveModel("chat");
+  const params = toModelParams(body);
+  const temperature = body.temperature ?? persona.temperature;
+
+  let produce: CompletionProducer;
+  if (body.tools && body.tools.length > 0) {
+    // ====== 调用方的工具：透传给模型，tool_calls 原样返回 ======
+    if (!model.capabilities.tools) {
+      return openAIError(400, `${model.label} 不支持工具调用`, "invalid_request_error", null, "tools");
+    }
+    const passthrough = createPassthroughModel({
+      model,
+      params,
+      temperature,
+      tools: body.tools,
+      toolChoice: body.tool_choice,
+    });
+    const system = new SystemMessage(appendCurrentDate(systemPrompt));
+
+    produce = async (write) => {
+      const indexes = new Map<number, number>();
+      const stream = await passthrough.stream([system, ...messages], { signal: request.signal });
+      for await (const chunk of stream) {
+        const reasoning = chunk.additional_kwargs?.reasoning_content;
+        if (typeof reasoning === "string" && reasoning) write({ reasoning_content: reasoning });
+        if (typeof chunk.content === "string" && chunk.content) write({ content: chunk.content });
+        const toolCalls = toolCallDeltas(chunk.tool_call_chunks, indexes);
+        if (toolCalls.length > 0) write({ tool_calls: toolCalls });
+      }
+    };
+  } else {
+    // ====== 服务端工具：和 /api/v1/chat 一样跑工具模式 ======
+    produce = async (write) => {
+      const server = await loadServerTools(model);
+      const toolsMode = createToolsMode({
+        model,
+        params,
+        temperature,
+        systemPrompt,
+        tools: server.tools,
+        conversation: { messages },
+      });
+
+      let error: string | null = null;
+      const pipeline = createChatPipeline({
+        // 调用方断开就停止生成（无状态接口，没有可以重新连上的运行）
+        signal: request.signal,
+        mode: {
+          ...toolsMode,
+          describeError: (err) => (err instanceof Error ? err.message : "生成出错"),
+        },
+        middleware: [dateMiddleware],
+        // 只有回答和思考链能放进 OpenAI 格式，工具调用的进度不推
+        emit: (event) => {
+          if (event.type === "content") write({ content: event.content });
+          if (event.type === "thinking") write({ reasoning_content: event.content });
+          if (event.type === "error") error = event.content;
+        },
+      });
+      try {
+        await pipeline.start();
+      } finally {
+        await server.cleanup().catch((err) => console.warn("MCP 连接关闭失败:", err));
+      }
+      if (error) throw new Error(error);
+    };
+  }
+
+  const meta = createCompletionMeta(body.model);
+  const promptTokens = estimatePromptTokens(systemPrompt, messages);
+  return body.stream
+    ? streamCompletion(meta, produce, {
+        promptTokens,
+        includeUsage: body.stream_options?.include_usage ?? false,
+      })
+    : collectCompletion(meta, produce, promptTokens);
+}
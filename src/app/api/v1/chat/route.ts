@@ -4,15 +4,23 @@
  * 供其他项目（如 ink-and-code）调用的无状态 API。
  * - 不管理 session，调用方自己维护对话历史
  * - API Key 鉴权
- * - 结构化 SSE 事件：token / tool_start / tool_end / done
+ * - SSE 事件和 /api/chat 是同一套带版本和序号的协议（见 chat-protocol.ts），
+ *   可以直接用 chat-client.ts 读：content / tool_start / tool_end / error / done
  * - 支持工具筛选、温度等配置
+ *
+ * 和 /api/chat 共用对话管道的工具模式（见 chat-pipeline.ts）
  */
 
 import { NextRequest } from "next/server";
 import { HumanMessage, AIMessage } from "@langchain/core/messages";
 import { verifyApiKey } from "@/lib/auth";
-import { createAgent } from "@/lib/graph";
 import { ALL_TOOLS, webSearchTool } from "@/lib/tools";
+import { getBuiltinToolPolicy } from "@/lib/tool-approval";
+import { resolveModel } from "@/lib/models";
+import { createChatPipeline } from "@/lib/chat-pipeline";
+import { CHAT_PROTOCOL_VERSION, ChatEvent, encodeChatFrame } from "@/lib/chat-protocol";
+import { createToolsMode } from "@/lib/chat-modes";
+import { dateMiddleware, toolSourcesMiddleware } from "@/lib/chat-middleware";
 
 // 工具名称映射表，供调用方按名称筛选
 const TOOL_NAME_MAP: Record<string, (typeof ALL_TOOLS)[number]> = {};
@@ -32,13 +40,6 @@ interface RequestBody {
   webSearchEnabled?: boolean;
 }
 
-/**
- * 发送一条 SSE 事件
- */
-function sseEvent(event: string, data: Record<string, unknown>): string {
-  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-}
-
 export async function POST(request: NextRequest) {
   // ====== 鉴权 ======
   const auth = verifyApiKey(request);
@@ -84,17 +85,6 @@ export async function POST(request: NextRequest) {
       systemPrompt = "你是一个友好的AI助手，请用中文回复。";
     }
 
-    // 注入当前日期
-    const now = new Date();
-    const dateStr = now.toLocaleDateString("zh-CN", {
-      timeZone: "Asia/Shanghai",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-      weekday: "long",
-    });
-    systemPrompt += `\n[当前日期: ${dateStr}]`;
-
     // ====== 筛选工具 ======
     let selectedTools = [...ALL_TOOLS];
     let toolsExplicitlyEmpty = false;
@@ -117,120 +107,57 @@ export async function POST(request: NextRequest) {
       selectedTools = selectedTools.filter((t) => t !== webSearchTool);
     }
 
-    // ====== 创建 Agent ======
-    // 传 undefined 让 createAgent 使用默认工具；传空数组时也用 undefined（createReactAgent 需要至少有工具）
-    // 纯对话模式：不绑定任何工具
-    const agent = createAgent(
-      systemPrompt,
+    // ====== 工具模式 ======
+    // 纯对话模式不绑定任何工具；没按名称选中任何工具时用全部默认工具
+    // 外部接口没有人能确认工具调用：只保留策略为 allow 的工具（见 tool-approval.ts）
+    const agentTools = toolsExplicitlyEmpty ? [] : (selectedTools.length > 0 ? selectedTools : [...ALL_TOOLS]);
+    const toolsMode = createToolsMode({
+      model: resolveModel("chat"),
+      params: {},
       temperature,
-      toolsExplicitlyEmpty ? [] : (selectedTools.length > 0 ? selectedTools : undefined)
-    );
+      systemPrompt,
+      tools: agentTools.filter((t) => getBuiltinToolPolicy(t.name) === "allow"),
+      conversation: { messages: inputMessages },
+    });
 
     // ====== 流式响应 ======
     const encoder = new TextEncoder();
 
     const readableStream = new ReadableStream({
       async start(controller) {
-        let fullReply = "";
-
-        try {
-          const eventStream = agent.streamEvents(
-            { messages: inputMessages },
-            { version: "v2" }
-          );
-
-          let lastAIContent = "";
-
-          for await (const event of eventStream) {
-            // 工具调用开始
-            if (event.event === "on_tool_start") {
-              const toolEvent = sseEvent("tool_start", {
-                tool: event.name,
-                input: event.data?.input || {},
-              });
-              controller.enqueue(encoder.encode(toolEvent));
-              console.log(`[v1] 🔧 调用工具: ${event.name}`, event.data?.input);
-            }
-
-            // 工具调用结束
-            if (event.event === "on_tool_end") {
-              const output = event.data?.output;
-              const resultText = output?.content
-                ? String(output.content)
-                : String(output);
-
-              // 提取来源信息
-              const sources: string[] = [];
-              if (event.name === "web_search" && resultText) {
-                const lines = resultText.split("\n");
-                for (const line of lines) {
-                  const srcMatch = line.match(/^来源:\s*(.+)$/);
-                  if (srcMatch) {
-                    sources.push(srcMatch[1].trim());
-                  }
-                }
-              }
-
-              const toolEndEvent = sseEvent("tool_end", {
-                tool: event.name,
-                ...(sources.length > 0 ? { sources } : {}),
-              });
-              controller.enqueue(encoder.encode(toolEndEvent));
-              console.log(`[v1] 📋 工具结果: ${resultText.slice(0, 300)}...`);
-            }
-
-            // LLM 流式 token
-            if (event.event === "on_chat_model_stream") {
-              const chunk = event.data?.chunk;
-              if (chunk) {
-                const content =
-                  typeof chunk.content === "string" ? chunk.content : "";
-                if (content) {
-                  lastAIContent += content;
-                }
-              }
-            }
-
-            // LLM 回复结束（每轮）
-            if (event.event === "on_chat_model_end") {
-              const output = event.data?.output;
-              const hasToolCalls =
-                output?.tool_calls && output.tool_calls.length > 0;
-
-              if (!hasToolCalls && lastAIContent) {
-                // 最终回答 → 逐 token 发送
-                fullReply = lastAIContent;
-                const chunkSize = 5;
-                for (let i = 0; i < lastAIContent.length; i += chunkSize) {
-                  const tokenEvent = sseEvent("token", {
-                    content: lastAIContent.slice(i, i + chunkSize),
-                  });
-                  controller.enqueue(encoder.encode(tokenEvent));
-                }
-              }
-
-              lastAIContent = "";
-            }
+        let seq = 0;
+        const send = (event: ChatEvent) => {
+          try {
+            controller.enqueue(
+              encoder.encode(encodeChatFrame({ v: CHAT_PROTOCOL_VERSION, seq: seq++, ...event }))
+            );
+          } catch {
+            /* 调用方已断开 */
           }
+        };
+
+        const pipeline = createChatPipeline({
+          // 调用方断开就停止生成（无状态接口，没有可以重新连上的运行）
+          signal: request.signal,
+          mode: {
+            ...toolsMode,
+            describeError: (error) => (error instanceof Error ? error.message : "内部错误"),
+          },
+          middleware: [dateMiddleware, toolSourcesMiddleware],
+          emit: send,
+        });
 
-          // 发送 done 事件
-          const doneEvent = sseEvent("done", { content: fullReply });
-          controller.enqueue(encoder.encode(doneEvent));
-        } catch (error) {
-          console.error("[v1] Stream error:", error);
-          const errorEvent = sseEvent("error", {
-            message: error instanceof Error ? error.message : "内部错误",
-          });
-          controller.enqueue(encoder.encode(errorEvent));
+        try {
+          await pipeline.start();
         } finally {
-          controller.close();
+          try { controller.close(); } catch { /* already closed */ }
         }
       },
     });
 
     return new Response(readableStream, {
       headers: {
-        "Content-Type": "text/event-stream",
+        "Content-Type": "text/event-stream; charset=utf-8",
         "Cache-Control": "no-cache",
         Connection: "keep-alive",
       },
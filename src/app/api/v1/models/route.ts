@@ -0,0 +1,28 @@
+/**
+ * ========== 外部 API：OpenAI 兼容的模型列表 ==========
+ *
+ * GET /api/v1/models，格式和 OpenAI 一致：每个内置角色一个模型（见 openai-compat.ts），
+ * IDE 插件、客户端用它列出可选的模型
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyApiKey } from "@/lib/auth";
+import { listPersonaModels, openAIError } from "@/lib/openai-compat";
+
+export async function GET(request: NextRequest) {
+  const auth = verifyApiKey(request);
+  if (!auth.ok) {
+    return openAIError(401, auth.error ?? "无效的 API Key", "invalid_request_error", "invalid_api_key");
+  }
+
+  const created = Math.floor(Date.now() / 1000);
+  return NextResponse.json({
+    object: "list",
+    data: listPersonaModels().map((m) => ({
+      id: m.id,
+      object: "model",
+      created,
+      owned_by: "cortex",
+    })),
+  });
+}
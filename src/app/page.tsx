@@ -5,6 +5,7 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
 import { useTheme } from "next-themes";
+import { ChatProtocolError, readChatEvents } from "@/lib/chat-client";
 
 /* ====== Color Utilities ====== */
 function hexToRgb(hex: string): [number, number, number] {
@@ -289,6 +290,9 @@ function ColorPicker({ value, onChange, onClose }: { value: string; onChange: (h
 /* ====== Types ====== */
 interface ThinkingBlock { content: string; isComplete: boolean; }
 interface ToolCallBlock { name: string; input: Record<string, unknown>; result?: string; isComplete: boolean; }
+/** 等待用户确认的工具调用（approval_required 事件） */
+interface ApprovalBlock { runId: string; tool: string; args: Record<string, unknown>; mcpServerId?: string; mcpToolName?: string; status: "pending" | "approved" | "rejected"; }
+interface CitationItem { id: string; chunkId: number; documentId: string; title: string; source: string; offset: number; headingPath?: string[]; page?: number | null; score: number; method: string; content: string; }
 interface Message {
   id?: number;
   role: "user" | "assistant";
@@ -299,13 +303,30 @@ interface Message {
   siblings?: number[];
   thinking?: ThinkingBlock;
   toolCalls?: ToolCallBlock[];
+  citations?: CitationItem[];
+  notices?: string[];
+  approval?: ApprovalBlock;
+  /** 实际生成这条回复的模型 id */
+  model?: string | null;
 }
 interface PublishDraft { title: string; tags: string[]; content: string; }
-interface Session { id: string; title: string; persona: string; created_at: string; updated_at: string; }
-interface CustomPersona { id: string; name: string; emoji: string; description: string; prompt: string; temperature: number; }
+interface ModelParams { temperature?: number; topP?: number; maxTokens?: number; presencePenalty?: number; }
+interface ModelOption { id: string; label: string; capabilities: { tools: boolean; reasoning: boolean; vision: boolean; jsonMode: boolean }; contextWindow: number; maxOutput: number; }
+interface Session { id: string; title: string; persona: string; created_at: string; updated_at: string; knowledge_base_ids?: string[] | null; model_id?: string | null; model_params?: ModelParams | null; generating?: boolean; }
+interface CustomPersona { id: string; name: string; emoji: string; description: string; prompt: string; temperature: number; knowledge_base_ids?: string[] | null; model_id?: string | null; model_params?: ModelParams | null; }
 interface AnalysisResult { summary: string; sentiment: "positive" | "negative" | "neutral" | "mixed"; sentimentScore: number; keywords: string[]; category: string; language: string; wordCount: number; readingTime: string; }
 interface UserInfo { name: string; image: string | null; }
-interface McpServer { id: string; name: string; transport: "stdio" | "http"; command: string | null; args: string | null; url: string | null; headers: string | null; env: string | null; enabled: boolean; created_at: string; }
+interface LongMemoryItem { id: number; content: string; keywords: string; importance: "high" | "normal" | "low"; pinned: boolean; created_at: string; }
+interface MemoryHistoryItem { id: number; content: string; action: "merge" | "supersede" | "edit"; replaced_by: string | null; created_at: string; }
+interface KnowledgeBaseItem { id: string; name: string; description: string; owner_id: string; shared: boolean; document_count: number; manageable: boolean; }
+interface KnowledgeDocItem { id: string; title: string; source: string; chunk_count: number; created_by: string; updated_at: string; }
+type ToolPolicy = "allow" | "ask" | "deny";
+interface McpServer { id: string; name: string; transport: "stdio" | "http"; command: string | null; args: string | null; url: string | null; headers: string | null; env: string | null; enabled: boolean; tool_policy: ToolPolicy; tool_policies: string | null; created_at: string; }
+
+const TOOL_POLICY_LABELS: Record<ToolPolicy, string> = { allow: "直接执行", ask: "执行前确认", deny: "禁用" };
+
+/** 切换会话时中断本地 SSE 连接的原因：只是不再接收，服务端的运行继续（和用户点停止区分开） */
+const DETACH_REASON = "detach";
 
 /* ====== Preset MCP Servers ====== */
 interface PresetMcp {
@@ -431,6 +452,7 @@ const getToolDisplayName = (name: string) => {
   if (n.includes("time") || n.includes("clock")) return "时间查询";
   if (n.includes("calc")) return "数学计算";
   if (n.includes("file") || n.includes("parse") || n.includes("filesystem")) return "文件处理";
+  if (n.includes("research")) return "多步知识研究";
   if (n.includes("knowledge") || n.includes("memory")) return "知识检索";
   if (n.includes("blog") || n.includes("db") || n.includes("sql") || n.includes("query")) return "数据查询";
   if (n.includes("browser") || n.includes("playwright") || n.includes("navigate") || n.includes("screenshot") || n.includes("snapshot")) return "浏览器操作";
@@ -455,6 +477,64 @@ const BASE = process.env.NEXT_PUBLIC_BASE_PATH || "";
 // 后端据此豁免每日对话次数限制（与管理员身份效果一致）。
 const DEVELOPER_TOKEN = process.env.NEXT_PUBLIC_DEVELOPER_TOKEN || "";
 
+// 回答里的知识库引用标记：[^kb-123]
+const CITATION_MARKER = /\[\^(kb-\d+)\]/g;
+
+/**
+ * 把 [^kb-xx] 换成按出现顺序编号的链接 [n](#cite-kb-xx)，交给 ReactMarkdown 的 a 组件渲染成脚注
+ * 找不到对应引用的标记直接去掉；返回正文和按编号排好的引用
+ */
+/** 模型能力标签（模型选择器里显示） */
+function modelCapabilityTags(m: ModelOption): string[] {
+  return [m.capabilities.tools && "工具", m.capabilities.reasoning && "推理", m.capabilities.vision && "图片"].filter(Boolean) as string[];
+}
+
+/** 模型参数输入（留空 = 模型默认值） */
+function ModelParamsFields({ value, onChange, maxOutput, withTemperature }: { value: ModelParams; onChange: (v: ModelParams) => void; maxOutput?: number; withTemperature?: boolean }) {
+  const fields: { key: keyof ModelParams; label: string; min: number; max: number; step: number }[] = [
+    ...(withTemperature ? [{ key: "temperature" as const, label: "temperature", min: 0, max: 2, step: 0.05 }] : []),
+    { key: "topP", label: "top_p", min: 0.01, max: 1, step: 0.05 },
+    { key: "maxTokens", label: "max_tokens", min: 1, max: maxOutput ?? 32000, step: 1 },
+    { key: "presencePenalty", label: "presence_penalty", min: -2, max: 2, step: 0.1 },
+  ];
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {fields.map((f) => (
+        <label key={f.key} className="block">
+          <span className="text-[10px] text-ink-faint">{f.label}</span>
+          <input type="number" min={f.min} max={f.max} step={f.step} value={value[f.key] ?? ""} placeholder="默认"
+            onChange={(e) => {
+              const next = { ...value };
+              if (e.target.value === "") delete next[f.key];
+              else next[f.key] = Number(e.target.value);
+              onChange(next);
+            }}
+            className="w-full rounded-lg bg-input-bg border border-line px-2 py-1 text-[12px] placeholder:text-ink-faint outline-none focus:border-accent" />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function numberCitations(content: string, citations: CitationItem[] = []): { text: string; ordered: CitationItem[] } {
+  const byId = new Map(citations.map((c) => [c.id, c]));
+  const ordered: CitationItem[] = [];
+  const text = content.replace(CITATION_MARKER, (_: string, id: string) => {
+    const citation = byId.get(id);
+    if (!citation) return "";
+    let n = ordered.indexOf(citation) + 1;
+    if (n === 0) { ordered.push(citation); n = ordered.length; }
+    return `[${n}](#cite-${id})`;
+  });
+  return { text, ordered };
+}
+
+/** 引用的位置：来源 › 章节路径 · 第 N 页（旧消息的引用没有章节和页码） */
+function citationLocation(c: CitationItem): string {
+  const path = [c.source, ...(c.headingPath ?? [])].join(" › ");
+  return c.page ? `${path} · 第 ${c.page} 页` : path;
+}
+
 /** 为需要走用量/限额逻辑的请求补上开发者 token 头。 */
 function withDeveloperHeader(init: RequestInit = {}): RequestInit {
   if (!DEVELOPER_TOKEN) return init;
@@ -480,7 +560,11 @@ export default function Home() {
   const [reasoningMode, setReasoningMode] = useState(false);
   const [customPersonas, setCustomPersonas] = useState<CustomPersona[]>([]);
   const [personaModalOpen, setPersonaModalOpen] = useState(false);
-  const [newPersona, setNewPersona] = useState({ name: "", emoji: "🤖", description: "", prompt: "", temperature: 0.7 });
+  const [newPersona, setNewPersona] = useState({ name: "", emoji: "🤖", description: "", prompt: "", temperature: 0.7, knowledgeBaseIds: [] as string[], modelId: "", modelParams: {} as ModelParams });
+  const [modelOptions, setModelOptions] = useState<ModelOption[]>([]);
+  const [defaultChatModel, setDefaultChatModel] = useState<string | null>(null);
+  const [modelPickerOpen, setModelPickerOpen] = useState(false);
+  const [modelDraft, setModelDraft] = useState<{ modelId: string; params: ModelParams }>({ modelId: "", params: {} });
   const [personaPickerOpen, setPersonaPickerOpen] = useState(false);
   const [analyzeOpen, setAnalyzeOpen] = useState(false);
   const [analyzeText, setAnalyzeText] = useState("");
@@ -500,14 +584,33 @@ export default function Home() {
   const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
   const [editingText, setEditingText] = useState("");
   const [publishDraft, setPublishDraft] = useState<PublishDraft | null>(null);
+  const [approvalArgsDraft, setApprovalArgsDraft] = useState("");
+  const [approvalArgsError, setApprovalArgsError] = useState("");
+  const [openCitation, setOpenCitation] = useState<CitationItem | null>(null);
   const [publishing, setPublishing] = useState(false);
   const [copiedMessageId, setCopiedMessageId] = useState<number | null>(null);
+  const [memoryModalOpen, setMemoryModalOpen] = useState(false);
+  const [memories, setMemories] = useState<LongMemoryItem[]>([]);
+  const [memoryQuery, setMemoryQuery] = useState("");
+  const [memoryAutoExtract, setMemoryAutoExtract] = useState(true);
+  const [sessionMemoryEnabled, setSessionMemoryEnabled] = useState<boolean | null>(null);
+  const [editingMemoryId, setEditingMemoryId] = useState<number | null>(null);
+  const [editingMemoryText, setEditingMemoryText] = useState("");
+  const [memoryHistory, setMemoryHistory] = useState<{ id: number; items: MemoryHistoryItem[] } | null>(null);
+  const [kbModalOpen, setKbModalOpen] = useState(false);
+  const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBaseItem[]>([]);
+  const [expandedKbId, setExpandedKbId] = useState<string | null>(null);
+  const [kbDocuments, setKbDocuments] = useState<KnowledgeDocItem[]>([]);
+  const [newKb, setNewKb] = useState({ name: "", description: "", shared: false });
+  const [kbUploading, setKbUploading] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // 最新一次渲染的 runChatStream：切换会话后异步加载完消息时用它重新连上进行中的运行
+  const runChatStreamRef = useRef<((opts: ChatRequestOpts) => Promise<void>) | null>(null);
   const [userScrolledUp, setUserScrolledUp] = useState(false);
 
   useEffect(() => {
@@ -551,13 +654,12 @@ export default function Home() {
 
   /* ====== Data loading ====== */
   const loadSessions = useCallback(async () => { try { const res = await fetch(`${BASE}/api/sessions`); if (!res.ok) return; const data = await res.json(); setSessions(data.sessions || []); } catch {} }, []);
-  const loadMessages = useCallback(async (sid: string) => {
+  const loadMessages = useCallback(async (sid: string): Promise<Message[] | null> => {
     try {
       const res = await fetch(`${BASE}/api/sessions?id=${sid}`);
-      if (!res.ok) return;
+      if (!res.ok) return null;
       const data = await res.json();
-      setMessages(
-        (data.messages || []).map(
+      const loaded: Message[] = (data.messages || []).map(
           (m: {
             id: number;
             role: "user" | "assistant";
@@ -566,23 +668,45 @@ export default function Home() {
             variantIndex: number;
             variantTotal: number;
             siblings: number[];
+            citations?: CitationItem[];
+            model?: string | null;
           }) => ({
             id: m.id,
             role: m.role,
             content: m.content,
+            citations: m.citations,
+            model: m.model,
             parent_id: m.parent_id,
             variantIndex: m.variantIndex,
             variantTotal: m.variantTotal,
             siblings: m.siblings,
           })
-        )
-      );
-    } catch {}
+        );
+      setMessages(loaded);
+      return loaded;
+    } catch {
+      return null;
+    }
   }, []);
   const loadCustomPersonas = useCallback(async () => { try { const res = await fetch(`${BASE}/api/personas`); if (!res.ok) return; const data = await res.json(); setCustomPersonas(data.personas || []); } catch {} }, []);
+  const loadMemories = useCallback(async (q: string, sid: string | null) => {
+    try {
+      const params = new URLSearchParams();
+      if (q.trim()) params.set("q", q.trim());
+      if (sid) params.set("sessionId", sid);
+      const res = await fetch(`${BASE}/api/memories?${params.toString()}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setMemories(data.memories || []);
+      setMemoryAutoExtract(data.settings?.autoExtract ?? true);
+      setSessionMemoryEnabled(typeof data.sessionAutoExtract === "boolean" ? data.sessionAutoExtract : null);
+    } catch {}
+  }, []);
+  const loadKnowledgeBases = useCallback(async () => { try { const res = await fetch(`${BASE}/api/knowledge/bases`); if (res.ok) { const data = await res.json(); setKnowledgeBases(data.knowledgeBases || []); } } catch {} }, []);
   const loadMcpServers = useCallback(async () => { try { const res = await fetch(`${BASE}/api/mcp-servers`); if (res.ok) { const data = await res.json(); setMcpServers(data.servers || []); } } catch {} }, []);
+  const loadModels = useCallback(async () => { try { const res = await fetch(`${BASE}/api/models`); if (res.ok) { const data = await res.json(); setModelOptions(data.models || []); setDefaultChatModel(data.defaults?.chat ?? null); } } catch {} }, []);
 
-  useEffect(() => { loadSessions(); loadCustomPersonas(); loadMcpServers(); }, [loadSessions, loadCustomPersonas, loadMcpServers]);
+  useEffect(() => { loadSessions(); loadCustomPersonas(); loadMcpServers(); loadKnowledgeBases(); loadModels(); }, [loadSessions, loadCustomPersonas, loadMcpServers, loadKnowledgeBases, loadModels]);
   const refreshUsage = useCallback(() => {
     fetch(`${BASE}/api/usage`, withDeveloperHeader()).then(r => r.ok ? r.json() : null).then(d => { if (d?.authenticated) setUsageInfo(d); }).catch(() => {});
   }, []);
@@ -590,7 +714,20 @@ export default function Home() {
     fetch(`${BASE}/api/user`).then(r => r.ok ? r.json() : null).then(d => { if (d) setUserInfo(d); }).catch(() => {});
     refreshUsage();
   }, [refreshUsage]);
-  useEffect(() => { if (currentSessionId) loadMessages(currentSessionId); }, [currentSessionId, loadMessages]);
+  // 活跃链停在用户消息上（回复还没落库）时，这个会话可能有进行中的运行（刷新页面或切换会话前没生成完），
+  // 带着加载好的消息重新连上；消息加载完之前又切走了就不连
+  useEffect(() => {
+    if (!currentSessionId) return;
+    let switchedAway = false;
+    // 切换会话时不再接收上一个会话的输出（生成在服务端继续，切回来时重新连上）
+    abortControllerRef.current?.abort(DETACH_REASON);
+    loadMessages(currentSessionId).then((loaded) => {
+      if (!switchedAway && loaded?.at(-1)?.role === "user") {
+        runChatStreamRef.current?.({ attach: true, fromMessages: loaded });
+      }
+    });
+    return () => { switchedAway = true; };
+  }, [currentSessionId, loadMessages]);
   // 流式回答阶段我们是**直接赋值 scrollTop**（非平滑），避免 smooth 动画和用户的真滚动事件
   // 纠缠在一起；这样 onScroll 里的判断能干净地区分"我们推下去"和"用户扒上来"。
   useEffect(() => {
@@ -666,9 +803,12 @@ export default function Home() {
 
   const handleCreatePersona = async () => {
     if (!newPersona.name.trim() || !newPersona.prompt.trim()) return;
-    const res = await fetch(`${BASE}/api/personas`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(newPersona) });
+    // 没勾选知识库 = 不限定（可查全部可见知识库）
+    const body = { ...newPersona, knowledgeBaseIds: newPersona.knowledgeBaseIds.length > 0 ? newPersona.knowledgeBaseIds : null, modelId: newPersona.modelId || null };
+    const res = await fetch(`${BASE}/api/personas`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
     const data = await res.json();
-    if (data.persona) { setCustomPersonas((prev) => [data.persona, ...prev]); setNewPersona({ name: "", emoji: "🤖", description: "", prompt: "", temperature: 0.7 }); setPersonaModalOpen(false); }
+    if (data.persona) { setCustomPersonas((prev) => [data.persona, ...prev]); setNewPersona({ name: "", emoji: "🤖", description: "", prompt: "", temperature: 0.7, knowledgeBaseIds: [], modelId: "", modelParams: {} }); setPersonaModalOpen(false); }
+    else if (data.error) alert(data.error);
   };
 
   const handleDeletePersona = async (id: string) => {
@@ -705,6 +845,12 @@ export default function Home() {
     setMcpServers(prev => prev.map(s => s.id === id ? { ...s, enabled } : s));
   };
 
+  /** 设置 MCP server 的工具确认策略；toolPolicies 是单个工具的策略（整体替换） */
+  const handleSetMcpToolPolicy = async (id: string, toolPolicy: ToolPolicy, toolPolicies: Record<string, ToolPolicy>) => {
+    const res = await fetch(`${BASE}/api/mcp-servers`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ id, toolPolicy, toolPolicies }) });
+    if (res.ok) setMcpServers(prev => prev.map(s => s.id === id ? { ...s, tool_policy: toolPolicy, tool_policies: JSON.stringify(toolPolicies) } : s));
+  };
+
   const handleInstallPreset = async (preset: PresetMcp) => {
     if (preset.envKeys && preset.envKeys.length > 0) {
       setPresetInstalling(preset);
@@ -738,6 +884,157 @@ export default function Home() {
     } catch { alert("网络错误"); }
   };
 
+  /* ====== Long-term memory ====== */
+  const openMemoryModal = () => {
+    setMemoryModalOpen(true);
+    setMemoryQuery("");
+    setEditingMemoryId(null);
+    loadMemories("", currentSessionId);
+  };
+
+  const handleToggleAutoExtract = async (enabled: boolean, sessionScoped: boolean) => {
+    const body: Record<string, unknown> = { autoExtract: enabled };
+    if (sessionScoped) {
+      if (!currentSessionId) return;
+      body.sessionId = currentSessionId;
+    }
+    try {
+      const res = await fetch(`${BASE}/api/memories`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      if (!res.ok) { const data = await res.json().catch(() => ({})); alert(data.error || "设置失败"); return; }
+      if (sessionScoped) setSessionMemoryEnabled(enabled); else setMemoryAutoExtract(enabled);
+    } catch { alert("网络错误"); }
+  };
+
+  const handleUpdateMemory = async (id: number, patch: Partial<Pick<LongMemoryItem, "content" | "importance" | "pinned">>) => {
+    try {
+      const res = await fetch(`${BASE}/api/memories`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ id, ...patch }) });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { alert(data.error || "更新失败"); return; }
+      setMemories(prev => {
+        const next = prev.map(m => m.id === id ? { ...m, ...data.memory } : m);
+        // 置顶状态变化后保持「置顶优先」的顺序
+        return patch.pinned === undefined ? next : [...next.filter(m => m.pinned), ...next.filter(m => !m.pinned)];
+      });
+      setEditingMemoryId(null);
+    } catch { alert("网络错误"); }
+  };
+
+  const toggleMemoryHistory = async (id: number) => {
+    if (memoryHistory?.id === id) { setMemoryHistory(null); return; }
+    try {
+      const res = await fetch(`${BASE}/api/memories?historyOf=${id}`);
+      const data = await res.json();
+      setMemoryHistory({ id, items: data.history || [] });
+    } catch { /* ignore */ }
+  };
+
+  const handleDeleteMemory = async (id: number) => {
+    await fetch(`${BASE}/api/memories?id=${id}`, { method: "DELETE" });
+    setMemories(prev => prev.filter(m => m.id !== id));
+  };
+
+  /* ====== Knowledge bases ====== */
+  const openKbModal = () => {
+    setKbModalOpen(true);
+    setExpandedKbId(null);
+    loadKnowledgeBases();
+  };
+
+  const loadKbDocuments = async (kbId: string) => {
+    try {
+      const res = await fetch(`${BASE}/api/knowledge?knowledgeBaseId=${encodeURIComponent(kbId)}`);
+      const data = await res.json();
+      setKbDocuments(data.documents || []);
+    } catch { setKbDocuments([]); }
+  };
+
+  const toggleKbExpanded = (kbId: string) => {
+    if (expandedKbId === kbId) { setExpandedKbId(null); return; }
+    setExpandedKbId(kbId);
+    setKbDocuments([]);
+    loadKbDocuments(kbId);
+  };
+
+  const handleCreateKb = async () => {
+    if (!newKb.name.trim()) return;
+    try {
+      const res = await fetch(`${BASE}/api/knowledge/bases`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(newKb) });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { alert(data.error || "创建失败"); return; }
+      setNewKb({ name: "", description: "", shared: false });
+      loadKnowledgeBases();
+    } catch { alert("网络错误"); }
+  };
+
+  const handleToggleKbShared = async (kb: KnowledgeBaseItem) => {
+    try {
+      const res = await fetch(`${BASE}/api/knowledge/bases`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ id: kb.id, shared: !kb.shared }) });
+      if (!res.ok) { const data = await res.json().catch(() => ({})); alert(data.error || "设置失败"); return; }
+      setKnowledgeBases(prev => prev.map(k => k.id === kb.id ? { ...k, shared: !kb.shared } : k));
+    } catch { alert("网络错误"); }
+  };
+
+  const handleDeleteKb = async (kb: KnowledgeBaseItem) => {
+    if (!confirm(`删除知识库「${kb.name}」及其全部文档？`)) return;
+    await fetch(`${BASE}/api/knowledge/bases?id=${encodeURIComponent(kb.id)}`, { method: "DELETE" });
+    setKnowledgeBases(prev => prev.filter(k => k.id !== kb.id));
+    if (expandedKbId === kb.id) setExpandedKbId(null);
+  };
+
+  const handleUploadKbDocument = async (kbId: string, file: File) => {
+    setKbUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("knowledgeBaseId", kbId);
+      const res = await fetch(`${BASE}/api/knowledge`, { method: "POST", body: formData });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { alert(data.error || "上传失败"); return; }
+      loadKbDocuments(kbId);
+      loadKnowledgeBases();
+    } catch { alert("网络错误"); } finally { setKbUploading(false); }
+  };
+
+  const handleDeleteKbDocument = async (kbId: string, docId: string) => {
+    const res = await fetch(`${BASE}/api/knowledge?id=${encodeURIComponent(docId)}`, { method: "DELETE" });
+    if (!res.ok) { const data = await res.json().catch(() => ({})); alert(data.error || "删除失败"); return; }
+    setKbDocuments(prev => prev.filter(d => d.id !== docId));
+    setKnowledgeBases(prev => prev.map(k => k.id === kbId ? { ...k, document_count: Math.max(0, k.document_count - 1) } : k));
+  };
+
+  /** 当前会话的知识库范围：null = 不限定（全部可见知识库） */
+  const handleSetSessionKbs = async (ids: string[] | null) => {
+    if (!currentSessionId) return;
+    try {
+      const res = await fetch(`${BASE}/api/sessions`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ sessionId: currentSessionId, knowledgeBaseIds: ids }) });
+      if (!res.ok) { const data = await res.json().catch(() => ({})); alert(data.error || "设置失败"); return; }
+      setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, knowledge_base_ids: ids } : s));
+    } catch { alert("网络错误"); }
+  };
+
+  /** 当前会话的模型选择：modelId 为 null 表示沿用角色的选择 / 默认模型 */
+  const handleSetSessionModel = async (modelId: string | null, params: ModelParams) => {
+    if (!currentSessionId) return;
+    try {
+      const res = await fetch(`${BASE}/api/sessions`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ sessionId: currentSessionId, modelId, modelParams: params }) });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) { alert(data.error || "设置失败"); return; }
+      setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, model_id: data.modelId ?? null, model_params: data.modelParams ?? null } : s));
+      setModelPickerOpen(false);
+    } catch { alert("网络错误"); }
+  };
+
+  const openModelPicker = () => {
+    const session = sessions.find(s => s.id === currentSessionId);
+    setModelDraft({ modelId: session?.model_id ?? "", params: session?.model_params ?? {} });
+    setModelPickerOpen(true);
+  };
+
+  const toggleSessionKb = (kbId: string) => {
+    const bound = sessions.find(s => s.id === currentSessionId)?.knowledge_base_ids ?? knowledgeBases.map(k => k.id);
+    handleSetSessionKbs(bound.includes(kbId) ? bound.filter(id => id !== kbId) : [...bound, kbId]);
+  };
+
   const isPresetInstalled = (presetId: string) => {
     const preset = PRESET_MCP_SERVERS.find(p => p.id === presetId);
     if (!preset) return false;
@@ -750,6 +1047,14 @@ export default function Home() {
     parentId?: number | null;
     regenerateFromUserMessageId?: number | null;
     optimisticUserContent?: string;
+    /** 对停下来等确认的工具调用做出决定，接着之前的回复继续输出 */
+    approval?: { runId: string; approved: boolean; args?: Record<string, unknown>; always?: boolean };
+    /** 重新连上会话里进行中的运行（先重放已经发出的事件）；没有就什么都不显示 */
+    attach?: boolean;
+    /** 和 regenerateFromUserMessageId 一起用：从上次没跑完的运行的检查点继续 */
+    continueRun?: boolean;
+    /** 以这些消息为基础显示（刚加载完消息就发起时，state 里的 messages 还是旧的） */
+    fromMessages?: Message[];
   };
 
   const runChatStream = async (opts: ChatRequestOpts) => {
@@ -764,9 +1069,11 @@ export default function Home() {
     // 剥离上一次失败请求残留的「未落库错误气泡」：我们在 4xx/5xx 场景刻意跳过了 loadMessages，
     // 所以前一轮的错误提示和对应的乐观 user 消息还挂在 UI 里。新一轮发送前把它们清掉，
     // 避免用户看到的是"旧错误 + 新成功"并列的困惑画面。
+    // 确认工具调用时这一轮还没结束（回复和用户消息都还没落库），原样保留
+    const resuming = opts.approval !== undefined;
     const cleanedMessages: Message[] = [];
-    for (const m of messages) {
-      if (m.id === undefined) continue; // 未落库（乐观插入）全部丢弃
+    for (const m of opts.fromMessages ?? messages) {
+      if (m.id === undefined && !resuming) continue; // 未落库（乐观插入）全部丢弃
       cleanedMessages.push(m);
     }
 
@@ -778,9 +1085,16 @@ export default function Home() {
         ? { role: "user", content: opts.optimisticUserContent }
         : null;
     const baseMessages = optimisticUser ? [...cleanedMessages, optimisticUser] : [...cleanedMessages];
+    const last = baseMessages[baseMessages.length - 1];
+    if (resuming && last?.approval) {
+      baseMessages[baseMessages.length - 1] = {
+        ...last,
+        approval: { ...last.approval, status: opts.approval?.approved ? "approved" : "rejected" },
+      };
+    }
     setMessages(baseMessages);
-    const aiIdx = baseMessages.length;
-    let assistantInserted = false;
+    const aiIdx = resuming ? baseMessages.length - 1 : baseMessages.length;
+    let assistantInserted = resuming;
     const ensureAssistant = () => {
       if (assistantInserted) return;
       assistantInserted = true;
@@ -794,23 +1108,46 @@ export default function Home() {
     // finally 里如果照常 loadMessages 会把乐观插入的 user 气泡 + 错误提示一起冲掉，
     // 表现就是「点发送整个对话框瞬间消失」。用这个 flag 跳过失败时的重拉。
     let messagePersisted = false;
+    // 流停在工具确认上：回复还没落库，结束时不能重拉消息，否则确认卡片会被冲掉
+    let awaitingApproval = false;
+    // 没收到 done 流就断了（网络抖动）：运行还在服务端跑，结束时重新连上
+    let receivedDone = false;
+    // 重新连上时发现运行没跑完但进程已经没了（服务重启过）：从检查点继续这条用户消息
+    let continueFrom: number | null = null;
 
     try {
-      const response = await fetch(`${BASE}/api/chat`, withDeveloperHeader({
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message: opts.message,
-          sessionId: currentSessionId,
-          webSearchEnabled,
-          reasoningMode,
-          parentId: opts.parentId ?? null,
-          regenerateFromUserMessageId: opts.regenerateFromUserMessageId ?? null,
-        }),
-        signal: abortController.signal,
-      }));
+      const response = resuming
+        ? await fetch(`${BASE}/api/chat/approve`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(opts.approval),
+            signal: abortController.signal,
+          })
+        : opts.attach
+          ? await fetch(`${BASE}/api/chat/resume?sessionId=${currentSessionId}`, {
+              signal: abortController.signal,
+            })
+        : await fetch(`${BASE}/api/chat`, withDeveloperHeader({
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              message: opts.message,
+              sessionId: currentSessionId,
+              webSearchEnabled,
+              reasoningMode,
+              parentId: opts.parentId ?? null,
+              regenerateFromUserMessageId: opts.regenerateFromUserMessageId ?? null,
+              continueRun: opts.continueRun ?? false,
+            }),
+            signal: abortController.signal,
+          }));
       if (!response.ok) {
         const data = await response.json().catch(() => ({}));
+        // 没有进行中的运行不算错误
+        if (opts.attach) {
+          if (data.resumable && data.userMessageId) continueFrom = data.userMessageId;
+          return;
+        }
         ensureAssistant();
         const niceMsg =
           response.status === 429
@@ -820,114 +1157,141 @@ export default function Home() {
               : `错误: ${data.error || response.statusText}`;
         setMessages((prev) => {
           const updated = [...prev];
-          updated[aiIdx] = {
-            role: "assistant",
-            content: niceMsg,
-          };
+          updated[aiIdx] = resuming
+            ? { ...updated[aiIdx], content: `${updated[aiIdx].content}\n[${niceMsg}]` }
+            : { role: "assistant", content: niceMsg };
           return updated;
         });
         return;
       }
       messagePersisted = true;
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      if (!reader) throw new Error("无法获取响应流");
-
-      let buffer = "";
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const parts = buffer.split("\n\n");
-        buffer = parts.pop() || "";
-
-        for (const part of parts) {
-          const line = part.trim();
-          if (!line.startsWith("data: ")) continue;
-          try {
-            const data = JSON.parse(line.slice(6));
-
-            // 特殊 SSE：发布草稿 → 弹出确认框
-            if (data.type === "publish_draft") {
-              setPublishDraft({
-                title: data.title || "",
-                tags: Array.isArray(data.tags) ? data.tags : [],
-                content: data.content || "",
-              });
-              continue;
-            }
+      // 重新连上时回复还在后台生成：在气泡上提示一下，接着显示后续输出
+      if (opts.attach && response.headers.get("X-Run-State") === "generating") {
+        ensureAssistant();
+        setMessages((prev) => {
+          const updated = [...prev];
+          const msg = updated[aiIdx] || { role: "assistant", content: "" };
+          updated[aiIdx] = { ...msg, notices: [...(msg.notices || []), "这条回复在后台继续生成，已重新连上"] };
+          return updated;
+        });
+      }
+      for await (const data of readChatEvents(response)) {
+        // 调试 SSE：本轮上下文各部分用了多少 token、裁掉了什么，页面不展示（要看直接抓接口）
+        if (data.type === "context") continue;
+
+        // 特殊 SSE：发布草稿 → 弹出确认框
+        if (data.type === "publish_draft") {
+          setPublishDraft({ title: data.title, tags: data.tags, content: data.content });
+          continue;
+        }
 
-            // 首条会影响气泡渲染的事件到达前，先确保 assistant 消息已经插入
-            if (
-              data.type === "thinking" ||
-              data.type === "thinking_end" ||
-              data.type === "tool_start" ||
-              data.type === "tool_end" ||
-              data.type === "content" ||
-              data.type === "error"
-            ) {
-              ensureAssistant();
-            }
+        if (data.type === "approval_required") {
+          awaitingApproval = true;
+          setApprovalArgsDraft(JSON.stringify(data.args ?? {}, null, 2));
+          setApprovalArgsError("");
+        }
 
-            setMessages((prev) => {
-              const updated = [...prev];
-              const msg = { ...(updated[aiIdx] || { role: "assistant", content: "" }) };
+        // 首条会影响气泡渲染的事件到达前，先确保 assistant 消息已经插入
+        if (
+          data.type === "approval_required" ||
+          data.type === "thinking" ||
+          data.type === "thinking_end" ||
+          data.type === "tool_start" ||
+          data.type === "tool_end" ||
+          data.type === "content" ||
+          data.type === "notice" ||
+          data.type === "error"
+        ) {
+          ensureAssistant();
+        }
 
-              switch (data.type) {
-                case "thinking":
-                  msg.thinking = {
-                    content: (msg.thinking?.content || "") + data.content,
-                    isComplete: false,
-                  };
-                  break;
-                case "thinking_end":
-                  if (msg.thinking) {
-                    msg.thinking = { ...msg.thinking, isComplete: true };
-                  }
-                  break;
-                case "tool_start":
-                  msg.toolCalls = [
-                    ...(msg.toolCalls || []),
-                    { name: data.name, input: data.input || {}, isComplete: false },
-                  ];
-                  break;
-                case "tool_end": {
-                  const calls = [...(msg.toolCalls || [])];
-                  for (let i = calls.length - 1; i >= 0; i--) {
-                    if (calls[i].name === data.name && !calls[i].isComplete) {
-                      calls[i] = { ...calls[i], result: data.result, isComplete: true };
-                      break;
-                    }
-                  }
-                  msg.toolCalls = calls;
+        setMessages((prev) => {
+          const updated = [...prev];
+          const msg = { ...(updated[aiIdx] || { role: "assistant", content: "" }) };
+
+          switch (data.type) {
+            case "thinking":
+              msg.thinking = {
+                content: (msg.thinking?.content || "") + data.content,
+                isComplete: false,
+              };
+              break;
+            case "thinking_end":
+              if (msg.thinking) {
+                msg.thinking = { ...msg.thinking, isComplete: true };
+              }
+              break;
+            case "tool_start":
+              msg.toolCalls = [
+                ...(msg.toolCalls || []),
+                { name: data.name, input: (data.input || {}) as Record<string, unknown>, isComplete: false },
+              ];
+              break;
+            case "tool_end": {
+              const calls = [...(msg.toolCalls || [])];
+              for (let i = calls.length - 1; i >= 0; i--) {
+                if (calls[i].name === data.name && !calls[i].isComplete) {
+                  calls[i] = { ...calls[i], result: data.result, isComplete: true };
                   break;
                 }
-                case "content":
-                  msg.content = (msg.content || "") + data.content;
-                  break;
-                case "error":
-                  msg.content = (msg.content || "") + `\n[${data.content}]`;
-                  break;
-                case "done":
+              }
+              msg.toolCalls = calls;
+              break;
+            }
+            case "citations":
+              msg.citations = data.citations;
+              break;
+            case "content":
+              msg.content = (msg.content || "") + data.content;
+              break;
+            case "error":
+              msg.content = (msg.content || "") + `\n[${data.content}]`;
+              break;
+            case "notice":
+              msg.notices = [...(msg.notices || []), data.content];
+              break;
+            case "approval_required": {
+              msg.approval = {
+                runId: data.runId,
+                tool: data.tool,
+                args: data.args || {},
+                mcpServerId: data.mcpServerId,
+                mcpToolName: data.mcpToolName,
+                status: "pending",
+              };
+              // 这次调用停在确认上没有结果，恢复后会重新开始，先把转圈的条目去掉
+              const calls = [...(msg.toolCalls || [])];
+              for (let i = calls.length - 1; i >= 0; i--) {
+                if (calls[i].name === data.tool && !calls[i].isComplete) {
+                  calls.splice(i, 1);
                   break;
+                }
               }
+              msg.toolCalls = calls;
+              break;
+            }
+            case "done":
+              receivedDone = true;
+              break;
+          }
 
-              updated[aiIdx] = msg;
-              return updated;
-            });
-          } catch { /* skip malformed SSE */ }
-        }
+          updated[aiIdx] = msg;
+          return updated;
+        });
       }
     } catch (err) {
-      const isAbort =
-        err instanceof DOMException && err.name === "AbortError";
-      if (!isAbort) {
+      // 用户停止或切换会话都会中断 fetch（切换会话时 reason 不是 AbortError），都不算网络错误
+      if (!abortController.signal.aborted) {
         ensureAssistant();
         setMessages((prev) => {
           const updated = [...prev];
           updated[aiIdx] = {
             role: "assistant",
-            content: "网络错误，请检查服务是否正常运行",
+            // 协议错误多半是页面还是旧版本（服务端升级了事件协议）
+            content:
+              err instanceof ChatProtocolError
+                ? `无法解析回复（${err.message}），请刷新页面后重试`
+                : "网络错误，请检查服务是否正常运行",
           };
           return updated;
         });
@@ -937,14 +1301,28 @@ export default function Home() {
       abortControllerRef.current = null;
       // 仅当请求成功进入流式阶段（messagePersisted=true）时才重拉 DB；
       // 否则会用空数据覆盖掉乐观 UI 上的错误提示和 user 气泡。
-      if (messagePersisted && currentSessionId) {
-        await loadMessages(currentSessionId);
+      let reattachFrom: Message[] | null = null;
+      // 切换会话后界面上已经是别的会话，不再重拉这个会话的消息
+      const detached = abortController.signal.reason === DETACH_REASON;
+      if (messagePersisted && !awaitingApproval && !detached && currentSessionId) {
+        const loaded = await loadMessages(currentSessionId);
+        // 流没收到 done 就断了、也不是用户点的停止：运行还在服务端跑，重新连上接着显示
+        if (!receivedDone && !abortController.signal.aborted && loaded?.at(-1)?.role === "user") {
+          reattachFrom = loaded;
+        }
       }
       loadSessions();
       refreshUsage();
+      if (reattachFrom) {
+        await runChatStream({ attach: true, fromMessages: reattachFrom });
+      } else if (continueFrom !== null && !detached) {
+        await runChatStream({ regenerateFromUserMessageId: continueFrom, continueRun: true, fromMessages: opts.fromMessages });
+      }
     }
   };
 
+  useEffect(() => { runChatStreamRef.current = runChatStream; });
+
   const sendMessage = async () => {
     if (!input.trim() || loading || !currentSessionId) return;
     const content = input.trim();
@@ -956,8 +1334,35 @@ export default function Home() {
     });
   };
 
+  /** 批准（可以先改参数）或拒绝停下来的工具调用；always = 以后这个 MCP 工具不再询问 */
+  const respondToApproval = async (msgIdx: number, approved: boolean, always = false) => {
+    const approval = messages[msgIdx]?.approval;
+    if (!approval || approval.status !== "pending" || loading) return;
+    let args: Record<string, unknown> | undefined;
+    if (approved) {
+      try {
+        const parsed = JSON.parse(approvalArgsDraft || "{}");
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error();
+        args = parsed;
+      } catch {
+        setApprovalArgsError("参数必须是 JSON 对象");
+        return;
+      }
+    }
+    await runChatStream({ approval: { runId: approval.runId, approved, args, always } });
+    if (always) loadMcpServers();
+  };
+
   const stopGeneration = () => {
     abortControllerRef.current?.abort();
+    // 断开连接后服务端还会等一会儿重连，点停止要明确告诉它马上中止
+    if (currentSessionId) {
+      fetch(`${BASE}/api/chat/stop`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: currentSessionId }),
+      }).catch(() => {});
+    }
   };
 
   const regenerateAnswer = async (assistantIdx: number) => {
@@ -1012,7 +1417,7 @@ export default function Home() {
 
   const copyMessageContent = async (msg: Message) => {
     try {
-      await navigator.clipboard.writeText(msg.content);
+      await navigator.clipboard.writeText(msg.content.replace(CITATION_MARKER, ""));
       if (msg.id !== undefined) {
         setCopiedMessageId(msg.id);
         setTimeout(() => setCopiedMessageId((cur) => (cur === msg.id ? null : cur)), 1500);
@@ -1106,6 +1511,10 @@ export default function Home() {
 
   const currentSession = sessions.find((s) => s?.id === currentSessionId);
   const currentPersona = allPersonas.find((p) => p?.id === (currentSession?.persona || "assistant"));
+  // 本会话实际使用的模型：会话选择 > 自定义角色的选择 > chat 默认模型
+  const personaModelId = customPersonas.find((p) => p.id === currentSession?.persona)?.model_id ?? null;
+  const effectiveModelId = currentSession?.model_id ?? personaModelId ?? defaultChatModel;
+  const effectiveModel = modelOptions.find((m) => m.id === effectiveModelId);
 
   const toggleThinking = (index: number) => {
     setThinkingToggled(prev => { const s = new Set(prev); if (s.has(index)) s.delete(index); else s.add(index); return s; });
@@ -1190,6 +1599,9 @@ export default function Home() {
                 >
                   <span className="text-[15px] shrink-0">{persona?.emoji || "✨"}</span>
                   <span className="flex-1 truncate text-[13px] leading-snug">{session.title}</span>
+                  {session.generating && !(isActive && loading) && (
+                    <span className="shrink-0 text-[11px] text-ink-faint shimmer-text">生成中</span>
+                  )}
                   <button onClick={(e) => { e.stopPropagation(); deleteSessionById(session.id); }}
                     className="opacity-0 group-hover:opacity-100 shrink-0 w-6 h-6 flex items-center justify-center rounded-lg text-ink-faint hover:text-red-500 hover:bg-red-500/10 transition-all"
                   >
@@ -1229,6 +1641,16 @@ export default function Home() {
                 </span>
               )}
             </button>
+            <button onClick={openMemoryModal}
+              className="btn-press w-full flex items-center gap-2.5 rounded-xl px-3 py-2.5 text-[13px] text-ink-muted hover:text-ink hover:bg-card-hover">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 006 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 016 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 016-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0018 18a8.967 8.967 0 00-6 2.292m0-14.25v14.25" /></svg>
+              长期记忆
+            </button>
+            <button onClick={openKbModal}
+              className="btn-press w-full flex items-center gap-2.5 rounded-xl px-3 py-2.5 text-[13px] text-ink-muted hover:text-ink hover:bg-card-hover">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M20.25 6.375c0 2.278-3.694 4.125-8.25 4.125S3.75 8.653 3.75 6.375m16.5 0c0-2.278-3.694-4.125-8.25-4.125S3.75 4.097 3.75 6.375m16.5 0v11.25c0 2.278-3.694 4.125-8.25 4.125s-8.25-1.847-8.25-4.125V6.375m16.5 0v3.75m-16.5-3.75v3.75m16.5 0v3.75C20.25 16.153 16.556 18 12 18s-8.25-1.847-8.25-4.125v-3.75m16.5 0c0 2.278-3.694 4.125-8.25 4.125s-8.25-1.847-8.25-4.125" /></svg>
+              知识库
+            </button>
           </div>
         </div>
       </aside>
@@ -1360,6 +1782,11 @@ export default function Home() {
                   {msg.role === "assistant" ? (
                     <div className="flex-1 min-w-0 max-w-[82%]">
 
+                      {/* Notices（模型不可用 / 不支持工具等降级提示） */}
+                      {msg.notices && msg.notices.map((n, nIdx) => (
+                        <div key={nIdx} className="mb-1 text-[11px] text-ink-faint">ⓘ {n}</div>
+                      ))}
+
                       {/* Thinking Block */}
                       {msg.thinking && msg.thinking.content && (
                         <div className="mb-1">
@@ -1405,24 +1832,93 @@ export default function Home() {
                         );
                       })}
 
+                      {/* Tool Approval（需要确认的工具调用） */}
+                      {msg.approval && (
+                        <div className="mb-1 rounded-xl border border-line bg-card px-3 py-2.5 text-[12px]"
+                          style={{ boxShadow: "var(--c-shadow)" }}>
+                          <div className="flex items-center gap-1.5 text-ink">
+                            <span className="text-[13px]">{getToolIcon(msg.approval.tool)}</span>
+                            <span className="font-medium">{getToolDisplayName(msg.approval.tool)}</span>
+                            <span className="text-ink-faint">
+                              {msg.approval.status === "pending" ? "需要你确认后才会执行" : msg.approval.status === "approved" ? "已批准" : "已拒绝"}
+                            </span>
+                          </div>
+                          {msg.approval.status === "pending" ? (
+                            <>
+                              <textarea value={approvalArgsDraft}
+                                onChange={(e) => { setApprovalArgsDraft(e.target.value); setApprovalArgsError(""); }}
+                                rows={Math.min(10, approvalArgsDraft.split("\n").length + 1)}
+                                className="mt-2 w-full rounded-lg border border-line bg-input-bg px-2 py-1.5 font-mono text-[11px] text-ink outline-none focus:border-accent" />
+                              {approvalArgsError && <div className="mt-1 text-[11px] text-red-500">{approvalArgsError}</div>}
+                              <div className="mt-2 flex items-center gap-1.5">
+                                <button onClick={() => respondToApproval(index, true)} disabled={loading}
+                                  className="btn-press h-7 rounded-lg px-3 text-[12px] font-medium bg-accent text-white hover:brightness-110 disabled:opacity-50 transition-colors">
+                                  批准执行
+                                </button>
+                                {msg.approval.mcpServerId && (
+                                  <button onClick={() => respondToApproval(index, true, true)} disabled={loading}
+                                    className="btn-press h-7 rounded-lg px-3 text-[12px] text-ink-muted hover:text-ink hover:bg-card-hover disabled:opacity-50 transition-colors">
+                                    总是允许
+                                  </button>
+                                )}
+                                <button onClick={() => respondToApproval(index, false)} disabled={loading}
+                                  className="btn-press h-7 rounded-lg px-3 text-[12px] text-ink-muted hover:text-ink hover:bg-card-hover disabled:opacity-50 transition-colors">
+                                  拒绝
+                                </button>
+                              </div>
+                            </>
+                          ) : (
+                            <pre className="mt-1.5 whitespace-pre-wrap break-all font-mono text-[11px] text-ink-muted">{JSON.stringify(msg.approval.args, null, 2)}</pre>
+                          )}
+                        </div>
+                      )}
+
                       {/* Content */}
                       {(msg.content || msg.toolCalls?.some(tc => !tc.isComplete && tc.name.toLowerCase().match(/image|generate|jimeng/))) && (
                         <div className="rounded-2xl bg-card px-4 py-3.5 markdown-body text-[14px] leading-[1.75] mt-1"
                           style={{ boxShadow: "var(--c-shadow)" }}>
-                          {msg.content && (
-                            <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]} components={{
-                              img: ({ src, alt }) => (
-                                <img src={src} alt={alt || ''} className="rounded-xl max-w-full max-h-[400px] object-contain my-2" />
-                              )
-                            }}>{(() => {
-                              const seen = new Set<string>();
-                              return msg.content.replace(/!\[.*?\]\((.*?)\)\n?/g, (match: string, url: string) => {
-                                if (seen.has(url)) return "";
-                                seen.add(url);
-                                return match;
-                              });
-                            })()}</ReactMarkdown>
-                          )}
+                          {msg.content && (() => {
+                            const seen = new Set<string>();
+                            const deduped = msg.content.replace(/!\[.*?\]\((.*?)\)\n?/g, (match: string, url: string) => {
+                              if (seen.has(url)) return "";
+                              seen.add(url);
+                              return match;
+                            });
+                            const { text, ordered } = numberCitations(deduped, msg.citations);
+                            return (
+                              <>
+                                <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]} components={{
+                                  img: ({ src, alt }) => (
+                                    <img src={src} alt={alt || ''} className="rounded-xl max-w-full max-h-[400px] object-contain my-2" />
+                                  ),
+                                  a: ({ href, children }) => {
+                                    const citation = href?.startsWith("#cite-") ? ordered.find(c => `#cite-${c.id}` === href) : undefined;
+                                    if (citation) {
+                                      return (
+                                        <sup>
+                                          <button onClick={() => setOpenCitation(citation)} title={`${citation.title} · ${citationLocation(citation)}`}
+                                            className="mx-0.5 rounded px-1 text-[10px] font-medium text-accent-text bg-accent-soft hover:brightness-95 transition-colors">
+                                            {children}
+                                          </button>
+                                        </sup>
+                                      );
+                                    }
+                                    return <a href={href}>{children}</a>;
+                                  },
+                                }}>{text}</ReactMarkdown>
+                                {ordered.length > 0 && (
+                                  <div className="mt-3 border-t border-line pt-2 space-y-0.5 text-[12px] text-ink-muted">
+                                    {ordered.map((c, i) => (
+                                      <button key={c.id} onClick={() => setOpenCitation(c)}
+                                        className="block w-full text-left truncate hover:text-ink transition-colors">
+                                        <span className="text-accent-text">[{i + 1}]</span> {c.title} · {citationLocation(c)}
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
+                              </>
+                            );
+                          })()}
                           {msg.toolCalls?.some(tc => !tc.isComplete && tc.name.toLowerCase().match(/image|generate|jimeng/)) && (
                             <div className="skeleton-image mt-3" />
                           )}
@@ -1473,6 +1969,11 @@ export default function Home() {
                               </button>
                             </div>
                           )}
+                          {msg.model && (
+                            <span className="ml-1.5 text-[11px]" title="生成这条回复的模型">
+                              {modelOptions.find((m) => m.id === msg.model)?.label || msg.model}
+                            </span>
+                          )}
                         </div>
                       )}
                     </div>
@@ -1630,6 +2131,47 @@ export default function Home() {
                       {GlobeIcon}
                       联网搜索
                     </button>
+                    {modelOptions.length > 0 && (
+                      <div className="relative">
+                        <button onClick={() => (modelPickerOpen ? setModelPickerOpen(false) : openModelPicker())} disabled={loading}
+                          className={`btn-press flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-[12px] font-medium transition-all disabled:opacity-30 ${
+                            currentSession?.model_id || currentSession?.model_params
+                              ? "bg-accent-soft text-accent-text"
+                              : "text-ink-faint hover:text-ink-muted hover:bg-card-hover"
+                          }`}
+                          title="选择本会话使用的模型">
+                          {effectiveModel?.label || effectiveModelId || "模型"}
+                        </button>
+                        {modelPickerOpen && (
+                          <div className="absolute bottom-full left-0 mb-2 w-72 rounded-xl border border-line bg-card p-3 shadow-lg z-20 space-y-3">
+                            <div className="space-y-1 max-h-52 overflow-y-auto">
+                              <button onClick={() => setModelDraft({ ...modelDraft, modelId: "" })}
+                                className={`w-full text-left rounded-lg px-2.5 py-1.5 text-[12px] transition-colors ${modelDraft.modelId === "" ? "bg-accent-soft text-accent-text" : "text-ink-muted hover:bg-card-hover"}`}>
+                                默认（{modelOptions.find((m) => m.id === (personaModelId ?? defaultChatModel))?.label || personaModelId || defaultChatModel}）
+                              </button>
+                              {modelOptions.map((m) => (
+                                <button key={m.id} onClick={() => setModelDraft({ ...modelDraft, modelId: m.id })}
+                                  className={`w-full flex items-center justify-between gap-2 text-left rounded-lg px-2.5 py-1.5 text-[12px] transition-colors ${modelDraft.modelId === m.id ? "bg-accent-soft text-accent-text" : "text-ink-muted hover:bg-card-hover"}`}>
+                                  <span className="truncate">{m.label}</span>
+                                  <span className="shrink-0 text-[10px] text-ink-faint">{modelCapabilityTags(m).join(" · ")}</span>
+                                </button>
+                              ))}
+                            </div>
+                            {modelDraft.modelId && !modelOptions.find((m) => m.id === modelDraft.modelId)?.capabilities.tools && (
+                              <p className="text-[11px] text-ink-faint">该模型不支持工具调用，对话中不会联网搜索、查询知识库或调用 MCP 工具</p>
+                            )}
+                            <ModelParamsFields value={modelDraft.params} onChange={(params) => setModelDraft({ ...modelDraft, params })} withTemperature
+                              maxOutput={modelOptions.find((m) => m.id === (modelDraft.modelId || personaModelId || defaultChatModel))?.maxOutput} />
+                            <div className="flex justify-end gap-2">
+                              <button onClick={() => handleSetSessionModel(null, {})}
+                                className="btn-press rounded-lg px-2.5 py-1.5 text-[12px] text-ink-muted hover:text-ink hover:bg-card-hover">恢复默认</button>
+                              <button onClick={() => handleSetSessionModel(modelDraft.modelId || null, modelDraft.params)}
+                                className="btn-press rounded-lg bg-accent px-3 py-1.5 text-[12px] font-medium text-white hover:brightness-110">应用</button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-1.5">
                     <input ref={fileInputRef} type="file" accept="image/*,.pdf,.xlsx,.xls,.csv,.doc,.docx,.txt" onChange={handleFileUpload} className="hidden" />
@@ -1730,6 +2272,36 @@ export default function Home() {
                 <input type="range" min="0" max="1" step="0.05" value={newPersona.temperature} onChange={(e) => setNewPersona({ ...newPersona, temperature: parseFloat(e.target.value) })} className="w-full" />
                 <div className="flex justify-between text-[10px] text-ink-faint mt-1"><span>精确</span><span>创意</span></div>
               </div>
+              {modelOptions.length > 0 && (
+                <div>
+                  <label className="text-[11px] text-ink-muted mb-1 block">模型（会话里单独选择的模型优先）</label>
+                  <select value={newPersona.modelId} onChange={(e) => setNewPersona({ ...newPersona, modelId: e.target.value })}
+                    className="w-full rounded-xl bg-input-bg border border-line px-3 py-2 text-[13px] outline-none focus:border-accent mb-2">
+                    <option value="">默认（{modelOptions.find((m) => m.id === defaultChatModel)?.label || defaultChatModel}）</option>
+                    {modelOptions.map((m) => (
+                      <option key={m.id} value={m.id}>{m.label}{modelCapabilityTags(m).length > 0 ? `（${modelCapabilityTags(m).join(" · ")}）` : ""}</option>
+                    ))}
+                  </select>
+                  <ModelParamsFields value={newPersona.modelParams} onChange={(modelParams) => setNewPersona({ ...newPersona, modelParams })}
+                    maxOutput={modelOptions.find((m) => m.id === (newPersona.modelId || defaultChatModel))?.maxOutput} />
+                </div>
+              )}
+              {knowledgeBases.length > 0 && (
+                <div>
+                  <label className="text-[11px] text-ink-muted mb-1 block">知识库（不选则可查全部可见知识库）</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {knowledgeBases.map((kb) => {
+                      const selected = newPersona.knowledgeBaseIds.includes(kb.id);
+                      return (
+                        <button key={kb.id} onClick={() => setNewPersona({ ...newPersona, knowledgeBaseIds: selected ? newPersona.knowledgeBaseIds.filter(id => id !== kb.id) : [...newPersona.knowledgeBaseIds, kb.id] })}
+                          className={`btn-press rounded-lg border px-2.5 py-1 text-[12px] transition-colors ${selected ? "border-accent-border bg-accent-soft text-accent-text" : "border-line text-ink-muted hover:text-ink hover:bg-card-hover"}`}>
+                          📚 {kb.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
               <button onClick={handleCreatePersona} disabled={!newPersona.name.trim() || !newPersona.prompt.trim()}
                 className="btn-press w-full rounded-xl bg-accent px-4 py-3 text-[13px] font-semibold text-white disabled:opacity-30 hover:brightness-110 transition-all"
                 style={{ boxShadow: `0 2px 8px var(--c-btn-shadow)` }}>
@@ -1974,6 +2546,32 @@ export default function Home() {
                                 ? `${s.command} ${s.args ? JSON.parse(s.args).join(" ") : ""}`
                                 : s.url}
                             </p>
+                            {(() => {
+                              const overrides: Record<string, ToolPolicy> = s.tool_policies ? JSON.parse(s.tool_policies) : {};
+                              return (
+                                <div className="mt-1.5 flex flex-wrap items-center gap-1 text-[11px] text-ink-muted">
+                                  <span>工具调用</span>
+                                  <select value={s.tool_policy}
+                                    onChange={(e) => handleSetMcpToolPolicy(s.id, e.target.value as ToolPolicy, overrides)}
+                                    className="rounded-md bg-input-bg border border-line px-1 py-0.5 text-[11px] outline-none">
+                                    {(["ask", "allow", "deny"] as const).map((p) => (
+                                      <option key={p} value={p}>{TOOL_POLICY_LABELS[p]}</option>
+                                    ))}
+                                  </select>
+                                  {Object.entries(overrides).map(([tool, policy]) => (
+                                    <span key={tool} className="inline-flex items-center gap-0.5 rounded bg-accent-soft px-1 py-0.5 text-accent-text">
+                                      {tool}: {TOOL_POLICY_LABELS[policy]}
+                                      <button title="恢复默认" className="hover:text-ink"
+                                        onClick={() => {
+                                          const rest = { ...overrides };
+                                          delete rest[tool];
+                                          handleSetMcpToolPolicy(s.id, s.tool_policy, rest);
+                                        }}>×</button>
+                                    </span>
+                                  ))}
+                                </div>
+                              );
+                            })()}
                           </div>
                           <button onClick={() => handleDeleteMcpServer(s.id)}
                             className="btn-press shrink-0 rounded-lg p-1.5 text-ink-faint hover:text-red-500 hover:bg-red-500/10 transition-all" title="删除">
@@ -2046,6 +2644,249 @@ export default function Home() {
         </div>
       )}
 
+      {/* ═══════ Memory Modal ═══════ */}
+      {memoryModalOpen && (
+        <div className="modal-overlay fixed inset-0 z-50 flex items-center justify-center bg-overlay backdrop-blur-xl" onClick={() => setMemoryModalOpen(false)}>
+          <div className="modal-glass w-full max-w-2xl mx-4 border border-line max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="shrink-0 px-6 py-5 border-b border-line">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-[16px] font-semibold tracking-tight">长期记忆</h2>
+                  <p className="text-[12px] text-ink-muted mt-0.5">AI 跨会话记住的关于你的信息，置顶的记忆每次对话都会带上</p>
+                </div>
+                <button onClick={() => setMemoryModalOpen(false)} className="btn-press rounded-xl p-1.5 text-ink-muted hover:text-ink hover:bg-card-hover">{CloseIcon}</button>
+              </div>
+
+              <div className="mt-4 space-y-2">
+                {[
+                  { label: "自动提取记忆", hint: "关闭后所有对话都不再写入新记忆", value: memoryAutoExtract, sessionScoped: false },
+                  ...(sessionMemoryEnabled !== null
+                    ? [{ label: "当前会话提取", hint: "只对当前会话生效", value: sessionMemoryEnabled, sessionScoped: true }]
+                    : []),
+                ].map((row) => (
+                  <div key={row.label} className="flex items-center gap-3 rounded-xl bg-card border border-line px-4 py-2.5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[13px] font-medium">{row.label}</p>
+                      <p className="text-[11px] text-ink-muted">{row.hint}</p>
+                    </div>
+                    <button onClick={() => handleToggleAutoExtract(!row.value, row.sessionScoped)}
+                      className={`toggle-track shrink-0 w-9 h-[22px] rounded-full relative ${row.value ? "bg-green-500" : "bg-ink-faint"}`}
+                      style={{ opacity: row.value ? 1 : 0.3 }}>
+                      <div className={`toggle-thumb absolute top-[3px] w-4 h-4 rounded-full bg-white shadow-sm ${row.value ? "translate-x-[18px]" : "translate-x-[3px]"}`} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <input value={memoryQuery}
+                onChange={(e) => setMemoryQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && loadMemories(memoryQuery, currentSessionId)}
+                placeholder="搜索记忆，回车确认..."
+                className="mt-3 w-full h-10 rounded-xl bg-input-bg border border-line px-3 text-[13px] placeholder:text-ink-faint outline-none focus:border-accent focus:ring-2 focus:ring-accent/10 transition-all" />
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5">
+              {memories.length === 0 ? (
+                <div className="text-center py-14">
+                  <p className="text-2xl mb-3 opacity-60">🧠</p>
+                  <p className="text-[13px] text-ink-muted">{memoryQuery.trim() ? "没有匹配的记忆" : "还没有记住任何信息"}</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {memories.map((m) => (
+                    <div key={m.id} className={`rounded-xl bg-card border px-4 py-3 ${m.pinned ? "border-accent-border" : "border-line"}`}>
+                      {editingMemoryId === m.id ? (
+                        <>
+                          <textarea value={editingMemoryText} onChange={(e) => setEditingMemoryText(e.target.value)} rows={2} autoFocus
+                            className="w-full rounded-lg bg-input-bg border border-line px-3 py-2 text-[13px] outline-none resize-none focus:border-accent transition-all" />
+                          <div className="flex items-center justify-end gap-2 mt-2">
+                            <button onClick={() => setEditingMemoryId(null)}
+                              className="btn-press rounded-lg px-3 py-1 text-[12px] text-ink-muted hover:text-ink hover:bg-card-hover transition-colors">取消</button>
+                            <button onClick={() => handleUpdateMemory(m.id, { content: editingMemoryText.trim() })} disabled={!editingMemoryText.trim()}
+                              className="btn-press rounded-lg px-3 py-1 text-[12px] font-medium text-white disabled:opacity-30 hover:brightness-110 transition-all"
+                              style={{ background: "var(--c-accent)" }}>保存</button>
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-[13px] leading-relaxed whitespace-pre-wrap">{m.content}</p>
+                          <div className="mt-2 flex items-center gap-2 text-ink-faint">
+                            {m.keywords && <span className="text-[10px] truncate flex-1">{m.keywords}</span>}
+                            {!m.keywords && <span className="flex-1" />}
+                            <select value={m.importance} onChange={(e) => handleUpdateMemory(m.id, { importance: e.target.value as LongMemoryItem["importance"] })}
+                              className="h-6 rounded-md bg-input-bg border border-line px-1.5 text-[11px] text-ink-muted outline-none">
+                              <option value="high">重要</option>
+                              <option value="normal">普通</option>
+                              <option value="low">次要</option>
+                            </select>
+                            <button onClick={() => handleUpdateMemory(m.id, { pinned: !m.pinned })}
+                              className={`btn-press rounded-md px-1.5 py-0.5 text-[11px] transition-colors ${m.pinned ? "bg-accent-soft text-accent-text" : "hover:text-ink hover:bg-card-hover"}`}
+                              title={m.pinned ? "取消置顶" : "置顶：每次对话都带上"}>
+                              📌
+                            </button>
+                            <button onClick={() => toggleMemoryHistory(m.id)}
+                              className={`btn-press rounded-md px-1.5 py-0.5 text-[11px] transition-colors ${memoryHistory?.id === m.id ? "bg-accent-soft text-accent-text" : "hover:text-ink hover:bg-card-hover"}`}
+                              title="历史版本">
+                              🕘
+                            </button>
+                            <button onClick={() => { setEditingMemoryId(m.id); setEditingMemoryText(m.content); }}
+                              className="btn-press rounded-md p-1 hover:text-ink hover:bg-card-hover transition-colors" title="编辑">
+                              {EditIcon}
+                            </button>
+                            <button onClick={() => handleDeleteMemory(m.id)}
+                              className="btn-press rounded-md p-1 hover:text-red-500 hover:bg-red-500/10 transition-all" title="遗忘">
+                              {TrashIcon}
+                            </button>
+                          </div>
+                          {memoryHistory?.id === m.id && (
+                            <div className="mt-2 border-t border-line pt-2 space-y-1.5">
+                              {memoryHistory.items.length === 0 ? (
+                                <p className="text-[11px] text-ink-faint">没有历史版本</p>
+                              ) : memoryHistory.items.map((h) => (
+                                <div key={h.id} className="text-[11px] text-ink-muted">
+                                  <span className="mr-1.5 rounded bg-input-bg px-1 py-0.5 text-ink-faint">{h.action === "merge" ? "合并" : h.action === "supersede" ? "被取代" : "编辑前"}</span>
+                                  <span className="line-through">{h.content}</span>
+                                  <span className="ml-1.5 text-ink-faint">{new Date(h.created_at).toLocaleDateString()}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* ═══════ Citation Passage Modal ═══════ */}
+      {openCitation && (
+        <div className="modal-overlay fixed inset-0 z-50 flex items-center justify-center bg-overlay backdrop-blur-xl" onClick={() => setOpenCitation(null)}>
+          <div className="modal-glass w-full max-w-xl mx-4 border border-line max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="shrink-0 px-6 py-5 border-b border-line flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <h2 className="text-[16px] font-semibold tracking-tight truncate">{openCitation.title}</h2>
+                <p className="text-[12px] text-ink-muted mt-0.5">
+                  {citationLocation(openCitation)} · 第 {openCitation.offset + 1} 字起 · 相关度 {openCitation.score.toFixed(3)}（{openCitation.method}）
+                </p>
+              </div>
+              <button onClick={() => setOpenCitation(null)} className="btn-press rounded-xl p-1.5 text-ink-muted hover:text-ink hover:bg-card-hover">{CloseIcon}</button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-4 text-[13px] leading-[1.8] whitespace-pre-wrap">{openCitation.content}</div>
+          </div>
+        </div>
+      )}
+
+      {/* ═══════ Knowledge Base Modal ═══════ */}
+      {kbModalOpen && (
+        <div className="modal-overlay fixed inset-0 z-50 flex items-center justify-center bg-overlay backdrop-blur-xl" onClick={() => setKbModalOpen(false)}>
+          <div className="modal-glass w-full max-w-2xl mx-4 border border-line max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="shrink-0 px-6 py-5 border-b border-line">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-[16px] font-semibold tracking-tight">知识库</h2>
+                  <p className="text-[12px] text-ink-muted mt-0.5">按主题分开存放资料，AI 只在当前会话勾选的知识库里检索</p>
+                </div>
+                <button onClick={() => setKbModalOpen(false)} className="btn-press rounded-xl p-1.5 text-ink-muted hover:text-ink hover:bg-card-hover">{CloseIcon}</button>
+              </div>
+
+              {currentSessionId && (
+                <div className="mt-4 flex items-center gap-3 rounded-xl bg-card border border-line px-4 py-2.5">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[13px] font-medium">当前会话范围</p>
+                    <p className="text-[11px] text-ink-muted">
+                      {currentSession?.knowledge_base_ids
+                        ? `已指定 ${currentSession.knowledge_base_ids.length} 个知识库`
+                        : customPersonas.find(p => p.id === currentSession?.persona)?.knowledge_base_ids
+                          ? "沿用角色绑定的知识库"
+                          : "不限定：可检索全部可见知识库"}
+                    </p>
+                  </div>
+                  {currentSession?.knowledge_base_ids && (
+                    <button onClick={() => handleSetSessionKbs(null)}
+                      className="btn-press rounded-lg px-3 py-1 text-[12px] text-ink-muted hover:text-ink hover:bg-card-hover transition-colors">取消指定</button>
+                  )}
+                </div>
+              )}
+
+              <div className="mt-3 flex items-center gap-2">
+                <input value={newKb.name} onChange={(e) => setNewKb({ ...newKb, name: e.target.value })} placeholder="新知识库名称，例：值班手册"
+                  className="flex-1 min-w-0 rounded-xl bg-input-bg border border-line px-3 py-2 text-[13px] placeholder:text-ink-faint outline-none focus:border-accent transition-all" />
+                <input value={newKb.description} onChange={(e) => setNewKb({ ...newKb, description: e.target.value })} placeholder="简介（AI 会看到）"
+                  className="flex-1 min-w-0 rounded-xl bg-input-bg border border-line px-3 py-2 text-[13px] placeholder:text-ink-faint outline-none focus:border-accent transition-all" />
+                <label className="shrink-0 flex items-center gap-1 text-[12px] text-ink-muted">
+                  <input type="checkbox" checked={newKb.shared} onChange={(e) => setNewKb({ ...newKb, shared: e.target.checked })} />共享
+                </label>
+                <button onClick={handleCreateKb} disabled={!newKb.name.trim()}
+                  className="btn-press shrink-0 rounded-xl px-3 py-2 text-[12px] font-medium text-white disabled:opacity-30 hover:brightness-110 transition-all"
+                  style={{ background: "var(--c-accent)" }}>新建</button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+              {knowledgeBases.map((kb) => {
+                const inScope = currentSession?.knowledge_base_ids ? currentSession.knowledge_base_ids.includes(kb.id) : true;
+                return (
+                  <div key={kb.id} className="rounded-xl bg-card border border-line px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      {currentSessionId && (
+                        <input type="checkbox" checked={inScope} onChange={() => toggleSessionKb(kb.id)} title="当前会话使用" />
+                      )}
+                      <button onClick={() => toggleKbExpanded(kb.id)} className="flex-1 min-w-0 text-left">
+                        <p className="text-[13px] font-medium truncate">
+                          {kb.name}
+                          {kb.shared && <span className="ml-1.5 rounded bg-input-bg px-1 py-0.5 text-[10px] text-ink-faint">共享</span>}
+                        </p>
+                        <p className="text-[11px] text-ink-muted truncate">{kb.description || "无简介"} · {kb.document_count} 篇文档</p>
+                      </button>
+                      {kb.manageable && kb.owner_id !== "system" && (
+                        <>
+                          <button onClick={() => handleToggleKbShared(kb)}
+                            className="btn-press rounded-md px-1.5 py-0.5 text-[11px] text-ink-faint hover:text-ink hover:bg-card-hover transition-colors">
+                            {kb.shared ? "取消共享" : "共享"}
+                          </button>
+                          <button onClick={() => handleDeleteKb(kb)}
+                            className="btn-press rounded-md p-1 text-ink-faint hover:text-red-500 hover:bg-red-500/10 transition-all" title="删除知识库">
+                            {TrashIcon}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                    {expandedKbId === kb.id && (
+                      <div className="mt-2 border-t border-line pt-2 space-y-1.5">
+                        {kbDocuments.length === 0 && <p className="text-[11px] text-ink-faint">还没有文档</p>}
+                        {kbDocuments.map((d) => (
+                          <div key={d.id} className="flex items-center gap-2 text-[12px]">
+                            <span className="flex-1 min-w-0 truncate">{d.title}</span>
+                            <span className="shrink-0 text-[10px] text-ink-faint">{d.chunk_count} 块</span>
+                            {kb.manageable && d.created_by !== "system" && (
+                              <button onClick={() => handleDeleteKbDocument(kb.id, d.id)}
+                                className="btn-press rounded-md p-1 text-ink-faint hover:text-red-500 hover:bg-red-500/10 transition-all" title="删除文档">
+                                {TrashIcon}
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                        {kb.manageable && (
+                          <label className={`btn-press inline-flex items-center gap-1 rounded-lg border border-line px-2.5 py-1 text-[12px] text-ink-muted hover:text-ink hover:bg-card-hover cursor-pointer ${kbUploading ? "opacity-50 pointer-events-none" : ""}`}>
+                            {kbUploading ? "入库中..." : "上传文档（PDF / Excel / Markdown / TXT）"}
+                            <input type="file" accept=".pdf,.xlsx,.xls,.csv,.md,.txt" className="hidden"
+                              onChange={(e) => { const f = e.target.files?.[0]; if (f) handleUploadKbDocument(kb.id, f); e.target.value = ""; }} />
+                          </label>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* ═══════ Preset Config Dialog ═══════ */}
       {presetInstalling && (
         <div className="modal-overlay fixed inset-0 z-[60] flex items-center justify-center bg-overlay backdrop-blur-xl" onClick={() => setPresetInstalling(null)}>
@@ -0,0 +1,112 @@
+import { ChatFrame, ChatProtocolError, parseChatFrame } from "./chat-protocol";
+
+/**
+ * ========== 对话事件客户端 ==========
+ *
+ * 读对话接口的 SSE 响应（格式见 chat-protocol.ts），前端页面和外部项目共用，不用各自手写解析。
+ * 用 fetch 读流而不是 EventSource：对话请求要 POST 请求体、外部接口要带 Authorization 头
+ *
+ *   const events = await postChat("https://cortex.example.com/api/v1/chat", { messages }, {
+ *     headers: { Authorization: `Bearer ${apiKey}` },
+ *   });
+ *   for await (const event of events) {
+ *     if (event.type === "content") process.stdout.write(event.content);
+ *   }
+ */
+
+export { ChatProtocolError } from "./chat-protocol";
+export type { ChatEvent, ChatEventType, ChatFrame } from "./chat-protocol";
+
+/** 请求没进入流式阶段（鉴权失败、参数错误、限流等） */
+export class ChatRequestError extends Error {
+  constructor(
+    readonly status: number,
+    /** 服务端返回的 JSON（{ error, ... }），不是 JSON 时为 null */
+    readonly body: Record<string, unknown> | null
+  ) {
+    super(typeof body?.error === "string" ? body.error : `请求失败（HTTP ${status}）`);
+  }
+}
+
+/**
+ * 逐个读出响应里的事件，流结束时结束；不认识的事件类型跳过，
+ * 协议版本不对或事件格式不对抛 ChatProtocolError
+ */
+export async function* readChatEvents(response: Response): AsyncGenerator<ChatFrame> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new ChatProtocolError("响应没有内容流");
+  const decoder = new TextDecoder();
+
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      // 按空行切出完整的 SSE 块，最后一段可能还没收完
+      const blocks = buffer.replace(/\r\n?/g, "\n").split("\n\n");
+      buffer = done ? "" : blocks.pop() ?? "";
+
+      for (const block of blocks) {
+        const frame = parseBlock(block);
+        if (frame) yield frame;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** 一个 SSE 块 → 事件；注释行（keepalive）和 id 行忽略，多个 data 行按规范用换行拼起来 */
+function parseBlock(block: string): ChatFrame | null {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(line.startsWith("data: ") ? 6 : 5))
+    .join("\n");
+  if (!data) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    throw new ChatProtocolError(`事件不是合法的 JSON：${data.slice(0, 200)}`);
+  }
+  return parseChatFrame(json);
+}
+
+export interface ChatRequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** 自定义 fetch（Node 旧版本、测试） */
+  fetch?: typeof fetch;
+}
+
+/** POST 一个对话请求，返回事件流；没进入流式阶段时抛 ChatRequestError */
+export async function postChat(
+  url: string,
+  body: unknown,
+  options: ChatRequestOptions = {}
+): Promise<AsyncGenerator<ChatFrame>> {
+  const response = await (options.fetch ?? fetch)(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...options.headers },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new ChatRequestError(response.status, data);
+  }
+  return readChatEvents(response);
+}
+
+/** 读完整个流，返回拼好的回复（不需要逐字显示时用）；流里的 error 事件抛出 */
+export async function collectReply(events: AsyncIterable<ChatFrame>): Promise<string> {
+  let reply = "";
+  for await (const event of events) {
+    if (event.type === "content") reply += event.content;
+    if (event.type === "error") throw new Error(event.content);
+  }
+  return reply;
+}
@@ -0,0 +1,298 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { ChatMiddleware, ChatTurn } from "./chat-pipeline";
+import { refreshConversationSummary } from "./conversation-summary";
+import { addMessage, getActiveMessages, recordAiUsage, updateSessionTitle } from "./db";
+import { MemoryConflictVerdict, saveMemory } from "./long-memory";
+import { createChatModel } from "./models";
+import { Citation, pickCitedCitations, stripCitationMarkers } from "./rag";
+
+/**
+ * ========== 对话管道的中间件 ==========
+ *
+ * 挂点的含义见 chat-pipeline.ts。中间件按数组顺序执行，顺序有意义：
+ * postReply 里往回复追加内容的（图片、发布提示）要放在落库（persistTurnMiddleware）前面
+ */
+
+/** 在系统提示末尾加上当前日期，让 AI 知道"今天"是什么时候 */
+export function appendCurrentDate(systemPrompt: string): string {
+  const dateStr = new Date().toLocaleDateString("zh-CN", {
+    timeZone: "Asia/Shanghai",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "long",
+  });
+  return `${systemPrompt}\n[当前日期: ${dateStr}]`;
+}
+
+/** 动态注入当前日期 */
+export const dateMiddleware: ChatMiddleware = {
+  name: "date",
+  prePrompt: appendCurrentDate,
+};
+
+/** 知识库工具：把结构化引用（artifact）推给前端，用来渲染回答里的脚注 */
+export const citationsMiddleware: ChatMiddleware = {
+  name: "citations",
+  postTool(call, turn) {
+    const artifact = (call.output as { artifact?: unknown } | undefined)?.artifact;
+    if (call.name !== "search_knowledge_base" || !Array.isArray(artifact)) return;
+    for (const c of artifact as Citation[]) turn.citations.set(c.id, c);
+    turn.emit({ type: "citations", citations: [...turn.citations.values()] });
+  },
+};
+
+/** 提取工具结果里的来源（联网搜索的「来源:」行、知识库引用的文档），随 tool_end 推出去 */
+export const toolSourcesMiddleware: ChatMiddleware = {
+  name: "tool-sources",
+  postTool(call) {
+    if (call.name === "web_search") {
+      for (const line of call.text.split("\n")) {
+        const srcMatch = line.match(/^来源:\s*(.+)$/);
+        if (srcMatch) call.sources.push(srcMatch[1].trim());
+      }
+    }
+    const artifact = (call.output as { artifact?: unknown } | undefined)?.artifact;
+    if (call.name === "search_knowledge_base" && Array.isArray(artifact)) {
+      for (const c of artifact as { source: string }[]) {
+        if (!call.sources.includes(c.source)) call.sources.push(c.source);
+      }
+    }
+  },
+};
+
+/** 收集工具生成的图片 markdown，回复结束后追加到末尾，确保持久化到数据库 */
+export function createToolImagesMiddleware(): ChatMiddleware {
+  const images: string[] = [];
+  return {
+    name: "tool-images",
+    postTool(call) {
+      const imgMatch = call.text.match(/!\[.*?\]\(https?:\/\/[^)]+\)/);
+      if (imgMatch) images.push(imgMatch[0]);
+    },
+    postReply(turn) {
+      if (turn.aborted || turn.failed || images.length === 0) return;
+      turn.write("\n\n" + images.join("\n\n"));
+    },
+  };
+}
+
+/**
+ * 识别 prepare_article_publish 工具：把草稿通过 publish_draft 事件推给前端弹确认框
+ *
+ * 兜底：用户让发布，但 AI 把文章写成了纯文本、没真的调工具。加一段提示到回复里，
+ * 让用户直接看到「再说一次」的解决办法，而不是对着死气沉沉的结果发呆。
+ */
+export function createPublishDraftMiddleware(userMessage: string): ChatMiddleware {
+  let draftEmitted = false;
+  return {
+    name: "publish-draft",
+    postTool(call, turn) {
+      if (call.name !== "prepare_article_publish") return;
+      try {
+        const draft = JSON.parse(call.text);
+        if (draft && draft.__publish_draft__) {
+          draftEmitted = true;
+          turn.emit({
+            type: "publish_draft",
+            title: draft.title || "",
+            tags: draft.tags || [],
+            content: draft.content || "",
+          });
+        }
+      } catch {
+        console.warn("publish_draft 解析失败");
+      }
+    },
+    postReply(turn) {
+      if (turn.aborted || turn.failed || draftEmitted) return;
+      const userWantsPublish = /(发布|发表|投稿|博客|blog)/i.test(userMessage);
+      const aiTriedToPublish =
+        /(调用工具|准备调用|下面调用|我来调用|即将调用|即将发布|现在发布)/.test(turn.reply);
+      const looksLikeArticle = turn.reply.length > 400 && /(^|\n)#{1,3} .+/.test(turn.reply);
+      if (userWantsPublish && (aiTriedToPublish || looksLikeArticle)) {
+        turn.write(
+          "\n\n⚠️ 我好像忘记调用发布工具了。请再说一次「发布这篇文章」或点重新生成，我会直接调用 `prepare_article_publish` 弹出确认框。"
+        );
+      }
+    },
+  };
+}
+
+/** 一轮会话对话的收尾信息 */
+export interface PersistTurnContext {
+  userId: string;
+  sessionId: string;
+  sessionTitle: string;
+  userMessageId: number;
+  userContent: string;
+  memoryAutoExtract: boolean;
+}
+
+/** 用量按模式分别记录 */
+const USAGE_ENDPOINT: Record<string, string> = {
+  tools: "chat",
+  reasoning: "chat-reasoning",
+  publish: "chat-publish",
+};
+
+/**
+ * 每轮会话对话的收尾，放在中间件列表最后
+ *
+ * 1. 落库 AI 回复（中断时也保留部分内容，连同回复里标注的知识库引用和实际回答的模型）
+ * 2. 新会话用回复开头当标题
+ * 3. 记录用量
+ * 4. 活跃链变长后刷新对话滚动摘要（未出错时；异步，不阻塞关流）
+ * 5. 提取长期记忆（非中断、未出错、且用户未关闭自动提取时才做；异步，不阻塞关流）
+ *
+ * 每一步独立 try/catch，某一步失败不影响后面的步骤
+ */
+export function createPersistTurnMiddleware(ctx: PersistTurnContext): ChatMiddleware {
+  return {
+    name: "persist-turn",
+    postReply: (turn) => persistTurn(ctx, turn),
+  };
+}
+
+async function persistTurn(ctx: PersistTurnContext, turn: ChatTurn): Promise<void> {
+  const { reply } = turn;
+  try {
+    if (reply) {
+      await addMessage(
+        ctx.sessionId,
+        "assistant",
+        reply,
+        ctx.userMessageId,
+        pickCitedCitations(reply, [...turn.citations.values()]),
+        turn.model
+      );
+      if (ctx.sessionTitle === "新对话") {
+        const title = stripCitationMarkers(reply).replace(/[#*\n]/g, "").slice(0, 20) + "...";
+        await updateSessionTitle(ctx.sessionId, title, ctx.userId);
+      }
+    }
+  } catch (dbErr) {
+    console.warn("落库失败:", dbErr);
+  }
+
+  try {
+    await recordAiUsage(ctx.userId, USAGE_ENDPOINT[turn.mode] ?? "chat");
+  } catch (err) {
+    console.warn("用量记录失败:", err);
+  }
+
+  // 摘要和记忆提取共用一个低温的后台任务模型
+  const helperModel = createChatModel("utility", { temperature: 0.1 });
+
+  if (!turn.failed && reply) {
+    getActiveMessages(ctx.sessionId)
+      .then((chain) => refreshConversationSummary(helperModel, ctx.sessionId, chain))
+      .catch((err) => console.warn("对话摘要刷新失败:", err));
+  }
+
+  if (!turn.aborted && !turn.failed && reply && ctx.memoryAutoExtract) {
+    extractAndSaveMemory(
+      helperModel,
+      ctx.userId,
+      ctx.sessionId,
+      ctx.userContent,
+      reply
+    ).catch((err) => console.warn("记忆提取失败:", err));
+  }
+}
+
+/**
+ * 异步提取对话中的关键信息并保存为长期记忆
+ * 不影响主对话流程，失败了也无所谓
+ */
+async function extractAndSaveMemory(
+  model: BaseChatModel,
+  userId: string,
+  sessionId: string,
+  userMessage: string,
+  aiReply: string
+) {
+  // 太短的对话不提取
+  if (userMessage.length < 10 && aiReply.length < 20) return;
+
+  try {
+    // 对话内容直接放进消息，不走提示词模板：里面的 { } 会被当成模板变量
+    const response = await model.invoke([
+      new SystemMessage(
+        `你是一个信息提取助手。从以下对话中提取值得长期记住的关键信息。
+只提取以下类型的信息：
+- 用户的个人偏好（喜欢/不喜欢什么）
+- 用户提到的个人事实（名字、职业、宠物、家庭等）
+- 重要的决定或计划
+- 用户的技术栈或工作相关信息
+
+如果没有值得记住的信息，回复 "NONE"。
+如果有，按以下格式回复（每条一行）：
+关键词|重要程度|记忆内容
+
+关键词用逗号分隔，重要程度为 high 或 normal。
+
+示例：
+川菜,美食,偏好|normal|用户喜欢吃川菜，特别是麻辣火锅
+猫,宠物,咪咪|high|用户养了一只叫咪咪的橘猫`
+      ),
+      new HumanMessage(`用户说: ${userMessage}\nAI回复: ${aiReply.slice(0, 500)}`),
+    ]);
+    const content =
+      typeof response.content === "string" ? response.content.trim() : "";
+
+    if (content === "NONE" || !content) return;
+
+    // 解析每一行记忆
+    const lines = content.split("\n").filter((l: string) => l.includes("|"));
+    for (const line of lines) {
+      const parts = line.split("|");
+      if (parts.length >= 3) {
+        const keywords = parts[0].trim();
+        const importance = parts[1].trim() === "high" ? "high" : "normal";
+        const memoryContent = parts[2].trim();
+        if (memoryContent.length > 5) {
+          await saveMemory(
+            userId,
+            sessionId,
+            memoryContent,
+            keywords,
+            importance,
+            (existing, incoming) => judgeMemoryConflict(model, existing, incoming)
+          );
+        }
+      }
+    }
+  } catch (error) {
+    console.warn("记忆提取出错:", error);
+  }
+}
+
+/**
+ * 让 AI 判断新旧两条记忆的关系（写入记忆前的去重 / 冲突整理）
+ * 例："用户住在北京" vs "用户搬到上海了" → supersede
+ */
+async function judgeMemoryConflict(
+  model: BaseChatModel,
+  existing: string,
+  incoming: string
+): Promise<MemoryConflictVerdict> {
+  // 记忆可能含 JSON、代码片段，同样不走提示词模板
+  const response = await model.invoke([
+    new SystemMessage(
+      `你是一个记忆整理助手。下面是关于同一个用户的一条旧记忆和一条新记忆，判断它们的关系，只回复一个词：
+- DUPLICATE：说的是同一件事，新记忆没有带来变化
+- SUPERSEDE：说的是同一件事，但信息变了或更新了（新的应该取代旧的）
+- DISTINCT：说的是不同的事情，应该都保留`
+    ),
+    new HumanMessage(`旧记忆: ${existing}\n新记忆: ${incoming}`),
+  ]);
+  const verdict =
+    typeof response.content === "string"
+      ? response.content.trim().toUpperCase()
+      : "";
+  if (verdict.startsWith("DUPLICATE")) return "duplicate";
+  if (verdict.startsWith("SUPERSEDE")) return "supersede";
+  return "distinct";
+}
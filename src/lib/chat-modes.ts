@@ -0,0 +1,436 @@
+import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { StructuredToolInterface, tool } from "@langchain/core/tools";
+import { BaseCheckpointSaver, Command } from "@langchain/langgraph";
+import { z } from "zod";
+import { ChatMode, ChatTurn, ContextSources, fallbackNoticeText } from "./chat-pipeline";
+import type { Message } from "./db";
+import {
+  createAgent,
+  INTERNAL_RUN_TAG,
+  MODEL_ID_METADATA_KEY,
+  ModelUnavailableError,
+  ResilientChatModel,
+} from "./graph";
+import {
+  createChatModel,
+  getFallbackChain,
+  getOpenAICompatibleEndpoint,
+  ModelConfig,
+  ModelParams,
+} from "./models";
+import {
+  createReasoningAgent,
+  REASONER_CONTENT_EVENT,
+  REASONER_THINKING_EVENT,
+  ReasonerDelta,
+} from "./reasoning-agent";
+import { getPendingApproval } from "./tool-approval";
+
+/**
+ * ========== 对话模式 ==========
+ *
+ * 每个模式只负责「怎么生成回复」，事件、停止、兜底、落库等公共流程在 chat-pipeline.ts：
+ *
+ *   - tools：ReAct Agent，模型自己决定调哪些工具（/api/chat 默认模式，也是 /api/v1/chat 和 /api/v1/chat/completions 用的模式）
+ *   - reasoning：推理模型规划、执行节点调用工具（见 reasoning-agent.ts）
+ *   - publish：发布文章快速通道，强制调用 article_draft 一次产出整篇草稿
+ *
+ * Agent 在第一次运行时创建：组上下文要经过 prePrompt 中间件，恢复暂停的运行时沿用同一个 Agent
+ */
+
+/** 会话里的一轮对话：历史、摘要、记忆按所用模型的 token 预算取舍 */
+export interface SessionConversation {
+  context: ContextSources;
+  /** 保存每一步的状态（见 checkpointer.ts）；挂了需要确认的工具时必须传 */
+  checkpoint?: {
+    saver: BaseCheckpointSaver;
+    threadId: string;
+    /** 从这个 thread 最后一个检查点继续，不重新发送对话消息 */
+    resume: boolean;
+  };
+  /** 挂了需要确认的工具：每段运行结束后检查图是不是停在确认上 */
+  needsApproval?: boolean;
+}
+
+/** 调用方自己维护历史（外部 API）：消息原样交给 Agent，不组上下文、不存检查点 */
+export interface StatelessConversation {
+  messages: BaseMessage[];
+}
+
+export interface ToolsModeOptions {
+  model: ModelConfig;
+  params: ModelParams;
+  temperature: number;
+  /** 人设提示（日期等由 prePrompt 中间件追加） */
+  systemPrompt: string;
+  tools: StructuredToolInterface[];
+  conversation: SessionConversation | StatelessConversation;
+}
+
+/** 预算内的历史链 + 当前用户消息 */
+function toInputMessages(history: Message[], userMessage: string): BaseMessage[] {
+  return [
+    ...history.map((msg) =>
+      msg.role === "user" ? new HumanMessage(msg.content) : new AIMessage(msg.content)
+    ),
+    new HumanMessage(userMessage),
+  ];
+}
+
+/** thread id 对应的 LangGraph 运行配置（没有检查点时为空） */
+function checkpointConfig(conversation: ToolsModeOptions["conversation"]) {
+  return "checkpoint" in conversation && conversation.checkpoint
+    ? { configurable: { thread_id: conversation.checkpoint.threadId } }
+    : {};
+}
+
+/** 工具模式：ReAct Agent + 工具，模型的思考链（reasoning_content）和回答都流式推出 */
+export function createToolsMode(options: ToolsModeOptions): ChatMode {
+  const { model, conversation } = options;
+  const runConfig = checkpointConfig(conversation);
+  let agent: ReturnType<typeof createAgent> | null = null;
+
+  return {
+    name: "tools",
+    model: model.id,
+
+    async run(turn, resume) {
+      let input: Parameters<ReturnType<typeof createAgent>["streamEvents"]>[0];
+      if (resume) {
+        if (!agent) throw new Error("没有可以恢复的运行");
+        input = new Command({ resume: resume.decision });
+      } else if ("context" in conversation) {
+        const expectToolResults = options.tools.length > 0;
+        const context = turn.buildPrompt({
+          model: model.id,
+          systemPrompt: options.systemPrompt,
+          ...conversation.context,
+          expectToolResults,
+        });
+        agent = createAgent(
+          context.systemPrompt,
+          options.temperature,
+          options.tools,
+          expectToolResults ? context.toolBudget : undefined,
+          { id: model.id, params: options.params },
+          conversation.checkpoint?.saver
+        );
+        input = conversation.checkpoint?.resume
+          ? null
+          : { messages: toInputMessages(context.history, conversation.context.userMessage) };
+      } else {
+        agent = createAgent(
+          turn.preparePrompt(options.systemPrompt),
+          options.temperature,
+          options.tools,
+          undefined,
+          { id: model.id, params: options.params }
+        );
+        input = { messages: conversation.messages };
+      }
+
+      const eventStream = agent.streamEvents(input, {
+        version: "v2",
+        signal: turn.signal,
+        ...runConfig,
+      });
+
+      for await (const event of eventStream) {
+        if (turn.aborted) break;
+        if (await turn.forward(event)) continue;
+
+        // ── LLM 流式输出 ──
+        // 子 Agent 内部的模型调用（多跳检索的拆解、判断、汇总）不算回复内容
+        if (event.event === "on_chat_model_stream" && !event.tags?.includes(INTERNAL_RUN_TAG)) {
+          const chunk = event.data?.chunk;
+          if (!chunk) continue;
+          // DeepSeek 思考链 (reasoning_content)
+          turn.think(
+            chunk.additional_kwargs?.reasoning_content || chunk.additional_kwargs?.reasoning || ""
+          );
+          // 正式回答内容
+          if (typeof chunk.content === "string") {
+            turn.write(chunk.content, event.metadata?.[MODEL_ID_METADATA_KEY]);
+          }
+        }
+
+        // ── LLM 回复结束（每轮） ──
+        if (event.event === "on_chat_model_end") {
+          turn.endThinking();
+        }
+      }
+
+      // ── 停在需要确认的工具调用上：交给管道推给前端，等 /api/chat/approve 恢复 ──
+      const needsApproval = "needsApproval" in conversation && conversation.needsApproval;
+      return needsApproval && !turn.aborted ? getPendingApproval(agent, runConfig) : null;
+    },
+
+    describeError: (error) =>
+      error instanceof ModelUnavailableError
+        ? "模型服务暂时不可用（已自动重试并尝试备用模型），请稍后再试"
+        : "生成出错",
+  };
+}
+
+export interface ReasoningModeOptions {
+  /** 推理模型（必须是 OpenAI 兼容接口） */
+  reasoningModel: ModelConfig;
+  /** 执行模型：推理模型给的工具参数不合法时由它按任务描述调用 */
+  executorModelId: string;
+  params: ModelParams;
+  systemPrompt: string;
+  tools: StructuredToolInterface[];
+  conversation: SessionConversation;
+}
+
+/** 推理模式：推理模型规划，工具由执行节点调用（不要求推理模型支持 function calling） */
+export function createReasoningMode(options: ReasoningModeOptions): ChatMode {
+  const { reasoningModel, conversation } = options;
+  const runConfig = checkpointConfig(conversation);
+  let agent: ReturnType<typeof createReasoningAgent> | null = null;
+
+  return {
+    name: "reasoning",
+    model: reasoningModel.id,
+
+    async run(turn, resume) {
+      if (!getOpenAICompatibleEndpoint(reasoningModel)) {
+        throw new Error(`推理模式需要 OpenAI 兼容接口的模型，当前配置为 ${reasoningModel.id}`);
+      }
+
+      let input: Parameters<ReturnType<typeof createReasoningAgent>["streamEvents"]>[0];
+      if (resume) {
+        if (!agent) throw new Error("没有可以恢复的运行");
+        input = new Command({ resume: resume.decision });
+      } else {
+        const context = turn.buildPrompt({
+          model: reasoningModel.id,
+          systemPrompt: options.systemPrompt,
+          ...conversation.context,
+          expectToolResults: options.tools.length > 0,
+        });
+        agent = createReasoningAgent({
+          systemPrompt: context.systemPrompt,
+          tools: options.tools,
+          reasoningModel,
+          executorModelId: options.executorModelId,
+          params: options.params,
+          toolBudget: context.toolBudget,
+          checkpointer: conversation.checkpoint?.saver,
+        });
+        input = conversation.checkpoint?.resume
+          ? null
+          : {
+              messages: [
+                ...context.history.map((msg) => ({
+                  role: msg.role as "user" | "assistant",
+                  content: msg.content,
+                })),
+                { role: "user" as const, content: conversation.context.userMessage },
+              ],
+            };
+      }
+
+      const eventStream = agent.streamEvents(input, {
+        version: "v2",
+        signal: turn.signal,
+        ...runConfig,
+      });
+
+      for await (const event of eventStream) {
+        if (turn.aborted) break;
+        if (await turn.forward(event)) continue;
+
+        if (event.event === "on_custom_event") {
+          const delta = event.data as ReasonerDelta;
+          // 推理过程
+          if (event.name === REASONER_THINKING_EVENT) turn.think(delta.content);
+          // 正式回答
+          if (event.name === REASONER_CONTENT_EVENT) turn.write(delta.content, delta.model);
+        }
+      }
+
+      return conversation.needsApproval && !turn.aborted
+        ? getPendingApproval(agent, runConfig)
+        : null;
+    },
+
+    describeError: (error) =>
+      `推理出错: ${error instanceof Error ? error.message : "未知错误"}`,
+  };
+}
+
+export interface PublishModeOptions {
+  /** 所选模型（调用方已确认支持工具调用） */
+  model: ModelConfig;
+  params: ModelParams;
+  temperature: number;
+  systemPrompt: string;
+  context: ContextSources;
+}
+
+const draftSchema = z.object({
+  title: z.string().describe("文章标题，简洁有吸引力，不超过 30 字"),
+  tags: z
+    .array(z.string())
+    .describe("3-5 个主题标签")
+    .default([]),
+  content: z
+    .string()
+    .describe(
+      "Markdown 正文。**目标长度 600~900 字**，结构：简短引言 + 2~3 个 ## 二级标题小节 + 简短总结。" +
+        "控制篇幅、抓重点，不要堆砌；保留代码块和列表。如果用户明确指定了字数/篇幅，则以用户要求为准。"
+    ),
+});
+
+const PUBLISH_TASK_PROMPT =
+  "\n\n[任务模式] 用户要求你撰写并发布一篇文章。请基于用户的诉求调用 article_draft 工具，" +
+  "把 title / tags / content（完整 Markdown 正文）作为参数传入。内容要精炼有信息量。";
+
+/**
+ * 从累积的 tool 参数 JSON 里提取当前 content 字段的可用明文
+ * （允许尾部被截断的转义序列，避免 JSON.parse 抛出）
+ */
+function extractContent(buf: string): string | null {
+  const m = buf.match(/"content"\s*:\s*"((?:\\.|[^"\\])*)/);
+  if (!m) return null;
+  let raw = m[1];
+  // 丢掉结尾未完成的反斜杠（比如只收到了 "\\"）
+  if (raw.endsWith("\\")) raw = raw.slice(0, -1);
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return null;
+  }
+}
+
+/** 流式生成草稿：边收参数边把正文推出去，收完发 publish_draft */
+async function streamDraft(turn: ChatTurn, options: PublishModeOptions): Promise<void> {
+  const { model, params, temperature, systemPrompt, context } = options;
+  const draftTool = tool(async () => "", {
+    name: "article_draft",
+    description: "生成一篇可直接发布的 Markdown 文章草稿",
+    schema: draftSchema,
+  });
+  // 调用方已确认模型支持工具，备用链也只保留支持工具的模型，bindTools 一定存在
+  // 主模型失败时重试 / 换备用模型（见 graph.ts 的容错层），换模型时推 notice
+  const draftModel = new ResilientChatModel(
+    getFallbackChain(model.id, { tools: true }).map((config) => ({
+      config,
+      runnable: createChatModel(config.id, {
+        ...params,
+        temperature,
+        maxTokens: params.maxTokens && Math.min(params.maxTokens, config.maxOutput),
+        streaming: true,
+        timeout: 90_000,
+        maxRetries: 0,
+      }).bindTools!([draftTool], {
+        tool_choice: "article_draft",
+      }),
+    })),
+    (notice) => {
+      turn.model = notice.to;
+      turn.emit({ type: "notice", content: fallbackNoticeText(notice) });
+    }
+  );
+
+  const built = turn.buildPrompt({
+    model: model.id,
+    systemPrompt: systemPrompt + PUBLISH_TASK_PROMPT,
+    ...context,
+  });
+  const draftMessages = [
+    { role: "system" as const, content: built.systemPrompt },
+    ...built.history.map((m) => ({
+      role: m.role as "user" | "assistant",
+      content: m.content,
+    })),
+    { role: "user" as const, content: context.userMessage },
+  ];
+
+  // 注意：这里**不要**预先发送任何 content 事件，
+  // 否则前端会立刻插入一个空 assistant 气泡、把全局「正在思考」shimmer 停掉，
+  // 而 DeepSeek 吐第一个 token 往往还要几秒，用户看到的就是一个空白气泡 + 一个空头像。
+  // 让全局 shimmer 一直挂着，直到真正有 content 到达。
+
+  const t0 = Date.now();
+  console.log("  → 开始流式调用 bindTools(article_draft)");
+
+  let argsBuffer = "";
+  let emittedContentLen = 0;
+
+  const stream = await draftModel.stream(draftMessages, { signal: turn.signal });
+  for await (const chunk of stream) {
+    if (turn.aborted) break;
+    const tcc = chunk.tool_call_chunks;
+    if (!tcc || tcc.length === 0) continue;
+    for (const tc of tcc) {
+      if (tc.args) argsBuffer += tc.args;
+    }
+    const currentContent = extractContent(argsBuffer);
+    if (currentContent !== null && currentContent.length > emittedContentLen) {
+      turn.write(currentContent.slice(emittedContentLen));
+      emittedContentLen = currentContent.length;
+    }
+  }
+
+  console.log("  ← 流式调用结束，耗时 ms:", Date.now() - t0, {
+    argsLen: argsBuffer.length,
+    emittedContentLen,
+  });
+  if (turn.aborted) return;
+
+  // 解析完整的 tool 参数 JSON
+  let draft: { title: string; tags?: string[]; content: string };
+  try {
+    draft = JSON.parse(argsBuffer);
+  } catch (e) {
+    throw new Error(`无法解析 article_draft JSON（${e instanceof Error ? e.message : e}）`);
+  }
+
+  // 如果流式阶段某些 content 残片没发出去（尾部补全），这里一次性补上
+  if (draft.content && draft.content.length > emittedContentLen) {
+    turn.write(draft.content.slice(emittedContentLen));
+  }
+
+  // 发 publish_draft 事件 —— 前端弹确认框
+  turn.emit({
+    type: "publish_draft",
+    title: draft.title,
+    tags: draft.tags || [],
+    content: draft.content,
+  });
+  console.log("  📤 publish_draft 事件已发出");
+}
+
+/**
+ * 发布文章快速通道
+ *
+ * DeepSeek 的 tool_choice=auto 在长输出场景下经常不触发工具，
+ * 导致用户说「写XX文章发布一下」AI 只说「好的」不弹窗。
+ * 检测到明确发布意图后，**绕过 ReAct agent**，
+ * 用流式 bindTools + 强制 tool_choice 产出 {title, tags, content}，
+ * 必然能发出 publish_draft 事件；一边接收 tool_call_chunks 一边把 content 字段推给前端，做到"边写边看"。
+ *
+ * DeepSeek 生成长 JSON 要 ~30s，期间可能没有任何事件，/api/chat 的连接靠 ChatRun.stream 的 keepalive 保活
+ */
+export function createPublishMode(options: PublishModeOptions): ChatMode {
+  return {
+    name: "publish",
+    model: options.model.id,
+
+    async run(turn) {
+      console.log("📝 发布文章快速通道启动", { userContent: options.context.userMessage });
+      try {
+        await streamDraft(turn, options);
+      } catch (err) {
+        if (turn.aborted) throw err;
+        // 错误提示当作回复保存：用户回到会话时能看到为什么没有弹出确认框
+        console.error("❌ 发布快速通道错误:", err);
+        turn.failed = true;
+        turn.reply = `生成草稿失败：${err instanceof Error ? err.message : "生成草稿失败"}`;
+        turn.emit({ type: "error", content: turn.reply });
+      }
+    },
+  };
+}
@@ -0,0 +1,305 @@
+import { StreamEvent } from "@langchain/core/tracers/log_stream";
+import { ChatEvent } from "./chat-protocol";
+import {
+  buildContext,
+  BuiltContext,
+  ContextInput,
+  ContextSection,
+  CONTEXT_TRIMMED_EVENT,
+} from "./context-builder";
+import { MODEL_FALLBACK_EVENT, ModelFallbackNotice } from "./graph";
+import { Citation } from "./rag";
+import { ApprovalDecision, ApprovalRequest } from "./tool-approval";
+
+/**
+ * ========== 对话管道 ==========
+ *
+ * 以前 /api/chat 的发布快速通道、推理模式、工具模式各复制了一遍事件发送、中止处理、
+ * 兜底回复和落库，/api/v1/chat 又把工具循环写了第四遍、事件名还不一样。现在拆成三块：
+ *
+ *   - 事件（ChatEvent，见 chat-protocol.ts）：两个接口共用一套带版本和序号的事件协议
+ *   - 模式（ChatMode，见 chat-modes.ts）：只管「怎么生成回复」——跑模型，把进度写进 ChatTurn
+ *   - 中间件（ChatMiddleware，见 chat-middleware.ts）：三个挂点
+ *       prePrompt  组上下文之前改系统提示（注入日期）
+ *       postTool   每个工具调用结束、推 tool_end 之前（收集引用、识别发布草稿、收集图片）
+ *       postReply  回复生成完、推 done 之前（追加图片、落库、生成标题、提取记忆）
+ *
+ * 其余的公共流程由管道负责：提示 → 运行模式 → 停止标记 / 兜底回复 → postReply → done，
+ * 以及停在工具确认上时的暂停、恢复和超时。新增一种模式只需要实现 ChatMode.run
+ */
+
+/** 各模式共用的上下文来源，由 buildContext 按所用模型的 token 预算取舍 */
+export type ContextSources = Pick<ContextInput, "userMessage" | "summary" | "memories" | "history">;
+
+/** 一次工具调用的结果，依次交给 postTool 中间件 */
+export interface ToolCallResult {
+  name: string;
+  input: unknown;
+  /** 工具的原始输出（ToolMessage 或字符串） */
+  output: unknown;
+  /** 输出的文本内容 */
+  text: string;
+  /** 结果里的来源（网页、文档），中间件可以补充，随 tool_end 推出去 */
+  sources: string[];
+}
+
+export interface ChatMiddleware {
+  name: string;
+  /** 组上下文之前改系统提示，按顺序串起来 */
+  prePrompt?(systemPrompt: string, turn: ChatTurn): string;
+  /** 工具调用结束、tool_end 推出去之前 */
+  postTool?(call: ToolCallResult, turn: ChatTurn): void | Promise<void>;
+  /**
+   * 回复生成完、done 推出去之前（停止、出错时也调用，停在工具确认上时等恢复后跑完再调用）
+   * 可以继续往回复里写内容；后面的中间件看到的是追加过的回复
+   */
+  postReply?(turn: ChatTurn): void | Promise<void>;
+}
+
+/** 暂停的运行由用户决定后继续：Agent 模式拿到的是决定，其余模式不会暂停 */
+export type ChatModeInput = { decision: ApprovalDecision } | null;
+
+export interface ChatMode {
+  /** 模式名（日志、用量记录用） */
+  name: string;
+  /** 默认记录的回答模型 id（备用模型接管时由 ChatTurn.write 更新） */
+  model: string;
+  /**
+   * 生成回复：内容、思考链、工具调用都通过 turn 推出去
+   * 停在需要确认的工具调用上时返回确认请求，管道推 approval_required 后等用户决定，
+   * 再带着决定调一次（resume 不为 null）
+   */
+  run(turn: ChatTurn, resume: ChatModeInput): Promise<ApprovalRequest | null | void>;
+  /** 出错时推给客户端的提示，不提供时用通用提示 */
+  describeError?(error: unknown): string;
+}
+
+/** 工具结果推给客户端时最多保留多少字 */
+const TOOL_RESULT_PREVIEW_LENGTH = 2000;
+
+const STOPPED_MARKER = "_[已停止]_";
+const EXPIRED_MARKER = "_[等待确认超时，已停止]_";
+
+/** 一轮对话的状态：模式和中间件通过它推事件、写回复 */
+export class ChatTurn {
+  /** 最终回复（落库的内容） */
+  reply = "";
+  /** 实际生成回复的模型 id（备用模型接管时和所选模型不同） */
+  model: string;
+  /** 生成过程中出错（回复可能只是错误提示） */
+  failed = false;
+  /** 本轮知识库检索到的段落，按引用 id 去重（停在工具确认上时跨多次运行累积） */
+  readonly citations = new Map<string, Citation>();
+  /** 最近一次组好的上下文（工具结果被截断时在它的报告上追加一段） */
+  context: BuiltContext | null = null;
+  private thinking = false;
+  private expired = false;
+
+  constructor(
+    readonly mode: string,
+    model: string,
+    readonly signal: AbortSignal,
+    private readonly sink: (event: ChatEvent) => void,
+    private readonly middleware: ChatMiddleware[]
+  ) {
+    this.model = model;
+  }
+
+  /** 用户停止，或等待确认超时 */
+  get aborted(): boolean {
+    return this.expired || this.signal.aborted;
+  }
+
+  emit(event: ChatEvent): void {
+    this.sink(event);
+  }
+
+  /** 追加回复内容（model 是实际输出这段内容的模型） */
+  write(content: string, model?: string): void {
+    if (!content) return;
+    this.endThinking();
+    this.reply += content;
+    if (model) this.model = model;
+    this.emit({ type: "content", content });
+  }
+
+  /** 推一段思考链 */
+  think(content: string): void {
+    if (!content) return;
+    this.thinking = true;
+    this.emit({ type: "thinking", content });
+  }
+
+  /** 思考链结束（有思考链时才推 thinking_end） */
+  endThinking(): void {
+    if (!this.thinking) return;
+    this.thinking = false;
+    this.emit({ type: "thinking_end" });
+  }
+
+  /** 跑 prePrompt 中间件，再按模型预算组上下文，把上下文报告推给客户端 */
+  buildPrompt(input: ContextInput): BuiltContext {
+    this.context = buildContext({ ...input, systemPrompt: this.preparePrompt(input.systemPrompt) });
+    this.emit({ type: "context", ...this.context.report });
+    return this.context;
+  }
+
+  /** 只跑 prePrompt 中间件（调用方自己管理历史、不按预算组上下文时用） */
+  preparePrompt(systemPrompt: string): string {
+    return this.middleware.reduce(
+      (prompt, m) => (m.prePrompt ? m.prePrompt(prompt, this) : prompt),
+      systemPrompt
+    );
+  }
+
+  toolStart(name: string, input: unknown): void {
+    this.endThinking();
+    this.emit({ type: "tool_start", name, input: input || {} });
+    console.log(`🔧 [${this.mode}] 调用工具: ${name}`, input);
+  }
+
+  /** 工具调用结束：依次交给 postTool 中间件，再推 tool_end */
+  async toolEnd(name: string, input: unknown, output: unknown): Promise<void> {
+    const content = (output as { content?: unknown } | undefined)?.content;
+    const text = content ? String(content) : String(output);
+    console.log(`📋 [${this.mode}] 工具结果: ${text.slice(0, 300)}...`);
+
+    const call: ToolCallResult = { name, input, output, text, sources: [] };
+    for (const m of this.middleware) {
+      await m.postTool?.(call, this);
+    }
+    this.emit({
+      type: "tool_end",
+      name,
+      result: text.slice(0, TOOL_RESULT_PREVIEW_LENGTH),
+      ...(call.sources.length > 0 ? { sources: call.sources } : {}),
+    });
+  }
+
+  /**
+   * 转发 Agent（LangGraph streamEvents）里各模式共有的事件：工具调用、备用模型接管、工具结果截断
+   * 返回 false 表示这个事件要模式自己处理（模型输出的内容、思考链）
+   */
+  async forward(event: StreamEvent): Promise<boolean> {
+    if (event.event === "on_tool_start") {
+      this.toolStart(event.name, event.data?.input);
+      return true;
+    }
+    if (event.event === "on_tool_end") {
+      await this.toolEnd(event.name, event.data?.input, event.data?.output);
+      return true;
+    }
+    if (event.event === "on_custom_event" && event.name === MODEL_FALLBACK_EVENT) {
+      this.emit({ type: "notice", content: fallbackNoticeText(event.data as ModelFallbackNotice) });
+      return true;
+    }
+    if (event.event === "on_custom_event" && event.name === CONTEXT_TRIMMED_EVENT) {
+      // 调试用：工具结果超出 token 预算被截断
+      if (this.context) {
+        const { report } = this.context;
+        this.emit({
+          type: "context",
+          ...report,
+          sections: [...report.sections, event.data as ContextSection],
+        });
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /** 回复收尾：停止标记、兜底回复，再依次跑 postReply 中间件 */
+  async finish(): Promise<void> {
+    this.endThinking();
+    if (this.aborted && this.reply) {
+      this.write(`\n\n${this.expired ? EXPIRED_MARKER : STOPPED_MARKER}`);
+    } else if (!this.reply && !this.failed) {
+      this.write(this.expired ? EXPIRED_MARKER : this.aborted ? STOPPED_MARKER : "[AI 未生成回复]");
+    }
+    for (const m of this.middleware) {
+      try {
+        await m.postReply?.(this);
+      } catch (err) {
+        console.warn(`postReply 中间件 ${m.name} 失败:`, err);
+      }
+    }
+  }
+
+  /** 等待确认超时：按停止处理 */
+  expire(): void {
+    this.expired = true;
+  }
+}
+
+/** 备用模型接管时推给客户端的提示 */
+export function fallbackNoticeText(notice: ModelFallbackNotice): string {
+  return `${notice.from} 暂时不可用（${notice.reason}），本轮改由 ${notice.label} 回答`;
+}
+
+export interface ChatPipelineOptions {
+  mode: ChatMode;
+  /** 事件出口：/api/chat 记进运行的事件日志，/api/v1/chat 直接编成帧写响应 */
+  emit: (event: ChatEvent) => void;
+  /** 中止信号（用户停止） */
+  signal: AbortSignal;
+  middleware?: ChatMiddleware[];
+  /** 开始前推给客户端的提示（所选模型不可用、不支持工具等） */
+  notices?: string[];
+  /** 停在工具确认上时用来标识这次运行（approval_required 事件带给客户端） */
+  runId?: string;
+}
+
+export interface ChatPipeline {
+  turn: ChatTurn;
+  /**
+   * 开始这一轮：返回 null 表示这一轮已经收尾（done 已推出），
+   * 返回确认请求表示停在需要确认的工具调用上，等 resume
+   */
+  start(): Promise<ApprovalRequest | null>;
+  /** 带着用户的决定继续停在确认上的运行，返回值同 start */
+  resume(decision: ApprovalDecision): Promise<ApprovalRequest | null>;
+  /** 等待确认超时：给回复加上停止标记并收尾（客户端早已收到 done，不再推 done） */
+  expire(): Promise<void>;
+}
+
+/** 按模式和中间件组装一轮对话 */
+export function createChatPipeline(options: ChatPipelineOptions): ChatPipeline {
+  const { mode, signal } = options;
+  const turn = new ChatTurn(mode.name, mode.model, signal, options.emit, options.middleware ?? []);
+
+  const step = async (input: ChatModeInput): Promise<ApprovalRequest | null> => {
+    try {
+      const approval = await mode.run(turn, input);
+      if (approval && !turn.aborted) {
+        turn.endThinking();
+        turn.emit({ type: "approval_required", runId: options.runId ?? "", ...approval });
+        turn.emit({ type: "done" });
+        console.log(`⏸️ 等待确认工具调用: ${approval.tool}（运行 ${options.runId}）`);
+        return approval;
+      }
+    } catch (err) {
+      // 停止后的报错是取消本身引起的，不当作错误
+      if (!turn.aborted) {
+        turn.failed = true;
+        console.error(`❌ ${mode.name} 模式出错:`, err);
+        turn.emit({ type: "error", content: mode.describeError?.(err) ?? "生成出错" });
+      }
+    }
+    await turn.finish();
+    turn.emit({ type: "done" });
+    return null;
+  };
+
+  return {
+    turn,
+    start: () => {
+      for (const notice of options.notices ?? []) turn.emit({ type: "notice", content: notice });
+      return step(null);
+    },
+    resume: (decision) => step({ decision }),
+    expire: async () => {
+      turn.expire();
+      await turn.finish();
+    },
+  };
+}
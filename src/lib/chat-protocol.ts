@@ -0,0 +1,134 @@
+import { z } from "zod";
+
+/**
+ * ========== 对话事件协议 ==========
+ *
+ * /api/chat（以及 resume、approve）和 /api/v1/chat 推的 SSE 都是这一套事件：
+ *
+ *   id: 3
+ *   data: {"v":1,"seq":3,"type":"content","content":"你好"}
+ *
+ * - v：协议版本。同一版本内只会新增事件类型和可选字段，客户端跳过不认识的事件；
+ *      删改字段等不兼容的改动才升版本，客户端遇到不认识的版本直接报错
+ * - seq：事件在这一轮运行里的序号，从 0 开始连续递增。重放时序号不变，
+ *        /api/chat/resume 可以用 Last-Event-ID 或 ?after= 只取之后的事件
+ * - type 和其余字段见下面的 chatEventSchema
+ *
+ * 这个文件和 chat-client.ts 只依赖 zod，前端页面和外部项目（如 ink-and-code）都可以直接用
+ */
+
+export const CHAT_PROTOCOL_VERSION = 1;
+
+const contextSectionSchema = z.object({
+  name: z.enum(["system", "user", "summary", "memories", "history", "reference", "tool_results"]),
+  tokens: z.number(),
+  included: z.number(),
+  total: z.number(),
+  trimmed: z.boolean(),
+});
+
+const citationSchema = z.object({
+  id: z.string(),
+  chunkId: z.number(),
+  documentId: z.string(),
+  knowledgeBaseId: z.string(),
+  title: z.string(),
+  source: z.string(),
+  offset: z.number(),
+  headingPath: z.array(z.string()),
+  page: z.number().nullable(),
+  score: z.number(),
+  method: z.string(),
+  content: z.string(),
+});
+
+export const chatEventSchema = z.discriminatedUnion("type", [
+  /** 本轮上下文各部分用了多少 token、裁掉了什么（调试用） */
+  z.object({
+    type: z.literal("context"),
+    model: z.string(),
+    budget: z.number(),
+    used: z.number(),
+    toolBudget: z.number(),
+    sections: z.array(contextSectionSchema),
+  }),
+  /** 显示在回复上的提示（换了模型、不支持工具等） */
+  z.object({ type: z.literal("notice"), content: z.string() }),
+  z.object({ type: z.literal("thinking"), content: z.string() }),
+  z.object({ type: z.literal("thinking_end") }),
+  z.object({ type: z.literal("tool_start"), name: z.string(), input: z.unknown() }),
+  z.object({
+    type: z.literal("tool_end"),
+    name: z.string(),
+    /** 工具结果（最多 2000 字） */
+    result: z.string(),
+    /** 结果里的来源（只有 /api/v1/chat 提取） */
+    sources: z.array(z.string()).optional(),
+  }),
+  /** 本轮检索到的知识库段落（累积的完整列表），用来渲染回答里的脚注 */
+  z.object({ type: z.literal("citations"), citations: z.array(citationSchema) }),
+  z.object({ type: z.literal("content"), content: z.string() }),
+  /** 文章草稿，前端弹确认框 */
+  z.object({
+    type: z.literal("publish_draft"),
+    title: z.string(),
+    tags: z.array(z.string()),
+    content: z.string(),
+  }),
+  /** 停在需要确认的工具调用上，用 runId 调 /api/chat/approve 恢复 */
+  z.object({
+    type: z.literal("approval_required"),
+    runId: z.string(),
+    tool: z.string(),
+    args: z.record(z.string(), z.unknown()),
+    toolCallId: z.string().optional(),
+    mcpServerId: z.string().optional(),
+    mcpToolName: z.string().optional(),
+  }),
+  z.object({ type: z.literal("error"), content: z.string() }),
+  /** 这一段输出结束（停在工具确认上时也会推） */
+  z.object({ type: z.literal("done") }),
+]);
+
+export type ChatEvent = z.infer<typeof chatEventSchema>;
+export type ChatEventType = ChatEvent["type"];
+
+/** 线上传输的一帧：事件加上协议版本和序号 */
+export type ChatFrame = ChatEvent & { v: number; seq: number };
+
+const frameHeaderSchema = z.object({
+  v: z.number().int(),
+  seq: z.number().int().nonnegative(),
+  type: z.string(),
+});
+
+const KNOWN_EVENT_TYPES = new Set<string>(chatEventSchema.options.map((o) => o.shape.type.value));
+
+export class ChatProtocolError extends Error {}
+
+/** 事件编成 SSE 帧（id 行是序号，浏览器的 EventSource 断线重连时会带上 Last-Event-ID） */
+export function encodeChatFrame(frame: ChatFrame): string {
+  return `id: ${frame.seq}\ndata: ${JSON.stringify(frame)}\n\n`;
+}
+
+/**
+ * 校验一帧的 JSON：不认识的事件类型返回 null（同一版本内新增的事件，旧客户端跳过）；
+ * 版本不对或字段不合法抛 ChatProtocolError
+ */
+export function parseChatFrame(data: unknown): ChatFrame | null {
+  const header = frameHeaderSchema.safeParse(data);
+  if (!header.success) {
+    throw new ChatProtocolError(`事件缺少 v / seq / type：${JSON.stringify(data)}`);
+  }
+  const { v, seq, type } = header.data;
+  if (v !== CHAT_PROTOCOL_VERSION) {
+    throw new ChatProtocolError(`不支持的事件协议版本 ${v}（客户端支持 ${CHAT_PROTOCOL_VERSION}）`);
+  }
+  if (!KNOWN_EVENT_TYPES.has(type)) return null;
+
+  const event = chatEventSchema.safeParse(data);
+  if (!event.success) {
+    throw new ChatProtocolError(`${type} 事件格式不对：${event.error.message}`);
+  }
+  return { ...event.data, v, seq };
+}
@@ -0,0 +1,179 @@
+/**
+ * ========== 后台运行的对话 ==========
+ *
+ * 以前 SSE 响应就是运行本身：客户端一断开（关掉标签页、刷新、网络抖动）生成就被中止，
+ * 回复停在半截加一个「已停止」。现在 /api/chat 的每轮运行登记在这里，和 HTTP 连接完全分开：
+ *
+ *   - 运行在服务端一直跑到结束，回复照常保存，没有客户端在看也一样
+ *   - 运行发出的每个事件都记进事件日志，HTTP 响应只是日志的一个订阅者
+ *   - 客户端重新连上时 GET /api/chat/resume 先重放已经发出的事件，再接着推新事件
+ *   - 只有用户明确停止（POST /api/chat/stop）才会中止
+ *
+ * 事件日志只在进程内；Agent 的状态另外存在 Postgres 检查点里（见 checkpointer.ts），
+ * 服务重启后事件日志没了，但运行可以从最后一个检查点继续
+ */
+
+import { CHAT_PROTOCOL_VERSION, ChatEvent, ChatFrame, encodeChatFrame } from "./chat-protocol";
+
+/** 订阅期间多久发一次 SSE 注释行：长时间没有事件（等模型首个 token、长工具调用）时让连接不被中间层掐断 */
+const KEEPALIVE_INTERVAL_MS = 5_000;
+
+/** 运行结束后事件日志保留多久（刚好在结束时重连的客户端还能拿到完整输出） */
+const FINISHED_RUN_TTL_MS = 60_000;
+
+/** 订阅者收到 null 表示这一段输出结束，关闭流 */
+type Listener = (frame: ChatFrame | null) => void;
+
+export class ChatRun {
+  /** 事件日志：下标就是帧的 seq */
+  readonly events: ChatFrame[] = [];
+  private readonly controller = new AbortController();
+  private readonly listeners = new Set<Listener>();
+  // 正在输出；停在工具确认上或运行结束时为 false，新订阅者重放完就关闭
+  private streaming = true;
+
+  constructor(
+    readonly id: string,
+    readonly userId: string,
+    readonly sessionId: string
+  ) {}
+
+  /** 运行的中止信号：只有用户停止时触发 */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** 还在生成（停在工具确认上或已经结束时为 false） */
+  get generating(): boolean {
+    return this.streaming;
+  }
+
+  emit(event: ChatEvent): void {
+    const frame: ChatFrame = { v: CHAT_PROTOCOL_VERSION, seq: this.events.length, ...event };
+    this.events.push(frame);
+    for (const listener of this.listeners) listener(frame);
+  }
+
+  /** 开始新的一段输出（第一次运行，或工具确认后恢复） */
+  begin(): void {
+    this.streaming = true;
+  }
+
+  /** 这一段输出结束：关闭所有订阅者的流 */
+  end(): void {
+    this.streaming = false;
+    for (const listener of this.listeners) listener(null);
+    this.listeners.clear();
+  }
+
+  stop(): void {
+    this.controller.abort();
+  }
+
+  /**
+   * 订阅成 SSE 流：先重放 from 之后已经发出的事件，再接着推新事件，这一段结束时关闭
+   * signal 是这个 HTTP 请求的断开信号，断开只是取消订阅，运行继续
+   */
+  stream(signal: AbortSignal, from = 0): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let detach = () => {};
+
+    return new ReadableStream({
+      start: (controller) => {
+        const send = (frame: ChatFrame) => {
+          try {
+            controller.enqueue(encoder.encode(encodeChatFrame(frame)));
+          } catch {
+            /* controller 已关闭 */
+          }
+        };
+        const close = () => {
+          detach();
+          try { controller.close(); } catch { /* already closed */ }
+        };
+
+        for (const frame of this.events.slice(from)) send(frame);
+        if (!this.streaming || signal.aborted) {
+          close();
+          return;
+        }
+
+        const listener: Listener = (frame) => (frame ? send(frame) : close());
+        const keepalive = setInterval(() => {
+          try {
+            controller.enqueue(encoder.encode(`: keepalive\n\n`));
+          } catch {
+            /* controller 已关闭 */
+          }
+        }, KEEPALIVE_INTERVAL_MS);
+        this.listeners.add(listener);
+        detach = () => {
+          clearInterval(keepalive);
+          signal.removeEventListener("abort", detach);
+          this.listeners.delete(listener);
+        };
+        signal.addEventListener("abort", detach);
+      },
+      cancel: () => detach(),
+    });
+  }
+}
+
+// sessionId → 这个会话最近一轮运行（进程内）
+const runs = new Map<string, ChatRun>();
+// 已经占住、还在准备（插入用户消息、组上下文）没有登记运行的会话
+const claims = new Map<string, ChatRunClaim>();
+
+/** claimChatRun 占住的会话 */
+export interface ChatRunClaim {
+  sessionId: string;
+}
+
+/**
+ * 占住会话准备开始新的一轮：这个会话还有一轮在生成或正在准备时返回 null。
+ * 同一会话同时跑两轮会把两条回复落进同一条链，还会共用同一个检查点 thread。
+ * 占住之后 startChatRun 登记运行，没开始就返回时 releaseChatRun
+ */
+export function claimChatRun(sessionId: string): ChatRunClaim | null {
+  if (claims.has(sessionId) || runs.get(sessionId)?.generating) return null;
+  const claim = { sessionId };
+  claims.set(sessionId, claim);
+  return claim;
+}
+
+/** 放弃占住的会话（已经 startChatRun 的不受影响） */
+export function releaseChatRun(claim: ChatRunClaim): void {
+  if (claims.get(claim.sessionId) === claim) claims.delete(claim.sessionId);
+}
+
+/** 登记新的一轮运行（调用方已经 claimChatRun 占住会话） */
+export function startChatRun(id: string, userId: string, sessionId: string): ChatRun {
+  const run = new ChatRun(id, userId, sessionId);
+  runs.set(sessionId, run);
+  claims.delete(sessionId);
+  return run;
+}
+
+/** 运行结束：关闭订阅者，事件日志保留 FINISHED_RUN_TTL_MS 后移除 */
+export function finishChatRun(run: ChatRun): void {
+  run.end();
+  const timer = setTimeout(() => {
+    if (runs.get(run.sessionId) === run) runs.delete(run.sessionId);
+  }, FINISHED_RUN_TTL_MS);
+  timer.unref?.();
+}
+
+/** 当前用户正在后台生成回复的会话（会话列表上标「生成中」） */
+export function getGeneratingSessionIds(userId: string): Set<string> {
+  const ids = new Set<string>();
+  for (const run of runs.values()) {
+    if (run.userId === userId && run.generating) ids.add(run.sessionId);
+  }
+  return ids;
+}
+
+/** 当前用户在这个会话里最近一轮运行，没有或不属于该用户返回 null */
+export function getChatRun(sessionId: string, userId: string): ChatRun | null {
+  const run = runs.get(sessionId);
+  return run && run.userId === userId ? run : null;
+}
@@ -0,0 +1,281 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointMetadata,
+  CheckpointTuple,
+  copyCheckpoint,
+} from "@langchain/langgraph";
+import { getPool } from "./pg";
+
+/**
+ * ========== Agent 检查点（Postgres）==========
+ *
+ * LangGraph 每执行完一步，就把图的状态（消息、工具结果、待执行的任务）交给 checkpointer 保存。
+ * 以前只有需要工具确认时才挂进程内的 MemorySaver，客户端断开或服务重启，
+ * 进行到一半的运行和已经拿到的工具结果都没了。
+ *
+ * 现在工具模式和推理模式的 Agent 都存进 Postgres，thread id 由会话 + 用户消息组成（chatThreadId）：
+ *   - 同一条用户消息的运行可以从最后一个检查点继续（服务重启后前端带 continueRun 重新请求）
+ *   - 这一轮收尾（回复已保存）后删除；重新生成时也先清掉上次的，从头开始
+ *
+ * 两张表对应 LangGraph 的 checkpoint 和 pending writes，内容用 serde 序列化后存 BYTEA
+ */
+
+type PutWrites = BaseCheckpointSaver["putWrites"];
+type ListOptions = Parameters<BaseCheckpointSaver["list"]>[1];
+
+// 特殊通道的写入用固定的负数下标（和 @langchain/langgraph-checkpoint 的 WRITES_IDX_MAP 一致），
+// 同一任务重复写入时覆盖；普通写入按顺序编号，已经存在的不覆盖
+const SPECIAL_WRITE_IDX: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4,
+};
+
+let tableInitialized = false;
+
+async function ensureCheckpointTables() {
+  if (tableInitialized) return;
+
+  const pool = getPool();
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS chat_checkpoints (
+      thread_id TEXT NOT NULL,
+      checkpoint_ns TEXT NOT NULL DEFAULT '',
+      checkpoint_id TEXT NOT NULL,
+      parent_checkpoint_id TEXT,
+      checkpoint_type TEXT NOT NULL,
+      checkpoint BYTEA NOT NULL,
+      metadata_type TEXT NOT NULL,
+      metadata BYTEA NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS chat_checkpoint_writes (
+      thread_id TEXT NOT NULL,
+      checkpoint_ns TEXT NOT NULL DEFAULT '',
+      checkpoint_id TEXT NOT NULL,
+      task_id TEXT NOT NULL,
+      idx INTEGER NOT NULL,
+      channel TEXT NOT NULL,
+      value_type TEXT NOT NULL,
+      value BYTEA NOT NULL,
+      PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+    );
+  `);
+
+  tableInitialized = true;
+}
+
+interface CheckpointRow {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  checkpoint_type: string;
+  checkpoint: Buffer;
+  metadata_type: string;
+  metadata: Buffer;
+}
+
+/** 存在 Postgres 里的 checkpointer，用共享连接池 */
+export class PostgresCheckpointSaver extends BaseCheckpointSaver {
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    await ensureCheckpointTables();
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (!threadId) return undefined;
+
+    // 没指定 checkpoint_id 时取这个 thread 最新的一个（id 是 uuid6，按字典序就是时间顺序）
+    const { rows } = await getPool().query<CheckpointRow>(
+      checkpointId
+        ? `SELECT * FROM chat_checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3`
+        : `SELECT * FROM chat_checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = $2
+           ORDER BY checkpoint_id DESC LIMIT 1`,
+      checkpointId ? [threadId, checkpointNs, checkpointId] : [threadId, checkpointNs]
+    );
+    return rows[0] ? this.toTuple(rows[0]) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: ListOptions): AsyncGenerator<CheckpointTuple> {
+    await ensureCheckpointTables();
+    const { before, limit, filter } = options ?? {};
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const where = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace("?", `$${params.length}`));
+    };
+    if (config.configurable?.thread_id) where("thread_id = ?", config.configurable.thread_id);
+    if (config.configurable?.checkpoint_ns !== undefined) where("checkpoint_ns = ?", config.configurable.checkpoint_ns);
+    if (config.configurable?.checkpoint_id) where("checkpoint_id = ?", config.configurable.checkpoint_id);
+    if (before?.configurable?.checkpoint_id) where("checkpoint_id < ?", before.configurable.checkpoint_id);
+
+    const { rows } = await getPool().query<CheckpointRow>(
+      `SELECT * FROM chat_checkpoints
+       ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+       ORDER BY checkpoint_id DESC`,
+      params
+    );
+
+    // metadata 过滤要先反序列化，limit 在过滤之后算
+    let remaining = limit;
+    for (const row of rows) {
+      if (remaining !== undefined && remaining <= 0) break;
+      const tuple = await this.toTuple(row);
+      const metadata = (tuple.metadata ?? {}) as Record<string, unknown>;
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata[key] === value)) continue;
+      if (remaining !== undefined) remaining -= 1;
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    await ensureCheckpointTables();
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (!threadId) {
+      throw new Error("保存检查点失败：config.configurable 里缺少 thread_id");
+    }
+
+    const [[checkpointType, serializedCheckpoint], [metadataType, serializedMetadata]] =
+      await Promise.all([
+        this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+        this.serde.dumpsTyped(metadata),
+      ]);
+    await getPool().query(
+      `INSERT INTO chat_checkpoints
+         (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id,
+          checkpoint_type, checkpoint, metadata_type, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id) DO UPDATE SET
+         checkpoint_type = EXCLUDED.checkpoint_type,
+         checkpoint = EXCLUDED.checkpoint,
+         metadata_type = EXCLUDED.metadata_type,
+         metadata = EXCLUDED.metadata`,
+      [
+        threadId,
+        checkpointNs,
+        checkpoint.id,
+        config.configurable?.checkpoint_id ?? null,
+        checkpointType,
+        Buffer.from(serializedCheckpoint),
+        metadataType,
+        Buffer.from(serializedMetadata),
+      ]
+    );
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: Parameters<PutWrites>[1],
+    taskId: string
+  ): Promise<void> {
+    await ensureCheckpointTables();
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (!threadId || !checkpointId) {
+      throw new Error("保存中间结果失败：config.configurable 里缺少 thread_id 或 checkpoint_id");
+    }
+
+    const pool = getPool();
+    for (const [index, [channel, value]] of writes.entries()) {
+      const idx = SPECIAL_WRITE_IDX[channel] ?? index;
+      const [valueType, serializedValue] = await this.serde.dumpsTyped(value);
+      await pool.query(
+        `INSERT INTO chat_checkpoint_writes
+           (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, value_type, value)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id, task_id, idx) DO ${
+           idx < 0
+             ? "UPDATE SET channel = EXCLUDED.channel, value_type = EXCLUDED.value_type, value = EXCLUDED.value"
+             : "NOTHING"
+         }`,
+        [threadId, checkpointNs, checkpointId, taskId, idx, channel, valueType, Buffer.from(serializedValue)]
+      );
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await ensureCheckpointTables();
+    const pool = getPool();
+    await pool.query("DELETE FROM chat_checkpoint_writes WHERE thread_id = $1", [threadId]);
+    await pool.query("DELETE FROM chat_checkpoints WHERE thread_id = $1", [threadId]);
+  }
+
+  /** 数据库行 → CheckpointTuple（带上这个检查点的 pending writes） */
+  private async toTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const { rows: writes } = await getPool().query(
+      `SELECT task_id, channel, value_type, value FROM chat_checkpoint_writes
+       WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+       ORDER BY task_id, idx`,
+      [row.thread_id, row.checkpoint_ns, row.checkpoint_id]
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.checkpoint_type, row.checkpoint),
+      metadata: await this.serde.loadsTyped(row.metadata_type, row.metadata),
+      pendingWrites: await Promise.all(
+        writes.map(async (w) => [
+          w.task_id,
+          w.channel,
+          await this.serde.loadsTyped(w.value_type, w.value),
+        ] as [string, string, unknown])
+      ),
+    };
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      };
+    }
+    return tuple;
+  }
+}
+
+let checkpointer: PostgresCheckpointSaver | null = null;
+
+/** 整个应用共用一个 checkpointer（不同的运行靠 thread id 区分） */
+export function getCheckpointer(): PostgresCheckpointSaver {
+  checkpointer ??= new PostgresCheckpointSaver();
+  return checkpointer;
+}
+
+/** 一轮对话的 thread id：会话 + 触发这一轮的用户消息（同一条消息重新生成时复用，开始前先清空） */
+export function chatThreadId(sessionId: string, userMessageId: number): string {
+  return `${sessionId}:${userMessageId}`;
+}
+
+/** 这一轮是不是有没跑完的检查点（服务重启或进程崩溃留下的，正常收尾时会删掉） */
+export async function hasCheckpoint(threadId: string): Promise<boolean> {
+  return (await getCheckpointer().getTuple({ configurable: { thread_id: threadId } })) !== undefined;
+}
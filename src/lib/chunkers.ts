@@ -0,0 +1,337 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+
+/**
+ * ========== 文档切分（按文档类型选择切分器） ==========
+ *
+ * 一刀切的「每 300 字切一块」会把「二、请假制度」下面的一条规定从中间切断，
+ * 检索到的文本块既不完整也不知道属于哪一章。这里按文档类型换切分方式：
+ *
+ * - Markdown：按标题分节，节太长再细分；每块带上「一级标题 › 二级标题」路径
+ * - 纯文本：识别「一、」「第一章」「第三条」「1.」这类编号的制度文本，
+ *   按条款整条成块（同一节的相邻条款合并到不超过 chunkSize），不会把一条规定切成两半；
+ *   没有编号结构的普通文本退回按字数切分
+ * - 表格（Excel / CSV）：按行分组，每块都重复表头，带上工作表名
+ * - PDF：按页切，每块记录页码（页内再按条款 / 字数切）
+ *
+ * 切分器可插拔：registerChunker(".docx", myChunker) 给新的文件类型注册切分方式
+ */
+
+export interface DocumentChunk {
+  content: string;
+  /** 在原文中的起始字符位置 */
+  offset: number;
+  /** 所在章节的标题路径，例如 ["星辰科技有限公司 员工手册", "二、请假制度"] */
+  headingPath: string[];
+  /** PDF 页码（从 1 开始），其他类型为 null */
+  page: number | null;
+}
+
+export interface ChunkerOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export type Chunker = (content: string, options: ChunkerOptions) => Promise<DocumentChunk[]>;
+
+// ========================================
+// 通用：按字数切分（保留原来的 RecursiveCharacterTextSplitter）
+// ========================================
+
+/** 按字数切分一段文本，offset 相对整篇原文（base 是这段文本的起点） */
+async function splitBySize(
+  text: string,
+  base: number,
+  options: ChunkerOptions,
+  headingPath: string[] = [],
+  page: number | null = null
+): Promise<DocumentChunk[]> {
+  const splitter = new RecursiveCharacterTextSplitter(options);
+  const pieces = await splitter.splitText(text);
+
+  // 文本块有重叠，按顺序从上一块的起点往后找
+  let cursor = 0;
+  return pieces.map((piece) => {
+    const found = text.indexOf(piece, cursor);
+    const at = found < 0 ? cursor : found;
+    if (found >= 0) cursor = found + 1;
+    return { content: piece, offset: base + at, headingPath, page };
+  });
+}
+
+export const recursiveChunker: Chunker = (content, options) => splitBySize(content, 0, options);
+
+/** 带起点的一行 */
+interface Line {
+  text: string;
+  start: number;
+}
+
+function toLines(content: string, base: number = 0): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of content.split("\n")) {
+    lines.push({ text, start: base + start });
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+// ========================================
+// Markdown：按标题分节
+// ========================================
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+export const markdownChunker: Chunker = async (content, options) => {
+  const sections: { path: string[]; start: number; end: number }[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let sectionStart = 0;
+  let inFence = false;
+
+  const close = (end: number) => {
+    if (content.slice(sectionStart, end).trim()) {
+      sections.push({ path: stack.map((h) => h.title), start: sectionStart, end });
+    }
+  };
+
+  for (const line of toLines(content)) {
+    if (/^\s*(```|~~~)/.test(line.text)) inFence = !inFence;
+    const match = !inFence && line.text.match(MARKDOWN_HEADING);
+    if (!match) continue;
+
+    close(line.start);
+    const level = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    stack.push({ level, title: match[2] });
+    sectionStart = line.start;
+  }
+  close(content.length);
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    const text = content.slice(section.start, section.end).trimEnd();
+    if (text.length <= options.chunkSize) {
+      chunks.push({ content: text, offset: section.start, headingPath: section.path, page: null });
+    } else {
+      chunks.push(...(await splitBySize(text, section.start, options, section.path)));
+    }
+  }
+  return chunks;
+};
+
+// ========================================
+// 编号制度文本：按条款切分
+// ========================================
+
+/** 文档标题：【星辰科技有限公司 员工手册】 */
+const DOC_TITLE = /^\s*【(.+)】\s*$/;
+/** 章节标题：一、考勤制度 / 第一章 总则 / 第二节 ... / （一）... */
+const SECTION_HEADINGS: RegExp[] = [
+  /^\s*(第[一二三四五六七八九十百零\d]+[章部篇])\s*.*$/,
+  /^\s*[一二三四五六七八九十百]+、.+$/,
+  /^\s*(第[一二三四五六七八九十百零\d]+节)\s*.*$/,
+  /^\s*（[一二三四五六七八九十]+）.+$/,
+];
+/** 条款开头：1. / 1、 / （1） / 第三条 */
+const CLAUSE_START = /^\s*(\d+[.、．]|（\d+）|\(\d+\)|第[一二三四五六七八九十百零\d]+条)/;
+
+/** 判断一段纯文本是不是编号的制度文本（至少两个章节标题或三条编号条款） */
+export function looksLikeNumberedPolicy(content: string): boolean {
+  const lines = content.split("\n");
+  const headings = lines.filter((l) => SECTION_HEADINGS.some((re) => re.test(l))).length;
+  const clauses = lines.filter((l) => CLAUSE_START.test(l)).length;
+  return headings >= 2 || clauses >= 3;
+}
+
+/** 标题层级：文档标题 0，章节标题 1 起；不是标题返回 -1 */
+function headingLevel(text: string): number {
+  if (DOC_TITLE.test(text)) return 0;
+  const index = SECTION_HEADINGS.findIndex((re) => re.test(text));
+  return index < 0 ? -1 : index + 1;
+}
+
+/**
+ * 按条款切分一段文本
+ * path 是进入这段文本时所在的章节（PDF 跨页时沿用上一页的章节），返回切分结果和结束时的章节
+ */
+async function chunkClauses(
+  text: string,
+  base: number,
+  options: ChunkerOptions,
+  path: { level: number; title: string }[],
+  page: number | null
+): Promise<{ chunks: DocumentChunk[]; path: { level: number; title: string }[] }> {
+  // 先把文本拆成「单元」：标题行、条款（含续行）、其他段落
+  const units: { start: number; end: number; path: string[]; heading: boolean }[] = [];
+  let stack = [...path];
+  for (const line of toLines(text, base)) {
+    const end = line.start + line.text.length;
+    if (!line.text.trim()) continue;
+
+    const level = headingLevel(line.text);
+    if (level >= 0 && !CLAUSE_START.test(line.text)) {
+      stack = stack.filter((h) => h.level < level);
+      const title = line.text.match(DOC_TITLE)?.[1] ?? line.text.trim();
+      stack.push({ level, title });
+      units.push({ start: line.start, end, path: stack.map((h) => h.title), heading: true });
+      continue;
+    }
+
+    const last = units[units.length - 1];
+    if (!CLAUSE_START.test(line.text) && last && !last.heading) {
+      last.end = end; // 续行：接在上一个条款后面
+    } else {
+      units.push({ start: line.start, end, path: stack.map((h) => h.title), heading: false });
+    }
+  }
+
+  // 同一节里相邻的单元合并，直到接近 chunkSize；节标题总是和后面的条款放在一起
+  const chunks: DocumentChunk[] = [];
+  let group: typeof units = [];
+  const flush = async () => {
+    if (group.length === 0) return;
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const headingPath = group[group.length - 1].path;
+    const slice = text.slice(start - base, end - base);
+    if (slice.length <= options.chunkSize) {
+      chunks.push({ content: slice, offset: start, headingPath, page });
+    } else {
+      // 单条规定本身就超长，只好按字数再切
+      chunks.push(...(await splitBySize(slice, start, options, headingPath, page)));
+    }
+    group = [];
+  };
+
+  for (const unit of units) {
+    if (group.length > 0 && !group.every((u) => u.heading)) {
+      const last = group[group.length - 1];
+      const sameSection = last.path.join("\u0000") === unit.path.join("\u0000");
+      if (!sameSection || unit.end - group[0].start > options.chunkSize) await flush();
+    }
+    group.push(unit);
+  }
+  await flush();
+
+  return { chunks, path: stack };
+}
+
+export const clauseChunker: Chunker = async (content, options) => {
+  if (!looksLikeNumberedPolicy(content)) return recursiveChunker(content, options);
+  return (await chunkClauses(content, 0, options, [], null)).chunks;
+};
+
+// ========================================
+// 表格：按行分组，每块重复表头
+// ========================================
+
+const SHEET_HEADING = /^###\s*工作表[:：]\s*(.+)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+
+/** 解析后的表格是 Markdown 表格（见 file-parser.ts），按「表头 + 若干行」成块 */
+export const spreadsheetChunker: Chunker = async (content, options) => {
+  const lines = toLines(content);
+  const chunks: DocumentChunk[] = [];
+  let sheet: string[] = [];
+  let header: string[] = [];
+  let rows: Line[] = [];
+
+  const flush = () => {
+    if (rows.length === 0) return;
+    chunks.push({
+      content: [...header, ...rows.map((r) => r.text)].join("\n"),
+      offset: rows[0].start,
+      headingPath: sheet,
+      page: null,
+    });
+    rows = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const { text } = lines[i];
+    const sheetMatch = text.match(SHEET_HEADING);
+    if (sheetMatch) {
+      flush();
+      sheet = [`工作表: ${sheetMatch[1].trim()}`];
+      header = [];
+      continue;
+    }
+    if (!TABLE_ROW.test(text)) continue;
+
+    // 表头行的下一行是分隔行
+    if (TABLE_SEPARATOR.test(lines[i + 1]?.text ?? "")) {
+      flush();
+      header = [text, lines[i + 1].text];
+      i++;
+      continue;
+    }
+
+    const size = [...header, ...rows.map((r) => r.text), text].join("\n").length;
+    if (rows.length > 0 && size > options.chunkSize) flush();
+    rows.push(lines[i]);
+  }
+  flush();
+
+  return chunks.length > 0 ? chunks : recursiveChunker(content, options);
+};
+
+// ========================================
+// PDF：按页切分
+// ========================================
+
+/** 页尾标记（file-parser.ts 解析 PDF 时加上）：-- 3 of 12 -- */
+const PDF_PAGE_MARKER = /^-- (\d+) of \d+ --$/;
+
+export const pdfChunker: Chunker = async (content, options) => {
+  const lines = toLines(content);
+  if (!lines.some((l) => PDF_PAGE_MARKER.test(l.text.trim()))) {
+    return clauseChunker(content, options);
+  }
+
+  const policy = looksLikeNumberedPolicy(content);
+  const chunks: DocumentChunk[] = [];
+  let path: { level: number; title: string }[] = [];
+  let pageStart = 0;
+
+  for (const line of lines) {
+    const marker = line.text.trim().match(PDF_PAGE_MARKER);
+    if (!marker) continue;
+    const page = Number(marker[1]);
+    const text = content.slice(pageStart, line.start);
+    if (text.trim()) {
+      if (policy) {
+        const result = await chunkClauses(text, pageStart, options, path, page);
+        chunks.push(...result.chunks);
+        path = result.path;
+      } else {
+        chunks.push(...(await splitBySize(text, pageStart, options, [], page)));
+      }
+    }
+    pageStart = line.start + line.text.length + 1;
+  }
+  return chunks;
+};
+
+// ========================================
+// 注册表
+// ========================================
+
+const CHUNKERS = new Map<string, Chunker>([
+  [".md", markdownChunker],
+  [".txt", clauseChunker],
+  [".xlsx", spreadsheetChunker],
+  [".xls", spreadsheetChunker],
+  [".csv", spreadsheetChunker],
+  [".pdf", pdfChunker],
+]);
+
+/** 给某种文件类型注册（或替换）切分器 */
+export function registerChunker(fileType: string, chunker: Chunker): void {
+  CHUNKERS.set(fileType.toLowerCase(), chunker);
+}
+
+/** 按文件类型取切分器，没注册过的类型按字数切分 */
+export function getChunker(fileType: string): Chunker {
+  return CHUNKERS.get(fileType.toLowerCase()) ?? recursiveChunker;
+}
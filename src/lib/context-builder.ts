@@ -0,0 +1,283 @@
+import { BaseMessage, ToolMessage } from "@langchain/core/messages";
+import type { ConversationSummary, Message } from "./db";
+import { LongMemory, formatMemoriesForPrompt } from "./long-memory";
+import { formatSummaryForPrompt } from "./conversation-summary";
+import { ModelRole, resolveModel } from "./models";
+
+/**
+ * ========== 按 token 预算组装上下文 ==========
+ *
+ * 以前上下文按固定条数拼：20 条历史、5 条记忆、3 个知识库片段，工具结果原样塞回去。
+ * 解析一个大文件之后，下一次模型调用就可能超出上下文长度直接报错。
+ * 这里先估算 token 数，再按优先级把预算分给各部分：
+ *
+ *   1. 系统提示（人设、日期、任务说明）和本轮用户消息：必须带上，不裁剪
+ *   2. 对话摘要：最多占可用预算的 SUMMARY_SHARE
+ *   3. 长期记忆：按相关度依次放入，最多占 MEMORY_SHARE
+ *   4. 工具结果：先预留 TOOL_RESULT_SHARE（没有工具调用的模式不预留）
+ *   5. 历史消息：从最近的往前放，放不下的更早消息丢掉（摘要已经覆盖了更早的内容）
+ *   6. 前面各部分没用完的预算都归工具结果
+ *
+ * 工具结果要到 Agent 循环里才出现，由 fitToolMessages 在每次调用模型前按 toolBudget 截断
+ * （越新的结果越优先保留）。每一步放了什么、丢了什么都记在 ContextReport 里，
+ * /api/chat 通过 context SSE 事件发给前端调试用。
+ */
+
+/** createAgent 截断工具结果时发出的自定义事件名（streamEvents 里是 on_custom_event） */
+export const CONTEXT_TRIMMED_EVENT = "context_trimmed";
+
+const SUMMARY_SHARE = 0.1;
+const MEMORY_SHARE = 0.05;
+const TOOL_RESULT_SHARE = 0.5;
+/** 每条消息的角色、分隔符等固定开销 */
+const MESSAGE_OVERHEAD = 4;
+/** 被截断的工具结果至少保留这么多 token，太短就没有意义了 */
+const MIN_TOOL_RESULT_TOKENS = 200;
+
+// 中日韩文字和全角标点
+const CJK = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\u3040-\u30ff\uac00-\ud7af\u3000-\u303f\uff00-\uffef]/g;
+
+/**
+ * 估算 token 数（各家分词器不同，统一按 DeepSeek 官方给的换算估算）：
+ * 1 个中文字符 ≈ 0.6 token，1 个英文字符 ≈ 0.3 token；向上取整，宁多勿少
+ */
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK)?.length ?? 0;
+  return Math.ceil(cjk * 0.6 + (text.length - cjk) * 0.3);
+}
+
+function countMessageTokens(content: string): number {
+  return countTokens(content) + MESSAGE_OVERHEAD;
+}
+
+/** 把文本截到不超过 maxTokens，并注明原文长度 */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) return text;
+  const note = `\n\n...（内容过长，已按上下文预算截断，原文共 ${text.length} 字）`;
+  const target = maxTokens - countTokens(note);
+  if (target <= 0) return note.trim();
+
+  // 二分找能放下的最长前缀
+  let lo = 0;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (countTokens(text.slice(0, mid)) <= target) lo = mid;
+    else hi = mid - 1;
+  }
+  return text.slice(0, lo) + note;
+}
+
+export interface ContextSection {
+  name: "system" | "user" | "summary" | "memories" | "history" | "reference" | "tool_results";
+  /** 实际放入的 token 数 */
+  tokens: number;
+  /** 放入的条数 / 可用的条数（单段文本为 1 / 1） */
+  included: number;
+  total: number;
+  /** 是否被截断或丢掉了部分内容 */
+  trimmed: boolean;
+}
+
+export interface ContextReport {
+  /** 模型 id（见 models.ts） */
+  model: string;
+  /** 输入可用的总预算（上下文窗口减去输出预留） */
+  budget: number;
+  /** 已用的 token（不含工具结果） */
+  used: number;
+  /** 留给 Agent 循环里工具结果的 token */
+  toolBudget: number;
+  sections: ContextSection[];
+}
+
+export interface ContextInput {
+  /** 用途或模型 id，上下文窗口和输出预留从模型注册表取 */
+  model: ModelRole | string;
+  /** 人设 + 日期 + 任务说明，不裁剪 */
+  systemPrompt: string;
+  /** 本轮用户消息，不裁剪 */
+  userMessage: string;
+  summary?: ConversationSummary | null;
+  /** 按相关度从高到低 */
+  memories?: LongMemory[];
+  /** 按时间正序 */
+  history?: Message[];
+  /** 调用前已经拿到的参考资料，算在工具结果的预算里 */
+  reference?: { heading: string; text: string };
+  /** 本轮是否会走工具调用循环（决定要不要给工具结果预留预算） */
+  expectToolResults?: boolean;
+}
+
+export interface BuiltContext {
+  /** 拼好的系统提示：基础提示 + 记忆 + 摘要 + 参考资料 */
+  systemPrompt: string;
+  /** 放得下的历史消息（时间正序） */
+  history: Message[];
+  /** Agent 循环中工具结果可用的 token，传给 createAgent */
+  toolBudget: number;
+  report: ContextReport;
+}
+
+/** 按预算组装一轮对话的上下文 */
+export function buildContext(input: ContextInput): BuiltContext {
+  const config = resolveModel(input.model);
+  const budget = config.contextWindow - config.maxOutput;
+  const sections: ContextSection[] = [];
+
+  const systemTokens = countMessageTokens(input.systemPrompt);
+  const userTokens = countMessageTokens(input.userMessage);
+  sections.push({ name: "system", tokens: systemTokens, included: 1, total: 1, trimmed: false });
+  sections.push({ name: "user", tokens: userTokens, included: 1, total: 1, trimmed: false });
+  const available = Math.max(budget - systemTokens - userTokens, 0);
+  let remaining = available;
+
+  // 摘要：一段文本，超出份额就截断
+  let summaryText = "";
+  if (input.summary) {
+    const full = formatSummaryForPrompt(input.summary);
+    summaryText = truncateToTokens(full, Math.min(Math.floor(available * SUMMARY_SHARE), remaining));
+    const tokens = countTokens(summaryText);
+    remaining -= tokens;
+    sections.push({ name: "summary", tokens, included: 1, total: 1, trimmed: summaryText !== full });
+  }
+
+  // 记忆：按相关度依次放，放不下就停
+  const memories = input.memories ?? [];
+  const keptMemories: LongMemory[] = [];
+  if (memories.length > 0) {
+    const cap = Math.min(Math.floor(available * MEMORY_SHARE), remaining);
+    for (const memory of memories) {
+      if (countTokens(formatMemoriesForPrompt([...keptMemories, memory])) > cap) break;
+      keptMemories.push(memory);
+    }
+    const tokens = countTokens(formatMemoriesForPrompt(keptMemories));
+    remaining -= tokens;
+    sections.push({
+      name: "memories",
+      tokens,
+      included: keptMemories.length,
+      total: memories.length,
+      trimmed: keptMemories.length < memories.length,
+    });
+  }
+
+  // 工具结果预留：有参考资料时按它的实际大小（不超过份额），会调用工具时预留固定份额
+  const referenceFull = input.reference
+    ? `\n\n[${input.reference.heading}]\n${input.reference.text}`
+    : "";
+  const toolShare = Math.floor(available * TOOL_RESULT_SHARE);
+  const toolReserve = Math.min(
+    remaining,
+    Math.max(input.expectToolResults ? toolShare : 0, Math.min(countTokens(referenceFull), toolShare))
+  );
+
+  // 历史：从最近的往前放
+  const history = input.history ?? [];
+  let historyBudget = remaining - toolReserve;
+  let start = history.length;
+  while (start > 0) {
+    const tokens = countMessageTokens(history[start - 1].content);
+    if (tokens > historyBudget) break;
+    historyBudget -= tokens;
+    start--;
+  }
+  const keptHistory = history.slice(start);
+  const historyTokens = keptHistory.reduce((sum, m) => sum + countMessageTokens(m.content), 0);
+  remaining -= historyTokens;
+  if (history.length > 0) {
+    sections.push({
+      name: "history",
+      tokens: historyTokens,
+      included: keptHistory.length,
+      total: history.length,
+      trimmed: start > 0,
+    });
+  }
+
+  // 参考资料和工具结果分剩下的全部预算
+  let referenceText = "";
+  if (referenceFull) {
+    referenceText = truncateToTokens(referenceFull, remaining);
+    const tokens = countTokens(referenceText);
+    remaining -= tokens;
+    sections.push({ name: "reference", tokens, included: 1, total: 1, trimmed: referenceText !== referenceFull });
+  }
+  const toolBudget = input.expectToolResults ? remaining : 0;
+
+  const systemPrompt =
+    input.systemPrompt + formatMemoriesForPrompt(keptMemories) + summaryText + referenceText;
+
+  return {
+    systemPrompt,
+    history: keptHistory,
+    toolBudget,
+    report: {
+      model: config.id,
+      budget,
+      used: budget - remaining,
+      toolBudget,
+      sections,
+    },
+  };
+}
+
+/** fitToolMessages 的结果：裁剪后的消息和工具结果这一部分的统计 */
+export interface FittedToolMessages {
+  messages: BaseMessage[];
+  section: ContextSection;
+}
+
+/**
+ * 每次调用模型前按预算截断工具结果
+ * 从最新的工具结果往前分配预算：新的结果完整保留，放不下的截断，
+ * 连 MIN_TOOL_RESULT_TOKENS 都放不下的更早结果只留一句说明
+ */
+export function fitToolMessages(messages: BaseMessage[], toolBudget: number): FittedToolMessages {
+  const toolIndexes = messages
+    .map((m, i) => (ToolMessage.isInstance(m) ? i : -1))
+    .filter((i) => i >= 0);
+  const contents = new Map(
+    toolIndexes.map((i) => [
+      i,
+      typeof messages[i].content === "string" ? messages[i].content : JSON.stringify(messages[i].content),
+    ])
+  );
+
+  let remaining = toolBudget;
+  let tokens = 0;
+  let included = 0;
+  let trimmed = false;
+  const replaced = new Map<number, string>();
+  for (const i of [...toolIndexes].reverse()) {
+    const content = contents.get(i)!;
+    const cost = countMessageTokens(content);
+    if (cost <= remaining) {
+      remaining -= cost;
+      tokens += cost;
+      included++;
+      continue;
+    }
+    trimmed = true;
+    const text =
+      remaining >= MIN_TOOL_RESULT_TOKENS
+        ? truncateToTokens(content, remaining - MESSAGE_OVERHEAD)
+        : `（较早的工具结果已省略以节省上下文，原文共 ${content.length} 字）`;
+    const kept = countMessageTokens(text);
+    remaining = Math.max(remaining - kept, 0);
+    tokens += kept;
+    replaced.set(i, text);
+  }
+
+  const fitted = messages.map((m, i) => {
+    const text = replaced.get(i);
+    if (text === undefined) return m;
+    const tool = m as ToolMessage;
+    return new ToolMessage({ content: text, tool_call_id: tool.tool_call_id, name: tool.name });
+  });
+  return {
+    messages: fitted,
+    section: { name: "tool_results", tokens, included, total: toolIndexes.length, trimmed },
+  };
+}
@@ -0,0 +1,124 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import {
+  ConversationSummary,
+  Message,
+  getChainSummary,
+  saveChainSummary,
+} from "./db";
+
+/**
+ * ========== 对话滚动摘要 ==========
+ *
+ * 以前 /api/chat 只带活跃链最近 20 条消息，长对话前面的内容直接丢掉。
+ * 现在较早的轮次压缩成一段摘要，放在最近消息前面一起发给模型：
+ *
+ *   [摘要：第 1 ~ N 条] + [第 N+1 条之后的原始消息]
+ *
+ * 摘要挂在消息树上：一段摘要覆盖「根 → 某条消息」这条路径，存在这条消息上。
+ * 从根到任一节点的路径是唯一的，所以祖先节点上的摘要对经过它的所有分支都成立；
+ * 切换分支（setActiveLeaf）后沿新的活跃链找最深的那个摘要，不会用到别的分支的内容。
+ *
+ * 刷新：每轮结束后，如果摘要之后的原始消息超过 RECENT_MESSAGE_LIMIT + SUMMARY_BATCH_SIZE，
+ * 就把除最近 RECENT_MESSAGE_LIMIT 条以外的消息连同旧摘要一起压缩成新摘要（增量，不重读全部历史）
+ */
+
+/** 始终原样保留的最近消息条数 */
+export const RECENT_MESSAGE_LIMIT = 20;
+/** 攒够这么多条未摘要的旧消息才刷新一次，避免每轮都调用模型 */
+export const SUMMARY_BATCH_SIZE = 10;
+/** 摘要时每条消息最多取的字数 */
+const MAX_MESSAGE_CHARS = 1500;
+
+export interface ConversationHistory {
+  /** 活跃链上覆盖最深的摘要，没有为 null */
+  summary: ConversationSummary | null;
+  /** 摘要之后的原始消息（按时间正序） */
+  recent: Message[];
+}
+
+/** 摘要覆盖到 chain 的第几条（之后的是未摘要的消息） */
+function coveredLength(chain: Message[], summary: ConversationSummary | null): number {
+  if (!summary) return 0;
+  return chain.findIndex((m) => m.id === summary.message_id) + 1;
+}
+
+/**
+ * 按活跃链组装历史：摘要 + 摘要之后的消息
+ * 正常情况下未摘要的消息不超过 RECENT_MESSAGE_LIMIT + SUMMARY_BATCH_SIZE 条；
+ * 摘要还没生成（老会话、上次刷新失败）时按这个上限截断
+ */
+export async function loadConversationHistory(chain: Message[]): Promise<ConversationHistory> {
+  const summary = await getChainSummary(chain.map((m) => m.id));
+  const recent = chain
+    .slice(coveredLength(chain, summary))
+    .slice(-(RECENT_MESSAGE_LIMIT + SUMMARY_BATCH_SIZE));
+  return { summary, recent };
+}
+
+/** 摘要注入 system prompt 的文本 */
+export function formatSummaryForPrompt(summary: ConversationSummary | null): string {
+  if (!summary) return "";
+  return (
+    `\n\n[对话摘要 - 本会话前 ${summary.message_count} 条消息的要点]\n` +
+    summary.summary +
+    "\n[之后的消息按原文给出；摘要里的约定、结论和待办在后续回答中依然有效]"
+  );
+}
+
+function formatTranscript(messages: Message[]): string {
+  return messages
+    .map((m) => {
+      const content =
+        m.content.length > MAX_MESSAGE_CHARS ? m.content.slice(0, MAX_MESSAGE_CHARS) + "…" : m.content;
+      return `${m.role === "user" ? "用户" : "AI"}: ${content}`;
+    })
+    .join("\n\n");
+}
+
+// 同一会话同时只刷新一次（连续发消息时后台任务可能重叠）
+const refreshing = new Set<string>();
+
+/**
+ * 活跃链变长后刷新摘要（每轮对话收尾时调用，异步，不阻塞回复）
+ * chain 是包含本轮 AI 回复在内的完整活跃链；返回是否生成了新摘要
+ */
+export async function refreshConversationSummary(
+  model: BaseChatModel,
+  sessionId: string,
+  chain: Message[]
+): Promise<boolean> {
+  if (refreshing.has(sessionId)) return false;
+  refreshing.add(sessionId);
+  try {
+    const summary = await getChainSummary(chain.map((m) => m.id));
+    const covered = coveredLength(chain, summary);
+    const uncovered = chain.slice(covered);
+    if (uncovered.length <= RECENT_MESSAGE_LIMIT + SUMMARY_BATCH_SIZE) return false;
+
+    const toFold = uncovered.slice(0, uncovered.length - RECENT_MESSAGE_LIMIT);
+    const response = await model.invoke([
+      new SystemMessage(
+        `你是一个对话摘要助手。把下面这段较早的对话（如有，连同之前的摘要）整理成一份新的摘要，
+供后续对话参考。要求：
+- 保留用户的目标、背景信息、已经做出的决定和结论、约定的格式或风格、还没完成的待办
+- 保留关键的具体信息（数字、名称、代码里的标识符、文件路径等）
+- 去掉寒暄和重复内容，不要编造对话里没有的信息
+- 用简洁的条目，总长度不超过 600 字，只输出摘要本身`
+      ),
+      new HumanMessage(
+        (summary ? `之前的摘要：\n${summary.summary}\n\n` : "") +
+          `需要并入摘要的对话：\n${formatTranscript(toFold)}`
+      ),
+    ]);
+    const text = response.text.trim();
+    if (!text) return false;
+
+    const last = toFold[toFold.length - 1];
+    await saveChainSummary(sessionId, last.id, text, covered + toFold.length);
+    console.log(`🗜️ 对话摘要已更新: 会话 ${sessionId} 前 ${covered + toFold.length} 条消息`);
+    return true;
+  } finally {
+    refreshing.delete(sessionId);
+  }
+}
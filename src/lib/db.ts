@@ -1,4 +1,6 @@
 import { getPool } from "./pg";
+import type { ModelParams } from "./models";
+import type { Citation } from "./rag";
 
 /**
  * ========== 持久化记忆（PostgreSQL 版 · 按用户隔离） ==========
@@ -7,6 +9,7 @@ import { getPool } from "./pg";
  * - chat_sessions 表：管理会话，通过 user_id 隔离不同用户
  * - chat_messages 表：存储每条消息（关联到某个会话）
  * - chat_custom_personas 表：自定义角色，按 user_id 隔离
+ * - chat_summaries 表：较早对话的滚动摘要，挂在消息树的节点上（见 conversation-summary.ts）
  */
 
 // 标记是否已初始化表
@@ -48,9 +51,28 @@ async function ensureTables() {
     CREATE INDEX IF NOT EXISTS idx_chat_messages_parent ON chat_messages(parent_id);
     CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id);
 
+    -- AI 回复引用的知识库段落（结构见 rag.ts Citation），回复正文里保留 [^kb-xx] 标记
+    ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS citations JSONB;
+    -- 实际生成这条回复的模型 id（主模型不可用、由备用模型接管时和会话选择的不同）
+    ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS model TEXT;
+
     -- 会话当前活跃叶子节点：UI 从这个叶子沿 parent_id 回溯得到当前对话链
     ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS active_leaf_id INTEGER REFERENCES chat_messages(id) ON DELETE SET NULL;
 
+    -- 对话摘要：从根到 message_id 这段消息压缩成的摘要，挂在它覆盖到的最后一条消息上。
+    -- 祖先节点的摘要对经过它的所有分支都成立，切换分支时沿活跃链找最深的一个即可
+    CREATE TABLE IF NOT EXISTS chat_summaries (
+      message_id INTEGER PRIMARY KEY REFERENCES chat_messages(id) ON DELETE CASCADE,
+      session_id TEXT NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+      summary TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_chat_summaries_session ON chat_summaries(session_id);
+
+    -- 会话级记忆开关：false 时该会话的对话不会被提取为长期记忆
+    ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS memory_enabled BOOLEAN NOT NULL DEFAULT true;
+
     -- 自定义角色表，user_id 标识归属用户
     CREATE TABLE IF NOT EXISTS chat_custom_personas (
       id TEXT PRIMARY KEY,
@@ -67,6 +89,17 @@ async function ensureTables() {
     ALTER TABLE chat_custom_personas ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT '';
     CREATE INDEX IF NOT EXISTS idx_chat_custom_personas_user ON chat_custom_personas(user_id);
 
+    -- 知识库绑定：NULL 表示不限定（会话未绑定时沿用角色的绑定，都没绑定则可查全部可见知识库）
+    ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS knowledge_base_ids TEXT[];
+    ALTER TABLE chat_custom_personas ADD COLUMN IF NOT EXISTS knowledge_base_ids TEXT[];
+
+    -- 模型选择：model_id 为 NULL 表示不指定（会话沿用角色的选择，都没选则用 chat 用途的默认模型）
+    -- model_params 存 { temperature?, topP?, maxTokens?, presencePenalty? }，没给的参数用模型默认值
+    ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS model_id TEXT;
+    ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS model_params JSONB;
+    ALTER TABLE chat_custom_personas ADD COLUMN IF NOT EXISTS model_id TEXT;
+    ALTER TABLE chat_custom_personas ADD COLUMN IF NOT EXISTS model_params JSONB;
+
     -- AI 用量表：每次调用 AI 记一行，用 (user_id, date) 做每日次数限流
     CREATE EXTENSION IF NOT EXISTS pgcrypto;
     CREATE TABLE IF NOT EXISTS ai_usage (
@@ -120,6 +153,10 @@ export interface Session {
   created_at: string;
   updated_at: string;
   active_leaf_id: number | null;
+  memory_enabled: boolean;
+  knowledge_base_ids: string[] | null;
+  model_id: string | null;
+  model_params: ModelParams | null;
 }
 
 export interface Message {
@@ -128,9 +165,21 @@ export interface Message {
   role: "user" | "assistant";
   content: string;
   parent_id: number | null;
+  citations: Citation[] | null;
+  model: string | null;
   created_at: string;
 }
 
+export interface ConversationSummary {
+  /** 摘要覆盖到的最后一条消息 */
+  message_id: number;
+  session_id: string;
+  summary: string;
+  /** 覆盖的消息数（从根到 message_id） */
+  message_count: number;
+  updated_at: string;
+}
+
 export interface CustomPersona {
   id: string;
   user_id: string;
@@ -139,6 +188,9 @@ export interface CustomPersona {
   description: string;
   prompt: string;
   temperature: number;
+  knowledge_base_ids: string[] | null;
+  model_id: string | null;
+  model_params: ModelParams | null;
   created_at: string;
 }
 
@@ -212,6 +264,52 @@ export async function updateSessionPersona(
   );
 }
 
+/** 开启/关闭会话级的自动记忆提取 */
+export async function updateSessionMemoryEnabled(
+  id: string,
+  enabled: boolean,
+  userId: string
+): Promise<boolean> {
+  await ensureTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "UPDATE chat_sessions SET memory_enabled = $1 WHERE id = $2 AND user_id = $3",
+    [enabled, id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** 绑定会话可检索的知识库（null 表示取消绑定） */
+export async function updateSessionKnowledgeBases(
+  id: string,
+  knowledgeBaseIds: string[] | null,
+  userId: string
+): Promise<boolean> {
+  await ensureTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "UPDATE chat_sessions SET knowledge_base_ids = $1 WHERE id = $2 AND user_id = $3",
+    [knowledgeBaseIds, id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** 设置会话使用的模型和参数（modelId 为 null 表示恢复默认） */
+export async function updateSessionModel(
+  id: string,
+  modelId: string | null,
+  params: ModelParams | null,
+  userId: string
+): Promise<boolean> {
+  await ensureTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "UPDATE chat_sessions SET model_id = $1, model_params = $2 WHERE id = $3 AND user_id = $4",
+    [modelId, params, id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
 /** 删除会话（级联删除消息，校验 user_id） */
 export async function deleteSession(
   id: string,
@@ -232,13 +330,15 @@ export async function addMessage(
   sessionId: string,
   role: "user" | "assistant",
   content: string,
-  parentId: number | null = null
+  parentId: number | null = null,
+  citations: Citation[] | null = null,
+  model: string | null = null
 ): Promise<Message> {
   await ensureTables();
   const pool = getPool();
   const { rows } = await pool.query(
-    "INSERT INTO chat_messages (session_id, role, content, parent_id) VALUES ($1, $2, $3, $4) RETURNING *",
-    [sessionId, role, content, parentId]
+    "INSERT INTO chat_messages (session_id, role, content, parent_id, citations, model) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *",
+    [sessionId, role, content, parentId, citations && citations.length > 0 ? JSON.stringify(citations) : null, model]
   );
   const msg = rows[0] as Message;
 
@@ -347,6 +447,40 @@ export async function setActiveLeaf(
   return await getActiveMessages(sessionId);
 }
 
+// ===== 对话摘要 =====
+
+/** 在一条消息链上找覆盖最深的摘要（传入活跃链的消息 id），没有返回 null */
+export async function getChainSummary(
+  messageIds: number[]
+): Promise<ConversationSummary | null> {
+  if (messageIds.length === 0) return null;
+  await ensureTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    "SELECT * FROM chat_summaries WHERE message_id = ANY($1) ORDER BY message_count DESC LIMIT 1",
+    [messageIds]
+  );
+  return (rows[0] as ConversationSummary) ?? null;
+}
+
+/** 保存（或覆盖）挂在某条消息上的摘要 */
+export async function saveChainSummary(
+  sessionId: string,
+  messageId: number,
+  summary: string,
+  messageCount: number
+): Promise<void> {
+  await ensureTables();
+  const pool = getPool();
+  await pool.query(
+    `INSERT INTO chat_summaries (message_id, session_id, summary, message_count)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (message_id) DO UPDATE
+       SET summary = EXCLUDED.summary, message_count = EXCLUDED.message_count, updated_at = NOW()`,
+    [messageId, sessionId, summary, messageCount]
+  );
+}
+
 /** 获取某个会话的所有消息 */
 export async function getMessages(sessionId: string): Promise<Message[]> {
   await ensureTables();
@@ -384,14 +518,17 @@ export async function createCustomPersona(
   description: string,
   prompt: string,
   temperature: number = 0.7,
-  userId: string
+  userId: string,
+  knowledgeBaseIds: string[] | null = null,
+  modelId: string | null = null,
+  modelParams: ModelParams | null = null
 ): Promise<CustomPersona> {
   await ensureTables();
   const pool = getPool();
   const id = "custom_" + generateId();
   const { rows } = await pool.query(
-    "INSERT INTO chat_custom_personas (id, user_id, name, emoji, description, prompt, temperature) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *",
-    [id, userId, name, emoji, description, prompt, temperature]
+    "INSERT INTO chat_custom_personas (id, user_id, name, emoji, description, prompt, temperature, knowledge_base_ids, model_id, model_params) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *",
+    [id, userId, name, emoji, description, prompt, temperature, knowledgeBaseIds, modelId, modelParams]
   );
   return rows[0] as CustomPersona;
 }
@@ -422,6 +559,37 @@ export async function getCustomPersona(
   return rows[0] as CustomPersona | undefined;
 }
 
+/** 绑定自定义角色可检索的知识库（null 表示取消绑定，校验 user_id） */
+export async function updateCustomPersonaKnowledgeBases(
+  id: string,
+  knowledgeBaseIds: string[] | null,
+  userId: string
+): Promise<boolean> {
+  await ensureTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "UPDATE chat_custom_personas SET knowledge_base_ids = $1 WHERE id = $2 AND user_id = $3",
+    [knowledgeBaseIds, id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** 设置自定义角色使用的模型和参数（modelId 为 null 表示恢复默认，校验 user_id） */
+export async function updateCustomPersonaModel(
+  id: string,
+  modelId: string | null,
+  params: ModelParams | null,
+  userId: string
+): Promise<boolean> {
+  await ensureTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "UPDATE chat_custom_personas SET model_id = $1, model_params = $2 WHERE id = $3 AND user_id = $4",
+    [modelId, params, id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
 /** 删除自定义角色（校验 user_id） */
 export async function deleteCustomPersona(
   id: string,
@@ -11,17 +11,53 @@
 import fs from "fs";
 import path from "path";
 
+/** 支持解析的扩展名 */
+export const SUPPORTED_EXTENSIONS = [
+  ".pdf", ".xlsx", ".xls", ".csv", ".txt", ".md", ".json",
+];
+
+export interface ParseOptions {
+  /**
+   * 完整解析（知识库入库用）：
+   * 不截断长文本和表格行数，不加「[PDF 共 N 页…]」这类给 AI 看的说明，
+   * 解析失败时抛出 FileParseError 而不是返回错误提示文本
+   */
+  full?: boolean;
+}
+
+/** 文件无法解析（不存在、太大、格式不支持、没有文本内容等） */
+export class FileParseError extends Error {}
+
 /**
  * 解析上传的文件，返回文本内容
+ * 默认模式下出错会返回错误提示文本（直接给 AI 看），full 模式下抛出 FileParseError
  */
-export async function parseFile(filePath: string): Promise<string> {
+export async function parseFile(
+  filePath: string,
+  options: ParseOptions = {}
+): Promise<string> {
+  try {
+    return await extractText(filePath, options.full ?? false);
+  } catch (error) {
+    const parseError =
+      error instanceof FileParseError
+        ? error
+        : new FileParseError(
+            `文件解析出错: ${error instanceof Error ? error.message : "Unknown error"}`
+          );
+    if (options.full) throw parseError;
+    return parseError.message;
+  }
+}
+
+async function extractText(filePath: string, full: boolean): Promise<string> {
   // filePath 可能是 /uploads/xxx.pdf 或绝对路径
   const absolutePath = filePath.startsWith("/uploads/")
     ? path.join(process.cwd(), "public", filePath)
     : filePath;
 
   if (!fs.existsSync(absolutePath)) {
-    return `错误：文件不存在 (${filePath})`;
+    throw new FileParseError(`错误：文件不存在 (${filePath})`);
   }
 
   const ext = path.extname(absolutePath).toLowerCase();
@@ -29,52 +65,54 @@ export async function parseFile(filePath: string): Promise<string> {
 
   // 限制文件大小（10MB）
   if (fileSize > 10 * 1024 * 1024) {
-    return "错误：文件太大（超过 10MB），请使用更小的文件。";
+    throw new FileParseError("错误：文件太大（超过 10MB），请使用更小的文件。");
   }
 
-  try {
-    switch (ext) {
-      case ".pdf":
-        return await parsePDF(absolutePath);
-      case ".xlsx":
-      case ".xls":
-        return parseExcel(absolutePath);
-      case ".csv":
-        return parseCSV(absolutePath);
-      case ".txt":
-      case ".md":
-      case ".json":
-        return parseText(absolutePath);
-      default:
-        return `不支持的文件格式: ${ext}。支持的格式: PDF, Excel, CSV, TXT, Markdown`;
-    }
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : "Unknown error";
-    return `文件解析出错: ${msg}`;
+  switch (ext) {
+    case ".pdf":
+      return await parsePDF(absolutePath, full);
+    case ".xlsx":
+    case ".xls":
+      return parseExcel(absolutePath, full);
+    case ".csv":
+      return parseCSV(absolutePath, full);
+    case ".txt":
+    case ".md":
+    case ".json":
+      return parseText(absolutePath, full);
+    default:
+      throw new FileParseError(
+        `不支持的文件格式: ${ext}。支持的格式: PDF, Excel, CSV, TXT, Markdown`
+      );
   }
 }
 
 /** 解析 PDF */
-async function parsePDF(filePath: string): Promise<string> {
-  // pdf-parse v2 ESM 导出结构与 TS 类型声明不一致，用 any 绕过
-  const pdfParse = ((await import("pdf-parse")) as unknown as { default: (buf: Buffer) => Promise<{ text: string; numpages: number }> }).default;
-  const buffer = fs.readFileSync(filePath);
-  const data = await pdfParse(buffer);
+async function parsePDF(filePath: string, full: boolean): Promise<string> {
+  // pdf-parse v2 没有默认导出，用 PDFParse 类；
+  // getText() 在每页末尾加「-- 3 of 12 --」页标记，知识库按页切分（chunkers.ts）靠它记录页码
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: fs.readFileSync(filePath) });
+  const data = await parser.getText().finally(() => parser.destroy());
 
   const text = data.text.trim();
-  if (!text) return "PDF 文件没有提取到文本内容（可能是扫描件/图片 PDF）。";
+  if (!text) {
+    throw new FileParseError("PDF 文件没有提取到文本内容（可能是扫描件/图片 PDF）。");
+  }
 
   // 限制返回长度（避免太长塞爆上下文）
   const maxLen = 5000;
-  if (text.length > maxLen) {
-    return `[PDF 共 ${data.numpages} 页，${text.length} 字，以下为前 ${maxLen} 字]\n\n${text.slice(0, maxLen)}\n\n... (内容已截断)`;
+  if (!full && text.length > maxLen) {
+    return `[PDF 共 ${data.total} 页，${text.length} 字，以下为前 ${maxLen} 字]\n\n${text.slice(0, maxLen)}\n\n... (内容已截断)`;
   }
 
-  return `[PDF 共 ${data.numpages} 页，${text.length} 字]\n\n${text}`;
+  // 入库时只要正文：头部说明会被切进第一页的第一段、参与检索，还会让段落偏移对不上原文
+  if (full) return text;
+  return `[PDF 共 ${data.total} 页，${text.length} 字]\n\n${text}`;
 }
 
 /** 解析 Excel */
-function parseExcel(filePath: string): string {
+function parseExcel(filePath: string, full: boolean): string {
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   const XLSX = require("xlsx");
   const workbook = XLSX.readFile(filePath);
@@ -93,7 +131,7 @@ function parseExcel(filePath: string): string {
     results.push("| " + headers.join(" | ") + " |");
     results.push("| " + headers.map(() => "---").join(" | ") + " |");
 
-    const maxRows = 50; // 限制行数
+    const maxRows = full ? Infinity : 50; // 限制行数
     for (let i = 1; i < Math.min(json.length, maxRows + 1); i++) {
       const row = (json[i] as unknown[]).map((c) => String(c ?? ""));
       results.push("| " + row.join(" | ") + " |");
@@ -104,15 +142,16 @@ function parseExcel(filePath: string): string {
     }
   }
 
-  return results.join("\n") || "Excel 文件为空。";
+  if (results.length === 0) throw new FileParseError("Excel 文件为空。");
+  return results.join("\n");
 }
 
 /** 解析 CSV */
-function parseCSV(filePath: string): string {
+function parseCSV(filePath: string, full: boolean): string {
   const content = fs.readFileSync(filePath, "utf-8");
   const lines = content.trim().split("\n");
 
-  if (lines.length === 0) return "CSV 文件为空。";
+  if (lines.length === 0) throw new FileParseError("CSV 文件为空。");
 
   // 转成 Markdown 表格
   const results: string[] = [];
@@ -120,7 +159,7 @@ function parseCSV(filePath: string): string {
   results.push("| " + headers.join(" | ") + " |");
   results.push("| " + headers.map(() => "---").join(" | ") + " |");
 
-  const maxRows = 50;
+  const maxRows = full ? Infinity : 50;
   for (let i = 1; i < Math.min(lines.length, maxRows + 1); i++) {
     const row = lines[i].split(",").map((c) => c.trim());
     results.push("| " + row.join(" | ") + " |");
@@ -134,10 +173,10 @@ function parseCSV(filePath: string): string {
 }
 
 /** 解析纯文本 */
-function parseText(filePath: string): string {
+function parseText(filePath: string, full: boolean): string {
   const content = fs.readFileSync(filePath, "utf-8");
   const maxLen = 5000;
-  if (content.length > maxLen) {
+  if (!full && content.length > maxLen) {
     return `[文件共 ${content.length} 字，以下为前 ${maxLen} 字]\n\n${content.slice(0, maxLen)}\n\n... (内容已截断)`;
   }
   return content;
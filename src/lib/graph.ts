@@ -18,11 +18,23 @@
  * 它封装了 "LLM → 判断是否调工具 → 执行工具 → 循环" 的完整流程。
  */
 
-import { ChatOpenAI } from "@langchain/openai";
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
+import { Annotation, BaseCheckpointSaver, END, START, StateGraph } from "@langchain/langgraph";
 import { ALL_TOOLS } from "@/lib/tools";
-import { BaseMessage } from "@langchain/core/messages";
-import { StructuredToolInterface } from "@langchain/core/tools";
+import { AIMessageChunk, BaseMessage, SystemMessage } from "@langchain/core/messages";
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import { Runnable, RunnableConfig } from "@langchain/core/runnables";
+import { dispatchCustomEvent } from "@langchain/core/callbacks/dispatch";
+import { CONTEXT_TRIMMED_EVENT, fitToolMessages } from "@/lib/context-builder";
+import {
+  ModelChoice,
+  ModelConfig,
+  createChatModel,
+  getFallbackChain,
+  resolveModel,
+} from "@/lib/models";
+import { StructuredToolInterface, tool } from "@langchain/core/tools";
+import { z } from "zod";
 
 /**
  * 创建一个 ReAct Agent（工具模式）
@@ -30,27 +42,61 @@ import { StructuredToolInterface } from "@langchain/core/tools";
  * @param systemPrompt - AI 的人设/系统提示
  * @param temperature - 温度参数
  * @param tools - 可选，自定义工具列表（默认使用 ALL_TOOLS）
+ * @param toolBudget - 可选，工具结果可用的 token 数（见 context-builder.ts）；
+ *   传了就在每次调用模型前截断超出预算的工具结果，并发出 context_trimmed 自定义事件
+ * @param choice - 可选，会话 / 角色选择的模型和参数（默认用 chat 用途的模型）；
+ *   参数里的 temperature 优先于上面的 temperature
+ * @param checkpointer - 可选，保存每一步的状态：运行中断后可以从检查点继续（见 checkpointer.ts），挂了需要人工确认的工具时必须传（见 tool-approval.ts）
  * @returns 编译好的 Agent（可以 invoke 或 stream）
+ *
+ * 模型调用经过 ResilientChatModel：失败自动重试，主模型不可用时换备用模型（挂了工具时只换支持工具的模型）
  */
 export function createAgent(
   systemPrompt: string,
   temperature: number = 0.7,
-  tools?: StructuredToolInterface[]
+  tools?: StructuredToolInterface[],
+  toolBudget?: number,
+  choice?: ModelChoice,
+  checkpointer?: BaseCheckpointSaver
 ) {
-  const model = new ChatOpenAI({
-    model: "deepseek-chat",
-    temperature,
-    apiKey: process.env.DEEPSEEK_API_KEY,
-    configuration: {
-      baseURL: process.env.DEEPSEEK_BASE_URL,
-    },
-  });
+  const modelId = choice?.id ?? "chat";
+  // 不支持 function calling 的模型（例如部分本地模型）不挂工具，退化为普通对话
+  const supportsTools = resolveModel(modelId).capabilities.tools;
+  const agentTools = supportsTools ? tools || ALL_TOOLS : [];
+
+  const model = new ResilientChatModel(
+    getFallbackChain(modelId, { tools: agentTools.length > 0 }).map((config) => {
+      const params = { temperature, ...choice?.params };
+      const chatModel = createChatModel(config.id, {
+        ...params,
+        // 备用模型的输出上限可能比主模型小
+        maxTokens: params.maxTokens && Math.min(params.maxTokens, config.maxOutput),
+        timeout: MODEL_REQUEST_TIMEOUT_MS,
+        maxRetries: 0,
+      });
+      return {
+        config,
+        runnable: agentTools.length > 0 ? chatModel.bindTools!(agentTools) : chatModel,
+      };
+    })
+  );
 
   const agent = createReactAgent({
-    llm: model,
-    tools: tools || ALL_TOOLS,
-    // 系统提示作为 prompt
-    prompt: systemPrompt,
+    // 工具已经绑在备用链的每个模型上，用函数形式传入，createReactAgent 不会再 bindTools
+    llm: () => model,
+    tools: agentTools,
+    // 系统提示作为 prompt；有预算时每次调用模型前先按预算截断工具结果
+    prompt:
+      toolBudget === undefined
+        ? systemPrompt
+        : async (state, config) => {
+            const { messages, section } = fitToolMessages(state.messages, toolBudget);
+            if (section.trimmed) {
+              await dispatchCustomEvent(CONTEXT_TRIMMED_EVENT, section, config);
+            }
+            return [new SystemMessage(systemPrompt), ...messages];
+          },
+    checkpointer,
   });
 
   return agent;
@@ -59,17 +105,11 @@ export function createAgent(
 /**
  * 创建推理模型实例（深度推理模式，无工具）
  *
- * deepseek-reasoner 会返回 reasoning_content（思考链），
+ * 用 models.ts 里 reasoning 用途的模型（默认 deepseek-reasoner），它会返回 reasoning_content（思考链），
  * 但不支持 function calling，所以不使用 Agent。
  */
 export function createReasoningModel() {
-  return new ChatOpenAI({
-    model: "deepseek-reasoner",
-    apiKey: process.env.DEEPSEEK_API_KEY,
-    configuration: {
-      baseURL: process.env.DEEPSEEK_BASE_URL,
-    },
-  });
+  return createChatModel("reasoning");
 }
 
 /**
@@ -115,3 +155,429 @@ export async function runAgent(
 
   return fullReply;
 }
+
+// ========================================
+// 多跳知识库检索子 Agent
+// ========================================
+
+/**
+ * 子 Agent 内部的 LLM 调用（拆解问题、判断证据是否充分、汇总）都打上这个标签，
+ * 路由里遇到带这个标签的 on_chat_model_stream 不当作回复内容推给前端
+ * 内部发起的知识库检索仍是普通的工具调用，会以 tool_start / tool_end 出现在流里
+ */
+export const INTERNAL_RUN_TAG = "internal";
+
+/** 最多检索几轮（第一轮 + 补充检索） */
+const MAX_RESEARCH_HOPS = 3;
+/** 每轮最多几个检索词 */
+const MAX_QUERIES_PER_HOP = 4;
+
+interface Evidence {
+  query: string;
+  result: string;
+}
+
+const ResearchState = Annotation.Root({
+  question: Annotation<string>,
+  /** 本轮待检索的关键词 */
+  pending: Annotation<string[]>({
+    reducer: (_, next) => next,
+    default: () => [],
+  }),
+  /** 已检索过的关键词和结果（跨轮累积） */
+  evidence: Annotation<Evidence[]>({
+    reducer: (prev, next) => [...prev, ...next],
+    default: () => [],
+  }),
+  hops: Annotation<number>({
+    reducer: (_, next) => next,
+    default: () => 0,
+  }),
+  sufficient: Annotation<boolean>({
+    reducer: (_, next) => next,
+    default: () => false,
+  }),
+  answer: Annotation<string>({
+    reducer: (_, next) => next,
+    default: () => "",
+  }),
+});
+
+const planSchema = z.object({
+  queries: z
+    .array(z.string())
+    .describe("拆解后的知识库检索关键词，每个只针对一个信息点，例如 '出差住宿标准 上海'、'出差餐补标准'"),
+});
+
+const assessSchema = z.object({
+  sufficient: z.boolean().describe("现有资料是否足以完整回答问题"),
+  missing: z.string().describe("还缺哪些信息（足够时留空）"),
+  followUpQueries: z
+    .array(z.string())
+    .describe("需要补充检索的关键词，不要和已检索过的重复（足够时为空数组）"),
+});
+
+function formatEvidence(evidence: Evidence[]): string {
+  return evidence
+    .map((e, i) => `### 检索 ${i + 1}：${e.query}\n${e.result}`)
+    .join("\n\n");
+}
+
+/**
+ * 创建多跳检索子 Agent（LangGraph 状态图）
+ *
+ *   START → plan（拆解问题）→ retrieve（逐个检索）→ assess（证据够不够？）
+ *                                  ↑                      ├─ 不够且没超轮数 → 回到 retrieve
+ *                                  └──────────────────────┘
+ *                                                         └─ 够了 → compose（汇总作答）→ END
+ *
+ * @param searchTool - 知识库检索工具（已按对话范围限定知识库），每次检索都作为一次工具调用执行
+ */
+export function createKnowledgeResearchAgent(searchTool: StructuredToolInterface) {
+  const model = createChatModel("utility", { temperature: 0 });
+  const internal = { tags: [INTERNAL_RUN_TAG] };
+
+  const planner = model
+    .withStructuredOutput(planSchema, { name: "plan_queries" })
+    .withConfig(internal);
+  const assessor = model
+    .withStructuredOutput(assessSchema, { name: "assess_evidence" })
+    .withConfig(internal);
+  const composer = model.withConfig(internal);
+
+  const plan = async (state: typeof ResearchState.State, config?: RunnableConfig) => {
+    const { queries } = await planner.invoke(
+      "把下面的问题拆解成若干个独立的知识库检索关键词，每个关键词只查一个信息点（制度条款、标准、数字等）。" +
+        `最多 ${MAX_QUERIES_PER_HOP} 个。\n\n问题：${state.question}`,
+      config
+    );
+    const pending = queries.map((q) => q.trim()).filter(Boolean).slice(0, MAX_QUERIES_PER_HOP);
+    return { pending: pending.length > 0 ? pending : [state.question] };
+  };
+
+  const retrieve = async (state: typeof ResearchState.State, config?: RunnableConfig) => {
+    const evidence: Evidence[] = [];
+    for (const query of state.pending) {
+      const output = await searchTool.invoke({ query }, config);
+      evidence.push({ query, result: typeof output === "string" ? output : String(output?.content ?? output) });
+    }
+    return { evidence, pending: [], hops: state.hops + 1 };
+  };
+
+  const assess = async (state: typeof ResearchState.State, config?: RunnableConfig) => {
+    if (state.hops >= MAX_RESEARCH_HOPS) return { sufficient: true };
+    const searched = new Set(state.evidence.map((e) => e.query));
+    const verdict = await assessor.invoke(
+      "判断下面的检索资料是否足以完整、准确地回答问题（包括需要计算的每一项数字）。" +
+        "不够时给出需要补充检索的关键词。\n\n" +
+        `问题：${state.question}\n\n已检索的资料：\n${formatEvidence(state.evidence)}`,
+      config
+    );
+    const followUp = verdict.followUpQueries
+      .map((q) => q.trim())
+      .filter((q) => q && !searched.has(q))
+      .slice(0, MAX_QUERIES_PER_HOP);
+    if (verdict.sufficient || followUp.length === 0) return { sufficient: true };
+    return { sufficient: false, pending: followUp };
+  };
+
+  const compose = async (state: typeof ResearchState.State, config?: RunnableConfig) => {
+    const response = await composer.invoke(
+      "根据下面的知识库资料回答问题。要求：\n" +
+        "1. 只使用资料中的信息，资料没有的写明「知识库中未找到」，不要编造\n" +
+        "2. 涉及金额、天数等计算时，逐项列出依据和算式，再给出结果\n" +
+        "3. 用到某段资料时，在句末原样保留它的引用标记（如 [^kb-12]）\n\n" +
+        `问题：${state.question}\n\n资料：\n${formatEvidence(state.evidence)}`,
+      config
+    );
+    return { answer: typeof response.content === "string" ? response.content : "" };
+  };
+
+  return new StateGraph(ResearchState)
+    .addNode("plan", plan)
+    .addNode("retrieve", retrieve)
+    .addNode("assess", assess)
+    .addNode("compose", compose)
+    .addEdge(START, "plan")
+    .addEdge("plan", "retrieve")
+    .addEdge("retrieve", "assess")
+    .addConditionalEdges("assess", (state) => (state.sufficient ? "compose" : "retrieve"), [
+      "compose",
+      "retrieve",
+    ])
+    .addEdge("compose", END)
+    .compile();
+}
+
+/**
+ * 把多跳检索子 Agent 包装成工具，和普通的 search_knowledge_base 一起交给主 Agent
+ * 简单问题主 Agent 直接查一次知识库；需要跨多个章节查资料再计算的问题调这个工具
+ */
+export function createKnowledgeResearchTool(searchTool: StructuredToolInterface) {
+  const agent = createKnowledgeResearchAgent(searchTool);
+  return tool(
+    async ({ question }, config) => {
+      const result = await agent.invoke({ question }, config);
+      if (!result.answer) return "多跳检索没有得到结论，请直接使用 search_knowledge_base 检索。";
+      return (
+        `【多跳检索结论（共 ${result.hops} 轮，${result.evidence.length} 次检索）】\n${result.answer}\n\n` +
+        "（请基于以上结论回答用户，并保留其中的引用标记）"
+      );
+    },
+    {
+      name: "research_knowledge_base",
+      description:
+        "多步知识库研究：自动把复杂问题拆成多个检索、检查资料是否充分、不够再补充检索，最后汇总出带计算过程的结论。" +
+        "当问题需要同时查多条制度或标准并综合计算时使用（例如「出差去上海住两晚加餐补一共能报多少」）；" +
+        "只查一个信息点时直接用 search_knowledge_base。传入用户的完整问题。",
+      schema: z.object({
+        question: z.string().describe("用户的完整问题，保留所有条件（地点、天数、人数等）"),
+      }),
+    }
+  );
+}
+
+// ========================================
+// 模型调用容错：重试 + 熔断 + 备用模型
+// ========================================
+
+/**
+ * 以前模型接口返回 429 / 5xx 或超时，工具模式只能推一个「生成出错」，发布快速通道干脆不重试。
+ * 现在所有对话模型调用都经过这一层：
+ *
+ *   1. 重试：临时性错误（429、5xx、超时、连接断开）按指数退避重试 MODEL_RETRY_LIMIT 次，
+ *      接口给了 Retry-After 就按它等
+ *   2. 熔断：同一个供应商连续失败 CIRCUIT_FAILURE_THRESHOLD 次后熔断 CIRCUIT_COOLDOWN_MS，
+ *      期间直接跳过它的模型；冷却后放一次请求试探，成功就恢复
+ *   3. 备用模型：重试用完或供应商已熔断时，按 models.ts 配置的备用链换下一个模型，
+ *      并通过 onFallback 通知调用方（路由推 notice SSE）
+ *
+ * 只在还没有输出任何内容时重试 / 换模型：已经流出去的 token 收不回来，中途断开直接报错
+ */
+
+/** 备用模型接管时发出的自定义事件名（streamEvents 里是 on_custom_event） */
+export const MODEL_FALLBACK_EVENT = "model_fallback";
+/** 每次模型调用带上的 metadata 键，值是注册表里的模型 id（路由据此记录实际回答的模型） */
+export const MODEL_ID_METADATA_KEY = "model_id";
+/** 单次请求等待响应的超时（毫秒），超时按临时性错误处理 */
+export const MODEL_REQUEST_TIMEOUT_MS = 60_000;
+
+const MODEL_RETRY_LIMIT = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+
+export interface ModelFallbackNotice {
+  /** 失败的模型 id */
+  from: string;
+  /** 接管的模型 id */
+  to: string;
+  /** 接管模型的显示名 */
+  label: string;
+  reason: string;
+}
+
+/** 模型接口返回了错误状态码（直接 fetch 调用时用，LangChain 的错误自带 status） */
+export class ModelRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+/** 主模型和备用模型都不可用 */
+export class ModelUnavailableError extends Error {}
+
+/** 临时性错误：值得重试或换备用模型；参数错误、鉴权失败这类换了模型也没用的直接抛出 */
+export function isTransientModelError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  const name = error instanceof Error ? error.name : "";
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    /Timeout|APIConnectionError/.test(name) ||
+    /timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network/i.test(message)
+  );
+}
+
+function describeModelError(error: unknown): string {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") return `HTTP ${status}`;
+  return error instanceof Error ? error.message.slice(0, 100) : String(error);
+}
+
+/** 第 attempt 次重试前等多久：优先 Retry-After，否则指数退避 + 抖动 */
+function retryDelay(error: unknown, attempt: number): number {
+  const retryAfterMs =
+    error instanceof ModelRequestError
+      ? error.retryAfterMs
+      : Number((error as { headers?: Record<string, string> })?.headers?.["retry-after"]) * 1000;
+  if (retryAfterMs && retryAfterMs > 0) return Math.min(retryAfterMs, RETRY_MAX_DELAY_MS);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 250, RETRY_MAX_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// 供应商 id → 连续失败次数和熔断截止时间（进程内共享）
+const circuits = new Map<string, { failures: number; openUntil: number }>();
+
+function isCircuitOpen(provider: string): boolean {
+  const circuit = circuits.get(provider);
+  return !!circuit && circuit.openUntil > Date.now();
+}
+
+function recordModelSuccess(provider: string) {
+  circuits.delete(provider);
+}
+
+function recordModelFailure(provider: string) {
+  const circuit = circuits.get(provider) ?? { failures: 0, openUntil: 0 };
+  circuit.failures++;
+  // 达到阈值后每次失败（包括冷却后的试探请求）都重新熔断
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.warn(`⚡ 模型供应商 ${provider} 连续失败 ${circuit.failures} 次，熔断 ${CIRCUIT_COOLDOWN_MS / 1000}s`);
+  }
+  circuits.set(provider, circuit);
+}
+
+export interface FallbackOptions {
+  signal?: AbortSignal;
+  /** 换到备用模型时调用（第一个模型不调用） */
+  onFallback?: (notice: ModelFallbackNotice) => void | Promise<void>;
+}
+
+/**
+ * 按备用链依次调用，每个模型按重试策略重试；返回结果和实际成功的模型
+ * call 应该在拿到第一段输出后就返回（之后的失败不再重试）
+ */
+export async function callWithFallback<T>(
+  chain: ModelConfig[],
+  call: (model: ModelConfig) => Promise<T>,
+  options: FallbackOptions = {}
+): Promise<{ result: T; model: ModelConfig }> {
+  let lastReason = "";
+  let failedModel: ModelConfig | null = null;
+
+  for (const [index, model] of chain.entries()) {
+    // 供应商熔断中就跳过；后面的模型也全都熔断时仍然试一下，总比直接报错好
+    if (
+      isCircuitOpen(model.provider) &&
+      chain.slice(index + 1).some((m) => !isCircuitOpen(m.provider))
+    ) {
+      failedModel ??= model;
+      lastReason ||= `${model.provider} 熔断中`;
+      continue;
+    }
+    if (failedModel) {
+      await options.onFallback?.({
+        from: failedModel.id,
+        to: model.id,
+        label: model.label,
+        reason: lastReason,
+      });
+    }
+    for (let attempt = 0; attempt <= MODEL_RETRY_LIMIT; attempt++) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      try {
+        const result = await call(model);
+        recordModelSuccess(model.provider);
+        return { result, model };
+      } catch (error) {
+        if (options.signal?.aborted || !isTransientModelError(error)) throw error;
+        lastReason = describeModelError(error);
+        recordModelFailure(model.provider);
+        console.warn(`🔁 模型 ${model.id} 调用失败（第 ${attempt + 1} 次）: ${lastReason}`);
+        if (attempt === MODEL_RETRY_LIMIT || isCircuitOpen(model.provider)) break;
+        await sleep(retryDelay(error, attempt), options.signal);
+      }
+    }
+    failedModel = model;
+  }
+  throw new ModelUnavailableError(
+    `模型服务暂时不可用（已重试并尝试 ${chain.length} 个模型）: ${lastReason}`
+  );
+}
+
+/** 备用链上的一个模型：配置 + 已经绑好工具 / 参数的可调用对象 */
+export interface FallbackCandidate {
+  config: ModelConfig;
+  runnable: Runnable<BaseLanguageModelInput, AIMessageChunk>;
+}
+
+/**
+ * 带重试、熔断和备用模型的聊天模型（包一层 Runnable，可以直接 invoke / stream）
+ * 没传 onFallback 时，换模型会以 MODEL_FALLBACK_EVENT 自定义事件发到当前运行的 streamEvents 里
+ */
+export class ResilientChatModel extends Runnable<BaseLanguageModelInput, AIMessageChunk> {
+  lc_namespace = ["cortex", "resilient_chat_model"];
+
+  private readonly candidates: FallbackCandidate[];
+  private readonly onFallback?: FallbackOptions["onFallback"];
+
+  constructor(candidates: FallbackCandidate[], onFallback?: FallbackOptions["onFallback"]) {
+    super();
+    this.candidates = candidates.map((c) => ({
+      ...c,
+      runnable: c.runnable.withConfig({ metadata: { [MODEL_ID_METADATA_KEY]: c.config.id } }),
+    }));
+    this.onFallback = onFallback;
+  }
+
+  async *_streamIterator(
+    input: BaseLanguageModelInput,
+    options?: Partial<RunnableConfig>
+  ): AsyncGenerator<AIMessageChunk> {
+    const runnables = new Map(this.candidates.map((c) => [c.config.id, c.runnable]));
+    const { result } = await callWithFallback(
+      this.candidates.map((c) => c.config),
+      async (model) => {
+        // 拿到第一段输出才算调用成功：请求阶段的失败都在这之前抛出
+        const stream = await runnables.get(model.id)!.stream(input, options);
+        const iterator = stream[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      },
+      {
+        signal: options?.signal,
+        onFallback:
+          this.onFallback ??
+          (async (notice) => {
+            console.warn(`🔀 备用模型接管: ${notice.from} → ${notice.to}（${notice.reason}）`);
+            await dispatchCustomEvent(MODEL_FALLBACK_EVENT, notice, options).catch(() => {});
+          }),
+      }
+    );
+    if (result.first.done) return;
+    yield result.first.value;
+    for (let next = await result.iterator.next(); !next.done; next = await result.iterator.next()) {
+      yield next.value;
+    }
+  }
+
+  async invoke(input: BaseLanguageModelInput, options?: Partial<RunnableConfig>): Promise<AIMessageChunk> {
+    let message: AIMessageChunk | undefined;
+    for await (const chunk of this._streamIterator(input, options)) {
+      message = message ? message.concat(chunk) : chunk;
+    }
+    return message ?? new AIMessageChunk({ content: "" });
+  }
+}
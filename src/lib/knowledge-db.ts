@@ -0,0 +1,491 @@
+/**
+ * ========== 知识库数据库管理 ==========
+ *
+ * 知识库文档和切分后的文本块都存在 PostgreSQL 里：
+ * - chat_knowledge_bases：具名知识库（HR 制度、产品规格、值班手册……），
+ *   归属某个用户，或设为共享让所有人可见
+ * - chat_knowledge_documents：一行一个文档（原文 + 内容哈希），属于某个知识库
+ * - chat_knowledge_chunks：文档切分后的文本块 + Embedding 向量（REAL[]）
+ *
+ * 内置一个共享的「公司知识库」（id = default，归属 system），
+ * knowledge/ 目录同步进来的文档都放在这里
+ *
+ * 本模块只负责存取；切分、向量化、检索在 rag.ts 里。
+ */
+
+import { getPool } from "./pg";
+
+/** 系统内置资源的归属（内置知识库、knowledge/ 目录同步的文档） */
+export const SYSTEM_OWNER = "system";
+export const DEFAULT_KNOWLEDGE_BASE_ID = "default";
+
+export interface KnowledgeBase {
+  id: string;
+  name: string;
+  description: string;
+  /** 归属用户；内置知识库为 'system' */
+  owner_id: string;
+  /** 共享：所有登录用户都能检索 */
+  shared: boolean;
+  document_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  knowledge_base_id: string;
+  title: string;
+  /** 原始文件名（knowledge/ 目录同步进来的文档也用文件名） */
+  source: string;
+  file_type: string;
+  content_hash: string;
+  chunk_count: number;
+  /** 上传者 user_id；从 knowledge/ 目录同步的文档为 'system' */
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** 一个文本块（检索时使用，带所属文档的信息） */
+export interface KnowledgeChunk {
+  id: number;
+  document_id: string;
+  knowledge_base_id: string;
+  title: string;
+  source: string;
+  chunk_index: number;
+  /** 文本块在原文中的起始字符位置（引用定位用） */
+  char_offset: number;
+  /** 所在章节的标题路径（见 chunkers.ts） */
+  heading_path: string[];
+  /** PDF 页码，其他类型为 null */
+  page: number | null;
+  content: string;
+  embedding: number[] | null;
+}
+
+/** 写入时的文本块 */
+export interface ChunkInput {
+  content: string;
+  contentHash: string;
+  offset: number;
+  headingPath: string[];
+  page: number | null;
+  embedding: number[] | null;
+}
+
+// 列表接口返回的列（不含原文）
+const DOCUMENT_COLUMNS =
+  "id, knowledge_base_id, title, source, file_type, content_hash, chunk_count, created_by, created_at, updated_at";
+
+let tableInitialized = false;
+
+export async function ensureKnowledgeTables(): Promise<void> {
+  if (tableInitialized) return;
+
+  const pool = getPool();
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS chat_knowledge_bases (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      owner_id TEXT NOT NULL,
+      shared BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_chat_knowledge_bases_owner ON chat_knowledge_bases(owner_id);
+
+    INSERT INTO chat_knowledge_bases (id, name, description, owner_id, shared)
+    VALUES ('${DEFAULT_KNOWLEDGE_BASE_ID}', '公司知识库', '员工手册、公司制度和产品资料', '${SYSTEM_OWNER}', true)
+    ON CONFLICT (id) DO NOTHING;
+
+    CREATE TABLE IF NOT EXISTS chat_knowledge_documents (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      source TEXT NOT NULL,
+      file_type TEXT NOT NULL DEFAULT '',
+      content TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      chunk_count INTEGER NOT NULL DEFAULT 0,
+      created_by TEXT NOT NULL DEFAULT '',
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS chat_knowledge_chunks (
+      id SERIAL PRIMARY KEY,
+      document_id TEXT NOT NULL REFERENCES chat_knowledge_documents(id) ON DELETE CASCADE,
+      chunk_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      embedding REAL[],
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_chat_knowledge_chunks_doc ON chat_knowledge_chunks(document_id);
+
+    -- 兼容已有表：多知识库之前的文档都归入内置的公司知识库
+    ALTER TABLE chat_knowledge_documents ADD COLUMN IF NOT EXISTS knowledge_base_id TEXT NOT NULL
+      DEFAULT '${DEFAULT_KNOWLEDGE_BASE_ID}' REFERENCES chat_knowledge_bases(id) ON DELETE CASCADE;
+    CREATE INDEX IF NOT EXISTS idx_chat_knowledge_documents_kb ON chat_knowledge_documents(knowledge_base_id);
+
+    -- 文本块在原文中的起始位置；已有数据按原文查找回填（找不到记 0）
+    ALTER TABLE chat_knowledge_chunks ADD COLUMN IF NOT EXISTS char_offset INTEGER;
+    UPDATE chat_knowledge_chunks c
+       SET char_offset = GREATEST(strpos(d.content, c.content) - 1, 0)
+      FROM chat_knowledge_documents d
+     WHERE d.id = c.document_id AND c.char_offset IS NULL;
+
+    -- 按文档类型切分后的章节路径和页码；旧数据 heading_path 为 NULL，下次同步 / 重新索引时按新切分器重建
+    ALTER TABLE chat_knowledge_chunks ADD COLUMN IF NOT EXISTS heading_path TEXT[];
+    ALTER TABLE chat_knowledge_chunks ADD COLUMN IF NOT EXISTS page INTEGER;
+  `);
+  tableInitialized = true;
+}
+
+// ===== 知识库 =====
+
+const KNOWLEDGE_BASE_SELECT = `
+  SELECT b.id, b.name, b.description, b.owner_id, b.shared, b.created_at, b.updated_at,
+    (SELECT COUNT(*)::int FROM chat_knowledge_documents d WHERE d.knowledge_base_id = b.id) AS document_count
+  FROM chat_knowledge_bases b`;
+
+/** 用户能看到的知识库：自己的 + 共享的（内置知识库排最前） */
+export async function listKnowledgeBases(
+  userId: string
+): Promise<KnowledgeBase[]> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    `${KNOWLEDGE_BASE_SELECT}
+     WHERE b.owner_id = $1 OR b.shared
+     ORDER BY b.id = '${DEFAULT_KNOWLEDGE_BASE_ID}' DESC, b.created_at`,
+    [userId]
+  );
+  return rows;
+}
+
+export async function getKnowledgeBase(
+  id: string
+): Promise<KnowledgeBase | undefined> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(`${KNOWLEDGE_BASE_SELECT} WHERE b.id = $1`, [
+    id,
+  ]);
+  return rows[0];
+}
+
+/** 是否可以检索（自己的或共享的） */
+export function canReadKnowledgeBase(kb: KnowledgeBase, userId: string): boolean {
+  return kb.shared || kb.owner_id === userId;
+}
+
+/** 是否可以管理（改名、上传 / 删除文档）：归属者本人；内置知识库由管理员管理 */
+export function canManageKnowledgeBase(
+  kb: KnowledgeBase,
+  userId: string,
+  isAdmin: boolean
+): boolean {
+  return kb.owner_id === userId || (kb.owner_id === SYSTEM_OWNER && isAdmin);
+}
+
+/**
+ * 解析当前对话可检索的知识库
+ * ids 为 null 表示没有绑定，返回用户能看到的全部知识库；
+ * 绑定了但已删除 / 无权访问的 id 会被忽略
+ */
+export async function resolveKnowledgeScope(
+  userId: string,
+  ids: string[] | null
+): Promise<KnowledgeBase[]> {
+  const visible = await listKnowledgeBases(userId);
+  if (!ids) return visible;
+  return visible.filter((kb) => ids.includes(kb.id));
+}
+
+/** 校验请求里的知识库绑定参数：字符串数组（null 另行处理，表示取消绑定） */
+export function isKnowledgeBaseIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+export async function createKnowledgeBase(
+  userId: string,
+  name: string,
+  description: string = "",
+  shared: boolean = false
+): Promise<KnowledgeBase> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const id = "kb_" + crypto.randomUUID().replace(/-/g, "").slice(0, 12);
+  await pool.query(
+    `INSERT INTO chat_knowledge_bases (id, name, description, owner_id, shared)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [id, name, description, userId, shared]
+  );
+  return (await getKnowledgeBase(id))!;
+}
+
+/** 修改知识库（只有归属者本人可以改） */
+export async function updateKnowledgeBase(
+  id: string,
+  userId: string,
+  patch: { name?: string; description?: string; shared?: boolean }
+): Promise<KnowledgeBase | undefined> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+
+  const sets: string[] = [];
+  const params: unknown[] = [id, userId];
+  const push = (column: string, value: unknown) => {
+    params.push(value);
+    sets.push(`${column} = $${params.length}`);
+  };
+  if (patch.name !== undefined) push("name", patch.name);
+  if (patch.description !== undefined) push("description", patch.description);
+  if (patch.shared !== undefined) push("shared", patch.shared);
+  if (sets.length === 0) return undefined;
+
+  const result = await pool.query(
+    `UPDATE chat_knowledge_bases SET ${sets.join(", ")}, updated_at = NOW()
+     WHERE id = $1 AND owner_id = $2`,
+    params
+  );
+  if (!result.rowCount) return undefined;
+  return getKnowledgeBase(id);
+}
+
+/** 删除知识库（只有归属者本人可以删，文档和文本块级联删除） */
+export async function deleteKnowledgeBase(
+  id: string,
+  userId: string
+): Promise<boolean> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "DELETE FROM chat_knowledge_bases WHERE id = $1 AND owner_id = $2",
+    [id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// ===== 文档 =====
+
+/** 文档列表（新的在前），传 knowledgeBaseId 时只列该知识库的文档 */
+export async function listDocuments(
+  knowledgeBaseId?: string
+): Promise<KnowledgeDocument[]> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = knowledgeBaseId
+    ? await pool.query(
+        `SELECT ${DOCUMENT_COLUMNS} FROM chat_knowledge_documents
+         WHERE knowledge_base_id = $1 ORDER BY updated_at DESC`,
+        [knowledgeBaseId]
+      )
+    : await pool.query(
+        `SELECT ${DOCUMENT_COLUMNS} FROM chat_knowledge_documents ORDER BY updated_at DESC`
+      );
+  return rows;
+}
+
+export async function getDocument(
+  id: string
+): Promise<KnowledgeDocument | undefined> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    `SELECT ${DOCUMENT_COLUMNS} FROM chat_knowledge_documents WHERE id = $1`,
+    [id]
+  );
+  return rows[0];
+}
+
+/** 某文档当前的文本块（按 content_hash 复用向量用） */
+export async function getDocumentChunkEmbeddings(
+  documentId: string
+): Promise<{ content_hash: string; embedding: number[] | null; heading_path: string[] | null }[]> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    "SELECT content_hash, embedding, heading_path FROM chat_knowledge_chunks WHERE document_id = $1",
+    [documentId]
+  );
+  return rows;
+}
+
+/**
+ * 取若干知识库里全部文档的原文（评测时按别的参数重新切分用）
+ * 连同已入库文本块的向量一起返回，按内容哈希复用，省得重算
+ */
+export async function loadDocumentsForEval(knowledgeBaseIds: string[]): Promise<{
+  documents: (KnowledgeDocument & { content: string })[];
+  embeddings: Map<string, number[]>;
+}> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows: documents } = await pool.query(
+    `SELECT ${DOCUMENT_COLUMNS}, content FROM chat_knowledge_documents
+     WHERE knowledge_base_id = ANY($1::text[]) ORDER BY id`,
+    [knowledgeBaseIds]
+  );
+  const { rows: chunks } = await pool.query(
+    `SELECT c.content_hash, c.embedding FROM chat_knowledge_chunks c
+     JOIN chat_knowledge_documents d ON d.id = c.document_id
+     WHERE d.knowledge_base_id = ANY($1::text[]) AND c.embedding IS NOT NULL`,
+    [knowledgeBaseIds]
+  );
+  const embeddings = new Map<string, number[]>();
+  for (const c of chunks) embeddings.set(c.content_hash, c.embedding);
+  return { documents, embeddings };
+}
+
+/**
+ * 写入（新建或覆盖）一个文档及其全部文本块，在一个事务里完成，
+ * 检索方不会看到"文档已更新、文本块还是旧的"的中间状态
+ */
+export async function saveDocument(
+  doc: {
+    id: string;
+    knowledgeBaseId: string;
+    title: string;
+    source: string;
+    fileType: string;
+    content: string;
+    contentHash: string;
+    createdBy: string;
+  },
+  chunks: ChunkInput[]
+): Promise<KnowledgeDocument> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const { rows } = await client.query(
+      `INSERT INTO chat_knowledge_documents (id, title, source, file_type, content, content_hash, chunk_count, created_by, knowledge_base_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (id) DO UPDATE SET
+         knowledge_base_id = EXCLUDED.knowledge_base_id,
+         title = EXCLUDED.title,
+         source = EXCLUDED.source,
+         file_type = EXCLUDED.file_type,
+         content = EXCLUDED.content,
+         content_hash = EXCLUDED.content_hash,
+         chunk_count = EXCLUDED.chunk_count,
+         updated_at = NOW()
+       RETURNING ${DOCUMENT_COLUMNS}`,
+      [
+        doc.id,
+        doc.title,
+        doc.source,
+        doc.fileType,
+        doc.content,
+        doc.contentHash,
+        chunks.length,
+        doc.createdBy,
+        doc.knowledgeBaseId,
+      ]
+    );
+    await client.query(
+      "DELETE FROM chat_knowledge_chunks WHERE document_id = $1",
+      [doc.id]
+    );
+    for (let i = 0; i < chunks.length; i++) {
+      await client.query(
+        `INSERT INTO chat_knowledge_chunks (document_id, chunk_index, char_offset, heading_path, page, content, content_hash, embedding)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          doc.id,
+          i,
+          chunks[i].offset,
+          chunks[i].headingPath,
+          chunks[i].page,
+          chunks[i].content,
+          chunks[i].contentHash,
+          chunks[i].embedding,
+        ]
+      );
+    }
+    await client.query("COMMIT");
+    return rows[0];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/** 修改文档标题 */
+export async function renameDocument(
+  id: string,
+  title: string
+): Promise<KnowledgeDocument | undefined> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    `UPDATE chat_knowledge_documents SET title = $2, updated_at = NOW()
+     WHERE id = $1 RETURNING ${DOCUMENT_COLUMNS}`,
+    [id, title]
+  );
+  return rows[0];
+}
+
+/** 删除文档（文本块级联删除） */
+export async function deleteDocument(id: string): Promise<boolean> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const result = await pool.query(
+    "DELETE FROM chat_knowledge_documents WHERE id = $1",
+    [id]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * 各知识库的版本号：文档数 + 最后更新时间 + 文本块数
+ * 检索侧按知识库缓存索引，用它判断缓存是否过期（多实例部署时也能感知别的实例的写入）
+ * 没有文本块的知识库不在结果里
+ */
+export async function getKnowledgeVersions(
+  knowledgeBaseIds: string[]
+): Promise<Map<string, string>> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    `SELECT d.knowledge_base_id,
+            COUNT(DISTINCT d.id) AS docs,
+            MAX(d.updated_at) AS updated,
+            COUNT(c.id) AS chunks
+     FROM chat_knowledge_documents d
+     JOIN chat_knowledge_chunks c ON c.document_id = d.id
+     WHERE d.knowledge_base_id = ANY($1)
+     GROUP BY d.knowledge_base_id`,
+    [knowledgeBaseIds]
+  );
+  const time = (t: string | null) => (t ? new Date(t).getTime() : 0);
+  return new Map(
+    rows.map((row) => [
+      row.knowledge_base_id as string,
+      `${row.docs}:${time(row.updated)}:${row.chunks}`,
+    ])
+  );
+}
+
+/** 加载一个知识库的全部文本块（检索索引用） */
+export async function loadKnowledgeBaseChunks(knowledgeBaseId: string): Promise<KnowledgeChunk[]> {
+  await ensureKnowledgeTables();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    `SELECT c.id, c.document_id, d.knowledge_base_id, d.title, d.source, c.chunk_index, COALESCE(c.char_offset, 0) AS char_offset,
+            COALESCE(c.heading_path, '{}') AS heading_path, c.page, c.content, c.embedding
+     FROM chat_knowledge_chunks c
+     JOIN chat_knowledge_documents d ON d.id = c.document_id
+     WHERE d.knowledge_base_id = $1
+     ORDER BY c.document_id, c.chunk_index`,
+    [knowledgeBaseId]
+  );
+  return rows;
+}
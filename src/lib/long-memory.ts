@@ -1,13 +1,28 @@
 /**
  * ========== 长期记忆（PostgreSQL 版） ==========
  *
- * 短期记忆（已有）：PG 存最近 20 条消息，会话级别
+ * 短期记忆（已有）：PG 存会话消息，最近的原样带上、较早的压缩成滚动摘要（conversation-summary.ts），会话级别
  * 长期记忆（本模块）：提取对话中的关键事实，跨会话持久保存
  *
  * 工作原理：
  * 1. 对话结束后，用 AI 从对话中提取关键信息（偏好、事实、重要决定等）
- * 2. 将提取的记忆存入 PostgreSQL（带关键词，方便检索）
- * 3. 新对话开始时，根据用户输入搜索相关记忆，注入到 system prompt
+ * 2. 将提取的记忆存入 PostgreSQL（带关键词 + Embedding 向量）
+ * 3. 新对话开始时，用本地 Embedding 模型做语义检索，
+ *    按「相似度 + 重要程度 + 新近程度」综合排序，注入到 system prompt
+ *
+ * 记忆整理：
+ * - 写入前先找同一用户下语义相近的旧记忆：几乎一样的直接合并，
+ *   内容冲突的（"住在北京" → "搬到上海了"）用新内容取代旧内容，
+ *   被合并 / 取代 / 手动修改前的版本都记到 chat_memory_history
+ * - 衰减：长期没被召回的 normal 记忆每天衰减一次，排序逐渐靠后，
+ *   把有限的 prompt 名额让给更相关的事实；再次被召回时恢复
+ *
+ * 向量存储：优先用 pgvector（vector 列 + <=> 距离运算），
+ * 数据库没装 pgvector 时退化为 REAL[] 数组、在应用层算余弦相似度；
+ * Embedding 模型加载失败时再退回关键词 LIKE 匹配。
+ *
+ * 记忆按 user_id 隔离：同一部署下多个用户共用一张表，
+ * 写入、检索都必须带上当前用户，避免 A 的记忆被注入到 B 的 prompt 里。
  *
  * 这样 AI 就能"记住"用户的偏好：
  * - "你之前说喜欢吃川菜"
@@ -16,9 +31,17 @@
  */
 
 import { getPool } from "./pg";
+import { getLocalEmbeddings, cosineSimilarity, EMBEDDING_DIM } from "./rag";
+import { tokenize } from "./tokenizer";
 
 // 标记是否已初始化表
 let tableInitialized = false;
+// 数据库是否支持 pgvector（初始化时探测）
+let pgvectorAvailable = false;
+
+// 对外返回的列（不含向量列，避免把几百维的数组带进 API 响应）
+const MEMORY_COLUMNS =
+  "id, user_id, session_id, content, keywords, importance, pinned, decay, created_at, updated_at";
 
 async function ensureMemoryTable() {
   if (tableInitialized) return;
@@ -27,6 +50,7 @@ async function ensureMemoryTable() {
   await pool.query(`
     CREATE TABLE IF NOT EXISTS chat_long_memories (
       id SERIAL PRIMARY KEY,
+      user_id TEXT NOT NULL DEFAULT '',
       session_id TEXT,
       content TEXT NOT NULL,
       keywords TEXT NOT NULL DEFAULT '',
@@ -34,93 +58,722 @@ async function ensureMemoryTable() {
       created_at TIMESTAMP DEFAULT NOW()
     );
     CREATE INDEX IF NOT EXISTS idx_chat_memories_keywords ON chat_long_memories(keywords);
+
+    -- 兼容已有表：如果 user_id 列不存在则添加
+    ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS user_id TEXT NOT NULL DEFAULT '';
+    CREATE INDEX IF NOT EXISTS idx_chat_memories_user ON chat_long_memories(user_id);
+
+    -- 置顶：用户手动钉住的记忆每轮都会注入，不依赖关键词命中
+    ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+    -- 用户级记忆设置：auto_extract=false 时对话结束后不再自动提取记忆
+    CREATE TABLE IF NOT EXISTS chat_memory_settings (
+      user_id TEXT PRIMARY KEY,
+      auto_extract BOOLEAN NOT NULL DEFAULT true,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    -- 语义检索：Embedding 向量（float 数组，任何 PG 都支持）
+    ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS embedding REAL[];
+
+    -- 衰减：decay 乘到检索得分上，last_recalled_at 记录最近一次被注入 prompt 的时间
+    ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS decay REAL NOT NULL DEFAULT 1;
+    ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS last_recalled_at TIMESTAMP;
+    ALTER TABLE chat_memory_settings ADD COLUMN IF NOT EXISTS last_decay_at TIMESTAMP;
+
+    -- 历史版本：记忆被合并 / 取代 / 手动修改前的快照，记忆删除时一并删除
+    CREATE TABLE IF NOT EXISTS chat_memory_history (
+      id SERIAL PRIMARY KEY,
+      memory_id INTEGER NOT NULL REFERENCES chat_long_memories(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      session_id TEXT,
+      content TEXT NOT NULL,
+      keywords TEXT NOT NULL DEFAULT '',
+      importance TEXT NOT NULL DEFAULT 'normal',
+      action TEXT NOT NULL,
+      replaced_by TEXT,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_chat_memory_history_memory ON chat_memory_history(memory_id);
   `);
+
+  // 探测 pgvector：装了就额外维护一个 vector 列，让数据库直接按距离排序
+  try {
+    await pool.query(`CREATE EXTENSION IF NOT EXISTS vector`);
+    await pool.query(
+      `ALTER TABLE chat_long_memories ADD COLUMN IF NOT EXISTS embedding_vec vector(${EMBEDDING_DIM})`
+    );
+    pgvectorAvailable = true;
+  } catch {
+    pgvectorAvailable = false;
+    console.log("🧠 pgvector 不可用，记忆向量以 REAL[] 存储，在应用层计算相似度");
+  }
+
+  // 一次性回填：旧数据只有 session_id，通过 chat_sessions.user_id 找回归属用户
+  // 全新的库里会话表可能还没建（还没发过对话就先打开了记忆面板），这时也没有要回填的旧数据
+  const { rows } = await pool.query(`SELECT to_regclass('chat_sessions') IS NOT NULL AS exists`);
+  if (rows[0]?.exists) {
+    await pool.query(`
+      UPDATE chat_long_memories m
+      SET user_id = s.user_id
+      FROM chat_sessions s
+      WHERE m.session_id = s.id AND m.user_id = '';
+    `);
+  }
   tableInitialized = true;
 }
 
 export interface LongMemory {
   id: number;
+  user_id: string;
   session_id: string;
   content: string;
   keywords: string;
   importance: string;
+  pinned: boolean;
+  /** 衰减系数（1 = 未衰减），乘到检索得分上 */
+  decay: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** 带检索得分的记忆 */
+export interface ScoredMemory extends LongMemory {
+  /** 综合得分（相似度 + 重要程度 + 新近程度） */
+  score: number;
+  /** 与查询的余弦相似度（关键词回退模式下为 0） */
+  similarity: number;
+}
+
+export interface MemorySettings {
+  autoExtract: boolean;
+}
+
+/** 一条历史版本（被合并 / 取代 / 编辑前的快照） */
+export interface MemoryHistoryEntry {
+  id: number;
+  memory_id: number;
+  session_id: string | null;
+  content: string;
+  keywords: string;
+  importance: string;
+  /** merge = 重复合并，supersede = 被新事实取代，edit = 用户手动修改 */
+  action: "merge" | "supersede" | "edit";
+  /** 导致这次变更的新内容 */
+  replaced_by: string | null;
   created_at: string;
 }
 
 /**
- * 保存一条长期记忆
+ * 新旧记忆的关系判定
+ * - duplicate：说的是同一件事，合并
+ * - supersede：同一件事但信息变了，新的取代旧的
+ * - distinct：不相关，各自保留
+ */
+export type MemoryConflictVerdict = "duplicate" | "supersede" | "distinct";
+
+/** 冲突判定器（通常由调用方用 LLM 实现） */
+export type MemoryConflictResolver = (
+  existing: string,
+  incoming: string
+) => Promise<MemoryConflictVerdict>;
+
+export interface SaveMemoryResult {
+  id: number;
+  action: "inserted" | "merged" | "superseded";
+}
+
+/** 允许的重要程度取值（low 排序最靠后，也最先被淘汰） */
+export const MEMORY_IMPORTANCE = ["high", "normal", "low"] as const;
+export type MemoryImportance = (typeof MEMORY_IMPORTANCE)[number];
+
+// 整理参数
+const DUPLICATE_SIMILARITY = 0.92; // 高于这个相似度直接视为重复，不用再问判定器
+const CONFLICT_SIMILARITY = 0.6; // 高于这个相似度才交给判定器判断是否冲突
+const CONFLICT_CANDIDATES = 3; // 最多拿几条相近的旧记忆去比对
+
+const IMPORTANCE_RANK: Record<string, number> = { high: 2, normal: 1, low: 0 };
+
+/**
+ * 保存一条长期记忆（归属到 userId），写入前先做去重 / 冲突整理
+ *
+ * 1. 找该用户语义最相近的几条旧记忆
+ * 2. 相似度极高 → 合并到旧记忆（合并关键词、取较高的重要程度）
+ * 3. 相似度较高 → 交给 resolveConflict 判定：重复则合并，冲突则用新内容取代旧内容
+ * 4. 都不是 → 新插入一条
+ *
+ * 合并 / 取代前的旧版本会写入 chat_memory_history。
+ * Embedding 模型不可用时只做内容完全相同的去重。
  */
 export async function saveMemory(
+  userId: string,
   sessionId: string,
   content: string,
   keywords: string,
-  importance: string = "normal"
-): Promise<void> {
+  importance: string = "normal",
+  resolveConflict?: MemoryConflictResolver
+): Promise<SaveMemoryResult> {
   await ensureMemoryTable();
   const pool = getPool();
-  await pool.query(
-    "INSERT INTO chat_long_memories (session_id, content, keywords, importance) VALUES ($1, $2, $3, $4)",
-    [sessionId, content, keywords, importance]
+
+  let vector: number[] | null = null;
+  try {
+    vector = await getLocalEmbeddings().embedQuery(content);
+  } catch (error) {
+    console.warn("记忆向量化失败，只做完全相同的去重:", error);
+  }
+
+  let target: LongMemory | undefined;
+  let verdict: MemoryConflictVerdict = "distinct";
+
+  if (vector) {
+    const similar = await nearestMemories(userId, vector, CONFLICT_CANDIDATES);
+    for (const candidate of similar) {
+      if (candidate.similarity >= DUPLICATE_SIMILARITY) {
+        verdict = "duplicate";
+      } else if (candidate.similarity >= CONFLICT_SIMILARITY && resolveConflict) {
+        verdict = await resolveConflict(candidate.content, content).catch(
+          (err) => {
+            console.warn("记忆冲突判定失败，按不相关处理:", err);
+            return "distinct" as const;
+          }
+        );
+      }
+      if (verdict !== "distinct") {
+        target = candidate;
+        break;
+      }
+    }
+  } else {
+    const { rows } = await pool.query(
+      `SELECT ${MEMORY_COLUMNS} FROM chat_long_memories WHERE user_id = $1 AND content = $2 LIMIT 1`,
+      [userId, content]
+    );
+    if (rows[0]) {
+      target = rows[0] as LongMemory;
+      verdict = "duplicate";
+    }
+  }
+
+  if (target && verdict === "duplicate") {
+    await recordHistory(target.id, "merge", content);
+    await pool.query(
+      `UPDATE chat_long_memories
+       SET keywords = $2, importance = $3, decay = 1, updated_at = NOW()
+       WHERE id = $1`,
+      [
+        target.id,
+        mergeKeywords(target.keywords, keywords),
+        higherImportance(target.importance, importance),
+      ]
+    );
+    console.log(`🧠 合并重复记忆 #${target.id}: ${content.slice(0, 50)}...`);
+    return { id: target.id, action: "merged" };
+  }
+
+  if (target && verdict === "supersede") {
+    await recordHistory(target.id, "supersede", content);
+    await pool.query(
+      `UPDATE chat_long_memories
+       SET content = $2, keywords = $3, importance = $4, session_id = $5, decay = 1, updated_at = NOW()
+       WHERE id = $1`,
+      [target.id, content, keywords, importance, sessionId]
+    );
+    await embedMemory(target.id, content, vector ?? undefined);
+    console.log(`🧠 更新记忆 #${target.id}: ${target.content.slice(0, 30)} → ${content.slice(0, 30)}`);
+    return { id: target.id, action: "superseded" };
+  }
+
+  const { rows } = await pool.query(
+    "INSERT INTO chat_long_memories (user_id, session_id, content, keywords, importance) VALUES ($1, $2, $3, $4, $5) RETURNING id",
+    [userId, sessionId, content, keywords, importance]
   );
+  await embedMemory(rows[0].id, content, vector ?? undefined);
   console.log(`🧠 保存长期记忆: ${content.slice(0, 50)}...`);
+  return { id: rows[0].id, action: "inserted" };
+}
+
+/** 把某条记忆的当前版本写入历史表（在修改之前调用） */
+async function recordHistory(
+  memoryId: number,
+  action: MemoryHistoryEntry["action"],
+  replacedBy: string
+): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `INSERT INTO chat_memory_history (memory_id, user_id, session_id, content, keywords, importance, action, replaced_by)
+     SELECT id, user_id, session_id, content, keywords, importance, $2, $3
+     FROM chat_long_memories WHERE id = $1`,
+    [memoryId, action, replacedBy]
+  );
+}
+
+/** 合并两组逗号分隔的关键词（去重，保持原顺序） */
+function mergeKeywords(a: string, b: string): string {
+  const words = [...a.split(/[,，]/), ...b.split(/[,，]/)]
+    .map((w) => w.trim())
+    .filter(Boolean);
+  return [...new Set(words)].join(",");
+}
+
+function higherImportance(a: string, b: string): string {
+  return (IMPORTANCE_RANK[b] ?? 1) > (IMPORTANCE_RANK[a] ?? 1) ? b : a;
+}
+
+/**
+ * 计算并写入某条记忆的向量（模型不可用时静默跳过，检索会回退到关键词）
+ */
+async function embedMemory(
+  id: number,
+  content: string,
+  precomputed?: number[]
+): Promise<void> {
+  let vector: number[];
+  try {
+    vector = precomputed ?? (await getLocalEmbeddings().embedQuery(content));
+  } catch (error) {
+    console.warn("记忆向量化失败，跳过:", error);
+    return;
+  }
+  const pool = getPool();
+  if (pgvectorAvailable) {
+    await pool.query(
+      "UPDATE chat_long_memories SET embedding = $2, embedding_vec = $3::vector WHERE id = $1",
+      [id, vector, toVectorLiteral(vector)]
+    );
+  } else {
+    await pool.query(
+      "UPDATE chat_long_memories SET embedding = $2 WHERE id = $1",
+      [id, vector]
+    );
+  }
 }
 
 /**
- * 搜索相关记忆
- * 使用简单的关键词匹配（LIKE 查询）
+ * 给还没有向量的旧记忆补算 Embedding（每次最多补 batch 条）
+ * pgvector 模式下 embedding_vec 为空的也要补：装 pgvector 之前（数组模式下）写入的记忆只有 embedding 列，
+ * 不补的话库内检索永远找不到它们。维度对得上的直接转换，对不上的重新计算
+ */
+async function backfillEmbeddings(userId: string, batch: number = 20) {
+  const pool = getPool();
+  if (pgvectorAvailable) {
+    await pool.query(
+      `UPDATE chat_long_memories SET embedding_vec = embedding::vector(${EMBEDDING_DIM})
+       WHERE user_id = $1 AND embedding_vec IS NULL AND embedding IS NOT NULL
+         AND array_length(embedding, 1) = ${EMBEDDING_DIM}`,
+      [userId]
+    );
+  }
+  const { rows } = await pool.query(
+    `SELECT id, content FROM chat_long_memories
+     WHERE user_id = $1 AND ${pgvectorAvailable ? "embedding_vec IS NULL" : "embedding IS NULL"}
+     ORDER BY created_at DESC LIMIT $2`,
+    [userId, batch]
+  );
+  for (const row of rows as { id: number; content: string }[]) {
+    await embedMemory(row.id, row.content);
+  }
+}
+
+// 语义检索参数
+const MIN_SIMILARITY = 0.3; // 低于这个相似度的记忆视为不相关（置顶记忆除外）
+const CANDIDATE_LIMIT = 50; // pgvector 模式下先按距离取的候选数
+const SCAN_LIMIT = 500; // 数组模式下每个用户最多扫描的记忆条数
+const RECENCY_HALF_LIFE_DAYS = 30; // 新近程度半衰期
+
+// 衰减参数
+const DECAY_INTERVAL_HOURS = 24; // 每个用户多久最多衰减一次
+const STALE_AFTER_DAYS = 30; // 多少天没被召回 / 更新算"陈旧"
+const DECAY_FACTOR = 0.8; // 每次衰减乘上的系数
+const MIN_DECAY = 0.2; // 衰减下限，陈旧记忆仍可能被强相关的查询召回
+
+// 综合得分权重
+const WEIGHT_SIMILARITY = 0.7;
+const WEIGHT_IMPORTANCE = 0.2;
+const WEIGHT_RECENCY = 0.1;
+
+const IMPORTANCE_WEIGHT: Record<string, number> = {
+  high: 1,
+  normal: 0.5,
+  low: 0,
+};
+
+/**
+ * 搜索某用户的相关记忆（语义检索）
+ *
+ * 1. 用 Embedding 模型把 query 转成向量
+ * 2. 与该用户的记忆向量算余弦相似度（pgvector 在库内算，否则在应用层算）
+ * 3. 综合得分 = (相似度 × 0.7 + 重要程度 × 0.2 + 新近程度 × 0.1) × 衰减系数
+ * 4. 置顶记忆始终返回，排在最前
+ * 5. 被返回的记忆刷新 last_recalled_at 并恢复衰减
+ *
+ * 模型不可用时回退到关键词 LIKE 匹配
  */
 export async function searchMemories(
+  userId: string,
   query: string,
   limit: number = 5
-): Promise<LongMemory[]> {
+): Promise<ScoredMemory[]> {
   await ensureMemoryTable();
+
+  let queryVector: number[];
+  try {
+    queryVector = await getLocalEmbeddings().embedQuery(query);
+  } catch (error) {
+    console.warn("记忆语义检索不可用，回退到关键词匹配:", error);
+    return keywordSearchMemories(userId, query, limit);
+  }
+
+  await backfillEmbeddings(userId).catch((err) =>
+    console.warn("记忆向量回填失败:", err)
+  );
+  await decayStaleMemories(userId).catch((err) =>
+    console.warn("记忆衰减失败:", err)
+  );
+
+  const pool = getPool();
+  const { rows: pinnedRows } = await pool.query(
+    `SELECT ${MEMORY_COLUMNS} FROM chat_long_memories WHERE user_id = $1 AND pinned`,
+    [userId]
+  );
+  const candidates: (LongMemory & { similarity: number })[] = [
+    ...(await nearestMemories(userId, queryVector, CANDIDATE_LIMIT)),
+    ...(pinnedRows as LongMemory[]).map((m) => ({ ...m, similarity: 0 })),
+  ];
+
+  // 同一条置顶记忆可能同时出现在两个结果集里，按 id 去重保留相似度更高的
+  const byId = new Map<number, LongMemory & { similarity: number }>();
+  for (const c of candidates) {
+    const prev = byId.get(c.id);
+    if (!prev || c.similarity > prev.similarity) byId.set(c.id, c);
+  }
+
+  const scored: ScoredMemory[] = [...byId.values()]
+    .filter((m) => m.pinned || m.similarity >= MIN_SIMILARITY)
+    .map((m) => ({
+      ...m,
+      score: blendScore(m.similarity, m.importance, m.updated_at, m.decay),
+    }));
+
+  scored.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.score - a.score);
+  const result = scored.slice(
+    0,
+    Math.max(limit, scored.filter((m) => m.pinned).length)
+  );
+  await markRecalled(result.map((m) => m.id)).catch((err) =>
+    console.warn("记录记忆召回失败:", err)
+  );
+  return result;
+}
+
+/**
+ * 按向量找该用户最相近的记忆（按相似度降序）
+ * pgvector 在库内按距离排序；否则扫描最近 SCAN_LIMIT 条在应用层算
+ */
+async function nearestMemories(
+  userId: string,
+  vector: number[],
+  limit: number
+): Promise<(LongMemory & { similarity: number })[]> {
+  const pool = getPool();
+
+  if (pgvectorAvailable) {
+    const { rows } = await pool.query(
+      `SELECT ${MEMORY_COLUMNS}, 1 - (embedding_vec <=> $2::vector) AS similarity
+       FROM chat_long_memories
+       WHERE user_id = $1 AND embedding_vec IS NOT NULL
+       ORDER BY embedding_vec <=> $2::vector
+       LIMIT $3`,
+      [userId, toVectorLiteral(vector), limit]
+    );
+    return rows.map((r) => ({ ...r, similarity: Number(r.similarity) }));
+  }
+
+  const { rows } = await pool.query(
+    `SELECT ${MEMORY_COLUMNS}, embedding FROM chat_long_memories
+     WHERE user_id = $1 AND embedding IS NOT NULL
+     ORDER BY created_at DESC LIMIT $2`,
+    [userId, SCAN_LIMIT]
+  );
+  return (rows as (LongMemory & { embedding: number[] })[])
+    .map(({ embedding, ...memory }) => ({
+      ...memory,
+      similarity: cosineSimilarity(vector, embedding),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * 衰减陈旧记忆：STALE_AFTER_DAYS 天内没被召回也没更新过的 normal 记忆，
+ * decay 乘以 DECAY_FACTOR（不低于 MIN_DECAY）。
+ * 每个用户每 DECAY_INTERVAL_HOURS 小时最多执行一次，
+ * 用 chat_memory_settings.last_decay_at 做节流（条件 upsert，多实例下也只会跑一次）
+ */
+async function decayStaleMemories(userId: string): Promise<void> {
   const pool = getPool();
+  const claimed = await pool.query(
+    `INSERT INTO chat_memory_settings (user_id, last_decay_at) VALUES ($1, NOW())
+     ON CONFLICT (user_id) DO UPDATE SET last_decay_at = NOW()
+     WHERE chat_memory_settings.last_decay_at IS NULL
+        OR chat_memory_settings.last_decay_at < NOW() - make_interval(hours => $2)`,
+    [userId, DECAY_INTERVAL_HOURS]
+  );
+  if (!claimed.rowCount) return;
 
-  // 分词：把查询拆成关键词
-  const tokens = query
-    .replace(/[，。！？、；：""''（）【】\s\n\r]/g, " ")
-    .split(/\s+/)
-    .filter((w) => w.length >= 2);
+  const result = await pool.query(
+    `UPDATE chat_long_memories
+     SET decay = GREATEST(decay * $2, $3)
+     WHERE user_id = $1 AND importance = 'normal' AND NOT pinned AND decay > $3
+       AND COALESCE(last_recalled_at, updated_at, created_at) < NOW() - make_interval(days => $4)`,
+    [userId, DECAY_FACTOR, MIN_DECAY, STALE_AFTER_DAYS]
+  );
+  if (result.rowCount) {
+    console.log(`🧠 衰减了 ${result.rowCount} 条陈旧记忆`);
+  }
+}
 
-  if (tokens.length === 0) return [];
+/** 记录记忆被召回（注入 prompt），同时恢复衰减 */
+async function markRecalled(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const pool = getPool();
+  await pool.query(
+    "UPDATE chat_long_memories SET last_recalled_at = NOW(), decay = 1 WHERE id = ANY($1::int[])",
+    [ids]
+  );
+}
 
-  // 用 LIKE 搜索每个关键词（匹配 content 和 keywords 字段）
-  // PG 参数占位符：$1, $2, $3, ...
+/**
+ * 关键词回退检索（Embedding 模型不可用时使用）
+ * 用 ILIKE 匹配 content 和 keywords 字段，按命中的关键词数排序；
+ * 命中比例当作相似度参与综合得分
+ */
+async function keywordSearchMemories(
+  userId: string,
+  query: string,
+  limit: number
+): Promise<ScoredMemory[]> {
+  const pool = getPool();
+
+  // 分词：中文切成两字片段、英文按单词（和知识库 BM25 共用分词器），去重后最多取 20 个
+  const tokens = [...new Set(tokenize(query))].slice(0, 20);
+
+  // PG 参数占位符：$1 固定为 user_id，关键词从 $2 开始
   const conditions: string[] = [];
-  const params: string[] = [];
-  let paramIndex = 1;
+  const params: string[] = [userId];
+  let paramIndex = 2;
 
   for (const token of tokens) {
-    conditions.push(
-      `(content LIKE $${paramIndex} OR keywords LIKE $${paramIndex + 1})`
-    );
-    params.push(`%${token}%`, `%${token}%`);
-    paramIndex += 2;
+    conditions.push(`(content ILIKE $${paramIndex} OR keywords ILIKE $${paramIndex})`);
+    params.push(`%${token}%`);
+    paramIndex += 1;
   }
 
+  const matchClause = conditions.length > 0 ? ` OR ${conditions.join(" OR ")}` : "";
+  const matchedExpr =
+    conditions.length > 0
+      ? conditions.map((c) => `(CASE WHEN ${c} THEN 1 ELSE 0 END)`).join(" + ")
+      : "0";
   const { rows } = await pool.query(
-    `SELECT * FROM chat_long_memories WHERE ${conditions.join(" OR ")} ORDER BY
+    `SELECT ${MEMORY_COLUMNS}, ${matchedExpr} AS matched
+     FROM chat_long_memories WHERE user_id = $1 AND (pinned${matchClause}) ORDER BY
+     pinned DESC,
+     matched DESC,
      CASE importance WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END,
+     decay DESC,
      created_at DESC
      LIMIT $${paramIndex}`,
     [...params, limit]
   );
 
-  return rows as LongMemory[];
+  return (rows as (LongMemory & { matched: number })[]).map(({ matched, ...m }) => {
+    const similarity = tokens.length > 0 ? Number(matched) / tokens.length : 0;
+    return {
+      ...m,
+      similarity,
+      score: blendScore(similarity, m.importance, m.updated_at, m.decay),
+    };
+  });
+}
+
+/**
+ * 综合得分：相似度、重要程度、新近程度（指数衰减）加权，再乘衰减系数
+ * 新近程度按 updated_at 算：被合并 / 取代的记忆相当于刚被确认过
+ */
+function blendScore(
+  similarity: number,
+  importance: string,
+  updatedAt: string | Date,
+  decay: number = 1
+): number {
+  const ageDays =
+    (Date.now() - new Date(updatedAt).getTime()) / (24 * 60 * 60 * 1000);
+  const recency = Math.pow(0.5, Math.max(0, ageDays) / RECENCY_HALF_LIFE_DAYS);
+  return (
+    (WEIGHT_SIMILARITY * similarity +
+      WEIGHT_IMPORTANCE * (IMPORTANCE_WEIGHT[importance] ?? 0.5) +
+      WEIGHT_RECENCY * recency) *
+    decay
+  );
+}
+
+/** number[] → pgvector 字面量 '[0.1,0.2,...]' */
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
 }
 
 /**
- * 获取所有记忆（调试用）
+ * 获取某用户的所有记忆（调试用，管理界面请用 listMemories）
  */
-export async function getAllMemories(): Promise<LongMemory[]> {
+export async function getAllMemories(userId: string): Promise<LongMemory[]> {
   await ensureMemoryTable();
   const pool = getPool();
   const { rows } = await pool.query(
-    "SELECT * FROM chat_long_memories ORDER BY created_at DESC LIMIT 100"
+    `SELECT ${MEMORY_COLUMNS} FROM chat_long_memories WHERE user_id = $1 ORDER BY created_at DESC LIMIT 100`,
+    [userId]
   );
   return rows as LongMemory[];
 }
 
+/**
+ * 记忆管理列表：置顶优先、再按时间倒序；传 query 时按内容/关键词模糊过滤
+ */
+export async function listMemories(
+  userId: string,
+  query: string = "",
+  limit: number = 200
+): Promise<LongMemory[]> {
+  await ensureMemoryTable();
+  const pool = getPool();
+  const keyword = query.trim();
+  const { rows } = keyword
+    ? await pool.query(
+        `SELECT ${MEMORY_COLUMNS} FROM chat_long_memories
+         WHERE user_id = $1 AND (content ILIKE $2 OR keywords ILIKE $2)
+         ORDER BY pinned DESC, created_at DESC LIMIT $3`,
+        [userId, `%${keyword}%`, limit]
+      )
+    : await pool.query(
+        `SELECT ${MEMORY_COLUMNS} FROM chat_long_memories
+         WHERE user_id = $1
+         ORDER BY pinned DESC, created_at DESC LIMIT $2`,
+        [userId, limit]
+      );
+  return rows as LongMemory[];
+}
+
+/**
+ * 修改一条记忆（内容 / 关键词 / 重要程度 / 置顶），校验 user_id 防越权
+ * 返回更新后的记录，不存在或无权访问时返回 undefined
+ */
+export async function updateMemory(
+  id: number,
+  userId: string,
+  patch: {
+    content?: string;
+    keywords?: string;
+    importance?: MemoryImportance;
+    pinned?: boolean;
+  }
+): Promise<LongMemory | undefined> {
+  await ensureMemoryTable();
+  const pool = getPool();
+
+  const sets: string[] = [];
+  const params: unknown[] = [id, userId];
+  const push = (column: string, value: unknown) => {
+    params.push(value);
+    sets.push(`${column} = $${params.length}`);
+  };
+  if (patch.content !== undefined) push("content", patch.content);
+  if (patch.keywords !== undefined) push("keywords", patch.keywords);
+  if (patch.importance !== undefined) push("importance", patch.importance);
+  if (patch.pinned !== undefined) push("pinned", patch.pinned);
+  if (sets.length === 0) return undefined;
+
+  // 内容被手动修改时，先把旧版本记入历史
+  if (patch.content !== undefined) {
+    await pool.query(
+      `INSERT INTO chat_memory_history (memory_id, user_id, session_id, content, keywords, importance, action, replaced_by)
+       SELECT id, user_id, session_id, content, keywords, importance, 'edit', $3
+       FROM chat_long_memories WHERE id = $1 AND user_id = $2 AND content <> $3`,
+      [id, userId, patch.content]
+    );
+  }
+
+  const { rows } = await pool.query(
+    `UPDATE chat_long_memories SET ${sets.join(", ")}, updated_at = NOW()
+     WHERE id = $1 AND user_id = $2 RETURNING ${MEMORY_COLUMNS}`,
+    params
+  );
+  const memory = rows[0] as LongMemory | undefined;
+  // 内容变了，向量也要跟着重算
+  if (memory && patch.content !== undefined) {
+    await embedMemory(memory.id, memory.content);
+  }
+  return memory;
+}
+
+/** 某条记忆的历史版本（新的在前），校验 user_id */
+export async function getMemoryHistory(
+  memoryId: number,
+  userId: string
+): Promise<MemoryHistoryEntry[]> {
+  await ensureMemoryTable();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    `SELECT id, memory_id, session_id, content, keywords, importance, action, replaced_by, created_at
+     FROM chat_memory_history
+     WHERE memory_id = $1 AND user_id = $2
+     ORDER BY created_at DESC, id DESC`,
+    [memoryId, userId]
+  );
+  return rows as MemoryHistoryEntry[];
+}
+
+/** 删除（遗忘）一条记忆，校验 user_id（历史版本级联删除） */
+export async function deleteMemory(
+  id: number,
+  userId: string
+): Promise<boolean> {
+  await ensureMemoryTable();
+  const pool = getPool();
+  const result = await pool.query(
+    "DELETE FROM chat_long_memories WHERE id = $1 AND user_id = $2",
+    [id, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** 获取用户级记忆设置（没有记录时使用默认值：自动提取开启） */
+export async function getMemorySettings(
+  userId: string
+): Promise<MemorySettings> {
+  await ensureMemoryTable();
+  const pool = getPool();
+  const { rows } = await pool.query(
+    "SELECT auto_extract FROM chat_memory_settings WHERE user_id = $1",
+    [userId]
+  );
+  return { autoExtract: rows[0]?.auto_extract ?? true };
+}
+
+/** 开启/关闭用户级的自动记忆提取 */
+export async function setAutoExtract(
+  userId: string,
+  enabled: boolean
+): Promise<void> {
+  await ensureMemoryTable();
+  const pool = getPool();
+  await pool.query(
+    `INSERT INTO chat_memory_settings (user_id, auto_extract, updated_at)
+     VALUES ($1, $2, NOW())
+     ON CONFLICT (user_id) DO UPDATE SET auto_extract = $2, updated_at = NOW()`,
+    [userId, enabled]
+  );
+}
+
 /**
  * 格式化记忆为 prompt 注入文本
  */
@@ -15,8 +15,9 @@
  */
 
 import { MultiServerMCPClient } from "@langchain/mcp-adapters";
-import { getEnabledMcpServers, McpServerConfig } from "./mcp-db";
+import { getEnabledMcpServers, McpServerConfig, parseMcpToolPolicies } from "./mcp-db";
 import { StructuredToolInterface } from "@langchain/core/tools";
+import { ToolPolicyEntry } from "./tool-approval";
 import { writeFileSync, mkdirSync } from "fs";
 import { join } from "path";
 
@@ -101,24 +102,62 @@ function buildMcpServerConfigs(
   return configs;
 }
 
+/** 工具名里的非法字符统一换成下划线（DeepSeek API 要求 ^[a-zA-Z0-9_-]+$） */
+function sanitizeToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * 按工具名前缀（server 名 + "__"）找到工具所属的 server，取它的确认策略：
+ * 单个工具配置过的用工具的，否则用 server 的默认策略
+ */
+function resolveMcpToolPolicies(
+  tools: StructuredToolInterface[],
+  servers: McpServerConfig[]
+): Map<string, ToolPolicyEntry> {
+  const policies = new Map<string, ToolPolicyEntry>();
+  for (const server of servers) {
+    const prefix = `${sanitizeToolName(server.name)}__`;
+    const overrides = parseMcpToolPolicies(server);
+    for (const tool of tools) {
+      if (!tool.name.startsWith(prefix)) continue;
+      const toolName = tool.name.slice(prefix.length);
+      policies.set(tool.name, {
+        policy: overrides[toolName] ?? server.tool_policy,
+        mcpServerId: server.id,
+        mcpToolName: toolName,
+      });
+    }
+  }
+  return policies;
+}
+
+const NO_MCP_TOOLS = {
+  tools: [] as StructuredToolInterface[],
+  policies: new Map<string, ToolPolicyEntry>(),
+  cleanup: async () => {},
+};
+
 /**
  * 获取用户的 MCP 工具。
- * 返回 { tools, cleanup } —— 调用完后必须调 cleanup() 关闭连接。
+ * 返回 { tools, policies, cleanup } —— policies 是每个工具的确认策略（键为工具名），
+ * 调用完后必须调 cleanup() 关闭连接。
  */
 export async function getMcpTools(userId: string): Promise<{
   tools: StructuredToolInterface[];
+  policies: Map<string, ToolPolicyEntry>;
   cleanup: () => Promise<void>;
 }> {
   const servers = await getEnabledMcpServers(userId);
 
   if (servers.length === 0) {
-    return { tools: [], cleanup: async () => {} };
+    return NO_MCP_TOOLS;
   }
 
   const mcpServerConfigs = buildMcpServerConfigs(servers);
 
   if (Object.keys(mcpServerConfigs).length === 0) {
-    return { tools: [], cleanup: async () => {} };
+    return NO_MCP_TOOLS;
   }
 
   try {
@@ -190,7 +229,7 @@ export async function getMcpTools(userId: string): Promise<{
     // Sanitize tool names: DeepSeek API requires names matching ^[a-zA-Z0-9_-]+$
     for (const tool of rawTools) {
       const original = tool.name;
-      tool.name = tool.name.replace(/[^a-zA-Z0-9_-]/g, "_");
+      tool.name = sanitizeToolName(tool.name);
       if (tool.name !== original) {
         console.log(`🔧 MCP 工具名修正: "${original}" → "${tool.name}"`);
       }
@@ -204,6 +243,7 @@ export async function getMcpTools(userId: string): Promise<{
 
     return {
       tools: tools as StructuredToolInterface[],
+      policies: resolveMcpToolPolicies(tools as StructuredToolInterface[], servers),
       cleanup: async () => {
         try {
           await client.close();
@@ -214,6 +254,6 @@ export async function getMcpTools(userId: string): Promise<{
     };
   } catch (error) {
     console.error("MCP 工具加载失败:", error);
-    return { tools: [], cleanup: async () => {} };
+    return NO_MCP_TOOLS;
   }
 }
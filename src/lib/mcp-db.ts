@@ -6,6 +6,7 @@
  */
 
 import { getPool } from "./pg";
+import { DEFAULT_MCP_TOOL_POLICY, ToolPolicy, isToolPolicy } from "./tool-approval";
 
 export interface McpServerConfig {
   id: string;
@@ -18,6 +19,9 @@ export interface McpServerConfig {
   headers: string | null; // JSON object string
   env: string | null; // JSON object string — 环境变量
   enabled: boolean;
+  /** 这个 server 的工具默认策略（见 tool-approval.ts） */
+  tool_policy: ToolPolicy;
+  tool_policies: string | null; // JSON object string — 单个工具的策略，键是不带 server 前缀的工具名
   created_at: string;
 }
 
@@ -48,6 +52,13 @@ export async function initMcpServersTable(): Promise<void> {
   await pool.query(`
     ALTER TABLE chat_mcp_servers ADD COLUMN IF NOT EXISTS env TEXT
   `);
+  // 工具确认策略（兼容已有表：已有的 server 默认需要确认）
+  await pool.query(`
+    ALTER TABLE chat_mcp_servers ADD COLUMN IF NOT EXISTS tool_policy TEXT NOT NULL DEFAULT '${DEFAULT_MCP_TOOL_POLICY}'
+  `);
+  await pool.query(`
+    ALTER TABLE chat_mcp_servers ADD COLUMN IF NOT EXISTS tool_policies TEXT
+  `);
 }
 
 // 应用启动时自动建表
@@ -147,3 +158,56 @@ export async function toggleMcpServer(
   );
   return (result.rowCount ?? 0) > 0;
 }
+
+/**
+ * 设置 MCP server 的工具策略（校验 userId 防越权）
+ * toolPolicies 为 undefined 时不改单个工具的策略
+ */
+export async function updateMcpServerPolicies(
+  id: string,
+  userId: string,
+  toolPolicy: ToolPolicy,
+  toolPolicies?: Record<string, ToolPolicy>
+): Promise<boolean> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE chat_mcp_servers
+     SET tool_policy = $3, tool_policies = COALESCE($4, tool_policies)
+     WHERE id = $1 AND user_id = $2`,
+    [id, userId, toolPolicy, toolPolicies ? JSON.stringify(toolPolicies) : null]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * 设置 MCP server 上单个工具的策略（确认弹窗里点「总是允许」时调用）
+ */
+export async function setMcpToolPolicy(
+  id: string,
+  userId: string,
+  toolName: string,
+  policy: ToolPolicy
+): Promise<boolean> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE chat_mcp_servers
+     SET tool_policies = (COALESCE(tool_policies, '{}')::jsonb || jsonb_build_object($3::text, $4::text))::text
+     WHERE id = $1 AND user_id = $2`,
+    [id, userId, toolName, policy]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** 解析 server 上单个工具的策略（格式不对的条目忽略） */
+export function parseMcpToolPolicies(server: McpServerConfig): Record<string, ToolPolicy> {
+  if (!server.tool_policies) return {};
+  try {
+    const parsed = JSON.parse(server.tool_policies);
+    return Object.fromEntries(
+      Object.entries(parsed ?? {}).filter(([, policy]) => isToolPolicy(policy))
+    ) as Record<string, ToolPolicy>;
+  } catch {
+    console.warn(`MCP server "${server.name}" tool_policies 解析失败:`, server.tool_policies);
+    return {};
+  }
+}
@@ -0,0 +1,448 @@
+import fs from "fs";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatOpenAI } from "@langchain/openai";
+
+/**
+ * ========== 模型注册表（多供应商） ==========
+ *
+ * 以前每个调用点都自己 new ChatOpenAI({ model: "deepseek-chat", ... }) 并直接读 DEEPSEEK_* 环境变量，
+ * 想换成本地 mock 或自部署模型要改一圈代码。现在所有调用点都通过这里按「用途」或模型 id 取模型：
+ *
+ *   createChatModel("chat")      → 工具模式的主模型（Agent）
+ *   createChatModel("reasoning") → 深度推理模式
+ *   createChatModel("utility")   → 记忆提取、对话摘要、文本分析、知识库研究等后台任务
+ *
+ * 供应商类型：
+ * - openai：OpenAI 兼容接口（DeepSeek、vLLM、各种代理、本地 mock 都是这一类）
+ * - ollama：Ollama 本地模型，走它的 OpenAI 兼容接口（默认 http://localhost:11434/v1）
+ * - anthropic：Anthropic Messages API（或兼容它的代理）
+ *
+ * 每个模型带能力标记（tools / reasoning / vision / jsonMode）和上下文长度，
+ * 调用方按能力决定怎么用（例如没有 tools 能力的模型不挂工具）。
+ *
+ * 配置来源（后面的覆盖前面的同 id 项）：
+ * 1. 内置 DeepSeek：deepseek-chat、deepseek-reasoner，读 DEEPSEEK_API_KEY / DEEPSEEK_BASE_URL
+ * 2. 环境变量快捷配置：OLLAMA_BASE_URL + OLLAMA_MODELS，ANTHROPIC_API_KEY + ANTHROPIC_MODELS（逗号分隔）
+ * 3. MODEL_REGISTRY_FILE 指向的 JSON 文件：
+ *    {
+ *      "providers": [{ "id": "mock", "kind": "openai", "baseURL": "http://localhost:4010/v1", "apiKeyEnv": "MOCK_KEY" }],
+ *      "models": [{ "id": "mock-chat", "provider": "mock", "model": "gpt-4o-mini", "capabilities": { "tools": true } }],
+ *      "roles": { "chat": "mock-chat" },
+ *      "fallbacks": { "deepseek-chat": ["mock-chat"] }
+ *    }
+ * 用途对应的默认模型可以再用 CHAT_MODEL / REASONING_MODEL / UTILITY_MODEL 覆盖
+ *
+ * 备用模型：主模型重试后仍失败（429 / 5xx / 超时）时按顺序换用（见 graph.ts 的容错层）。
+ * 先用配置文件里给该模型单独配的 fallbacks，再用 FALLBACK_MODELS（逗号分隔，对所有模型生效）
+ */
+
+export type ProviderKind = "openai" | "ollama" | "anthropic";
+
+export interface ProviderConfig {
+  id: string;
+  kind: ProviderKind;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export interface ModelCapabilities {
+  /** 支持 function calling（可以挂工具、withStructuredOutput） */
+  tools: boolean;
+  /** 返回思考链（reasoning_content / thinking） */
+  reasoning: boolean;
+  /** 接受图片输入 */
+  vision: boolean;
+  /** 支持 response_format: json_object */
+  jsonMode: boolean;
+}
+
+export interface ModelConfig {
+  /** 注册表里的 id（调用方和 UI 用这个） */
+  id: string;
+  provider: string;
+  /** 发给供应商的模型名 */
+  model: string;
+  label: string;
+  capabilities: ModelCapabilities;
+  contextWindow: number;
+  /** 需要给输出预留的 token（推理模型的思考链也算输出） */
+  maxOutput: number;
+}
+
+export type ModelRole = "chat" | "reasoning" | "utility";
+export const MODEL_ROLES: readonly ModelRole[] = ["chat", "reasoning", "utility"];
+
+export interface ModelRegistry {
+  providers: Map<string, ProviderConfig>;
+  models: Map<string, ModelConfig>;
+  roles: Record<ModelRole, string>;
+  /** 模型 id → 单独配置的备用模型（按顺序） */
+  fallbacks: Map<string, string[]>;
+  /** 对所有模型生效的备用模型（排在单独配置的之后） */
+  defaultFallbacks: string[];
+}
+
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  tools: false,
+  reasoning: false,
+  vision: false,
+  jsonMode: false,
+};
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+const DEFAULT_MAX_OUTPUT = 4_000;
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434/v1";
+
+/** 配置文件里的模型项：除 id / provider 外都可以省略 */
+type ModelEntry = Partial<Omit<ModelConfig, "capabilities">> & {
+  id: string;
+  provider: string;
+  capabilities?: Partial<ModelCapabilities>;
+};
+
+interface RegistryFile {
+  providers?: (ProviderConfig & { apiKeyEnv?: string })[];
+  models?: ModelEntry[];
+  roles?: Partial<Record<ModelRole, string>>;
+  fallbacks?: Record<string, string[]>;
+}
+
+function toModelConfig(entry: ModelEntry): ModelConfig {
+  return {
+    id: entry.id,
+    provider: entry.provider,
+    model: entry.model ?? entry.id,
+    label: entry.label ?? entry.id,
+    capabilities: { ...DEFAULT_CAPABILITIES, ...entry.capabilities },
+    contextWindow: entry.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+    maxOutput: entry.maxOutput ?? DEFAULT_MAX_OUTPUT,
+  };
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** 读取 MODEL_REGISTRY_FILE（没配置返回 null，读失败直接报错：配置写错了应该尽早发现） */
+function loadRegistryFile(): RegistryFile | null {
+  const file = process.env.MODEL_REGISTRY_FILE;
+  if (!file) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as RegistryFile;
+  } catch (error) {
+    throw new Error(`模型注册表文件读取失败 (${file}): ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/** 按环境变量和配置文件建注册表 */
+function buildRegistry(): ModelRegistry {
+  const providers = new Map<string, ProviderConfig>();
+  const models = new Map<string, ModelConfig>();
+  const roles: Record<ModelRole, string> = {
+    chat: "deepseek-chat",
+    reasoning: "deepseek-reasoner",
+    utility: "deepseek-chat",
+  };
+  const addModel = (entry: ModelEntry) => models.set(entry.id, toModelConfig(entry));
+
+  // 1. 内置 DeepSeek
+  providers.set("deepseek", {
+    id: "deepseek",
+    kind: "openai",
+    baseURL: process.env.DEEPSEEK_BASE_URL || "https://api.deepseek.com",
+    apiKey: process.env.DEEPSEEK_API_KEY,
+  });
+  addModel({
+    id: "deepseek-chat",
+    provider: "deepseek",
+    label: "DeepSeek Chat",
+    capabilities: { tools: true, jsonMode: true },
+    contextWindow: 128_000,
+    maxOutput: 8_000,
+  });
+  addModel({
+    id: "deepseek-reasoner",
+    provider: "deepseek",
+    label: "DeepSeek Reasoner",
+    capabilities: { reasoning: true, jsonMode: true },
+    contextWindow: 128_000,
+    maxOutput: 32_000,
+  });
+
+  // 2. 环境变量快捷配置
+  const ollamaModels = splitList(process.env.OLLAMA_MODELS);
+  if (ollamaModels.length > 0) {
+    providers.set("ollama", {
+      id: "ollama",
+      kind: "ollama",
+      baseURL: process.env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL,
+    });
+    for (const name of ollamaModels) {
+      addModel({ id: `ollama/${name}`, provider: "ollama", model: name, label: `${name} (Ollama)` });
+    }
+  }
+  const anthropicModels = splitList(process.env.ANTHROPIC_MODELS);
+  if (process.env.ANTHROPIC_API_KEY && anthropicModels.length > 0) {
+    providers.set("anthropic", {
+      id: "anthropic",
+      kind: "anthropic",
+      baseURL: process.env.ANTHROPIC_BASE_URL,
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+    for (const name of anthropicModels) {
+      addModel({
+        id: name,
+        provider: "anthropic",
+        capabilities: { tools: true, vision: true },
+        contextWindow: 200_000,
+        maxOutput: 8_000,
+      });
+    }
+  }
+
+  // 3. 配置文件
+  const file = loadRegistryFile();
+  for (const p of file?.providers ?? []) {
+    const { apiKeyEnv, ...provider } = p;
+    providers.set(provider.id, {
+      ...provider,
+      apiKey: provider.apiKey ?? (apiKeyEnv ? process.env[apiKeyEnv] : undefined),
+    });
+  }
+  for (const entry of file?.models ?? []) addModel(entry);
+  Object.assign(roles, file?.roles);
+
+  // 用途覆盖
+  for (const role of MODEL_ROLES) {
+    const override = process.env[`${role.toUpperCase()}_MODEL`];
+    if (override) roles[role] = override;
+  }
+
+  const fallbacks = new Map(Object.entries(file?.fallbacks ?? {}));
+  const defaultFallbacks = splitList(process.env.FALLBACK_MODELS);
+
+  // 校验：模型引用的供应商、用途和备用链引用的模型都必须存在
+  for (const model of models.values()) {
+    if (!providers.has(model.provider)) {
+      throw new Error(`模型 ${model.id} 引用了不存在的供应商 ${model.provider}`);
+    }
+  }
+  for (const role of MODEL_ROLES) {
+    if (!models.has(roles[role])) {
+      throw new Error(`${role} 用途配置的模型 ${roles[role]} 不在注册表中`);
+    }
+  }
+  for (const id of [...fallbacks.values()].flat().concat(defaultFallbacks)) {
+    if (!models.has(id)) {
+      throw new Error(`备用模型 ${id} 不在注册表中`);
+    }
+  }
+
+  return { providers, models, roles, fallbacks, defaultFallbacks };
+}
+
+let registry: ModelRegistry | null = null;
+
+/** 注册表（首次使用时按环境变量构建） */
+export function getModelRegistry(): ModelRegistry {
+  if (!registry) registry = buildRegistry();
+  return registry;
+}
+
+/** 所有已注册的模型 */
+export function listModels(): ModelConfig[] {
+  return [...getModelRegistry().models.values()];
+}
+
+/** 按用途或模型 id 取模型配置 */
+export function resolveModel(roleOrId: ModelRole | string): ModelConfig {
+  const { models, roles } = getModelRegistry();
+  const id = (MODEL_ROLES as readonly string[]).includes(roleOrId)
+    ? roles[roleOrId as ModelRole]
+    : roleOrId;
+  const model = models.get(id);
+  if (!model) throw new Error(`未知模型: ${id}`);
+  return model;
+}
+
+/** 按模型 id 查找，不存在返回 undefined（用于校验用户保存的选择，配置改过后旧 id 可能已失效） */
+export function findModel(id: string): ModelConfig | undefined {
+  return getModelRegistry().models.get(id);
+}
+
+/**
+ * 主模型 + 备用模型，按尝试顺序排列（去重）
+ * required 里要求的能力备用模型必须都有（例如挂了工具的 Agent 只能换到支持工具的模型），主模型不检查
+ */
+export function getFallbackChain(
+  roleOrId: ModelRole | string,
+  required: Partial<ModelCapabilities> = {}
+): ModelConfig[] {
+  const { fallbacks, defaultFallbacks } = getModelRegistry();
+  const primary = resolveModel(roleOrId);
+  const chain = [primary];
+  for (const id of [...(fallbacks.get(primary.id) ?? []), ...defaultFallbacks]) {
+    const model = resolveModel(id);
+    if (chain.some((m) => m.id === model.id)) continue;
+    const capable = (Object.keys(required) as (keyof ModelCapabilities)[]).every(
+      (key) => !required[key] || model.capabilities[key]
+    );
+    if (capable) chain.push(model);
+  }
+  return chain;
+}
+
+export function getProvider(model: ModelConfig): ProviderConfig {
+  return getModelRegistry().providers.get(model.provider)!;
+}
+
+/**
+ * OpenAI 兼容接口的地址和密钥（推理模式要直接读流里的 reasoning_content，绕过 LangChain 调用）
+ * 不是 OpenAI 兼容的供应商返回 null
+ */
+export function getOpenAICompatibleEndpoint(
+  model: ModelConfig
+): { baseURL: string; apiKey: string } | null {
+  const provider = getProvider(model);
+  if (provider.kind === "anthropic") return null;
+  return {
+    baseURL:
+      provider.baseURL ?? (provider.kind === "ollama" ? DEFAULT_OLLAMA_BASE_URL : "https://api.openai.com/v1"),
+    apiKey: provider.apiKey ?? (provider.kind === "ollama" ? "ollama" : ""),
+  };
+}
+
+/**
+ * 用户可调的生成参数（会话 / 自定义角色上保存的模型选择里带着，见 db.ts 的 model_params）
+ * 没给的参数用模型默认值；Anthropic 不支持 presencePenalty，会被忽略
+ */
+export interface ModelParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+}
+
+/** 会话 / 角色上的模型选择：id 为 null 表示用 chat 用途的默认模型 */
+export interface ModelChoice {
+  id: string | null;
+  params: ModelParams;
+}
+
+/** 保存的选择（会话或角色的 model_id / model_params 列） */
+interface StoredModelChoice {
+  model_id: string | null;
+  model_params: ModelParams | null;
+}
+
+/**
+ * 合并角色和会话上的模型选择：会话选了模型就用会话的，否则沿用角色的；
+ * 参数逐项合并，会话上设置的项覆盖角色的
+ */
+export function mergeModelChoice(
+  persona: StoredModelChoice | null | undefined,
+  session: StoredModelChoice | null | undefined
+): ModelChoice {
+  return {
+    id: session?.model_id ?? persona?.model_id ?? null,
+    params: { ...persona?.model_params, ...session?.model_params },
+  };
+}
+
+/**
+ * 校验用户提交的模型参数（来自 API 请求体），返回字符串表示校验失败的原因
+ * maxTokens 不能超过所选模型的输出上限
+ */
+export function normalizeModelParams(value: unknown, model: ModelConfig): ModelParams | string {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== "object" || Array.isArray(value)) return "参数需要是对象";
+  const input = value as Record<string, unknown>;
+  const params: ModelParams = {};
+  const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+  if (input.temperature !== undefined) {
+    if (!isNumber(input.temperature) || input.temperature < 0 || input.temperature > 2) {
+      return "temperature 需要是 0 ~ 2 的数字";
+    }
+    params.temperature = input.temperature;
+  }
+  if (input.topP !== undefined) {
+    if (!isNumber(input.topP) || input.topP <= 0 || input.topP > 1) {
+      return "topP 需要是 0 ~ 1 的数字（不含 0）";
+    }
+    params.topP = input.topP;
+  }
+  if (input.maxTokens !== undefined) {
+    const maxTokens = input.maxTokens;
+    if (!Number.isInteger(maxTokens) || (maxTokens as number) < 1 || (maxTokens as number) > model.maxOutput) {
+      return `maxTokens 需要是 1 ~ ${model.maxOutput} 的整数`;
+    }
+    params.maxTokens = maxTokens as number;
+  }
+  if (input.presencePenalty !== undefined) {
+    if (!isNumber(input.presencePenalty) || input.presencePenalty < -2 || input.presencePenalty > 2) {
+      return "presencePenalty 需要是 -2 ~ 2 的数字";
+    }
+    params.presencePenalty = input.presencePenalty;
+  }
+  return params;
+}
+
+/**
+ * 校验 API 请求里的模型选择（会话 / 自定义角色的 modelId + modelParams）
+ * modelId 为 null 表示恢复默认模型；参数为空对象时存 null。返回字符串表示校验失败的原因
+ */
+export function parseModelChoice(
+  modelId: unknown,
+  modelParams: unknown
+): { id: string | null; params: ModelParams | null } | string {
+  if (modelId !== null && typeof modelId !== "string") return "modelId 需要是字符串或 null";
+  const model = modelId ? findModel(modelId) : resolveModel("chat");
+  if (!model) return `未知模型: ${modelId}`;
+  const params = normalizeModelParams(modelParams, model);
+  if (typeof params === "string") return params;
+  return { id: modelId || null, params: Object.keys(params).length > 0 ? params : null };
+}
+
+export interface ChatModelOptions extends ModelParams {
+  streaming?: boolean;
+  /** 毫秒 */
+  timeout?: number;
+  maxRetries?: number;
+}
+
+/** 按用途或模型 id 创建 LangChain 聊天模型 */
+export function createChatModel(
+  roleOrId: ModelRole | string,
+  options: ChatModelOptions = {}
+): BaseChatModel {
+  const config = resolveModel(roleOrId);
+  const provider = getProvider(config);
+  // 没设置的项不传，免得 undefined 覆盖掉 SDK 的默认值
+  const defined = Object.fromEntries(
+    Object.entries(options).filter(([, v]) => v !== undefined)
+  ) as ChatModelOptions;
+
+  if (provider.kind === "anthropic") {
+    const rest = { ...defined };
+    delete rest.presencePenalty;
+    return new ChatAnthropic({
+      model: config.model,
+      apiKey: provider.apiKey,
+      anthropicApiUrl: provider.baseURL,
+      maxTokens: config.maxOutput,
+      ...rest,
+    });
+  }
+
+  const endpoint = getOpenAICompatibleEndpoint(config)!;
+  return new ChatOpenAI({
+    model: config.model,
+    apiKey: endpoint.apiKey,
+    configuration: { baseURL: endpoint.baseURL },
+    ...defined,
+  });
+}
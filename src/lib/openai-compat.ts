@@ -0,0 +1,457 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  MessageContent,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { z } from "zod";
+import { countTokens } from "./context-builder";
+import { MODEL_REQUEST_TIMEOUT_MS, ResilientChatModel } from "./graph";
+import { createChatModel, getFallbackChain, ModelConfig, ModelParams } from "./models";
+import { Persona, PERSONAS } from "./personas";
+
+/**
+ * ========== OpenAI 兼容接口 ==========
+ *
+ * /api/v1/chat/completions 和 /api/v1/models 按 OpenAI Chat Completions 的格式收发，
+ * 任何 OpenAI SDK、LangChain 客户端、IDE 插件把 baseURL 指到 https://<host>/api/v1 就能用：
+ *
+ *   - 模型名就是内置角色：cortex-assistant、cortex-coder……（人设提示 + 角色默认温度，
+ *     实际回答的是 chat 用途的默认模型）
+ *   - 请求不带 tools：跑工具模式的 Agent，服务端的工具（联网搜索、知识库、MCP）在服务端执行，
+ *     调用方只拿到最终回答
+ *   - 请求带了 tools：tools / tool_choice 原样交给模型，模型要调工具时返回 tool_calls
+ *     （finish_reason 为 tool_calls），由调用方执行后把结果作为 tool 消息发回来。
+ *     这时不挂服务端工具——两边的工具混在一起，一次响应里说不清哪些已经执行过
+ *
+ * 流式响应是 chat.completion.chunk 的 SSE，以 data: [DONE] 结束；
+ * 思考链放在 delta.reasoning_content（和 DeepSeek 的接口一致）。usage 按本地分词估算
+ */
+
+/** 角色对外的模型名前缀 */
+const PERSONA_MODEL_PREFIX = "cortex-";
+
+export interface PersonaModel {
+  id: string;
+  persona: Persona;
+}
+
+/** 对外暴露的模型（每个内置角色一个） */
+export function listPersonaModels(): PersonaModel[] {
+  return Object.entries(PERSONAS).map(([key, persona]) => ({
+    id: PERSONA_MODEL_PREFIX + key,
+    persona,
+  }));
+}
+
+export function findPersonaModel(id: string): Persona | undefined {
+  return listPersonaModels().find((m) => m.id === id)?.persona;
+}
+
+// ====== 请求 ======
+
+const contentPartSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+  image_url: z.object({ url: z.string() }).optional(),
+});
+
+const requestToolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal("function").optional(),
+  function: z.object({ name: z.string(), arguments: z.string() }),
+});
+
+const requestMessageSchema = z
+  .object({
+    role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+    content: z.union([z.string(), z.array(contentPartSchema)]).nullish(),
+    tool_calls: z.array(requestToolCallSchema).optional(),
+    tool_call_id: z.string().optional(),
+  })
+  .refine((m) => m.role !== "tool" || m.tool_call_id, {
+    message: "tool 消息必须带 tool_call_id",
+  });
+
+const functionToolSchema = z.object({
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    parameters: z.record(z.string(), z.unknown()).optional(),
+  }),
+});
+
+const toolChoiceSchema = z.union([
+  z.enum(["none", "auto", "required"]),
+  z.object({ type: z.literal("function"), function: z.object({ name: z.string() }) }),
+]);
+
+/** 没列出的字段（n、seed、user……）忽略 */
+export const completionRequestSchema = z.object({
+  model: z.string(),
+  messages: z.array(requestMessageSchema).min(1),
+  stream: z.boolean().nullish(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+  temperature: z.number().nullish(),
+  top_p: z.number().nullish(),
+  max_tokens: z.number().int().positive().nullish(),
+  max_completion_tokens: z.number().int().positive().nullish(),
+  presence_penalty: z.number().nullish(),
+  tools: z.array(functionToolSchema).nullish(),
+  tool_choice: toolChoiceSchema.nullish(),
+});
+
+export type CompletionRequest = z.infer<typeof completionRequestSchema>;
+export type FunctionTool = z.infer<typeof functionToolSchema>;
+export type ToolChoice = z.infer<typeof toolChoiceSchema>;
+
+/** 请求里的采样参数 → 模型参数（没传的项不设置，用角色 / 模型的默认值） */
+export function toModelParams(body: CompletionRequest): ModelParams {
+  return {
+    topP: body.top_p ?? undefined,
+    maxTokens: body.max_completion_tokens ?? body.max_tokens ?? undefined,
+    presencePenalty: body.presence_penalty ?? undefined,
+  };
+}
+
+function contentText(content: CompletionRequest["messages"][number]["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((p) => p.type === "text")
+    .map((p) => p.text ?? "")
+    .join("");
+}
+
+type MessageContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/** 用户消息保留图片（支持视觉的模型能看到），其余只取文字 */
+function userContent(content: CompletionRequest["messages"][number]["content"]): MessageContent {
+  if (!Array.isArray(content) || !content.some((p) => p.type === "image_url")) {
+    return contentText(content);
+  }
+  return content.flatMap((p): MessageContentPart[] =>
+    p.type === "text"
+      ? [{ type: "text" as const, text: p.text ?? "" }]
+      : p.type === "image_url" && p.image_url
+        ? [{ type: "image_url" as const, image_url: { url: p.image_url.url } }]
+        : []
+  );
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** 请求消息 → LangChain 消息；system / developer 消息拼成一段，接在人设提示后面 */
+export function toLangChainMessages(messages: CompletionRequest["messages"]): {
+  systemPrompt: string;
+  messages: BaseMessage[];
+} {
+  const system: string[] = [];
+  const result: BaseMessage[] = [];
+  for (const msg of messages) {
+    if (msg.role === "system" || msg.role === "developer") {
+      system.push(contentText(msg.content));
+    } else if (msg.role === "user") {
+      result.push(new HumanMessage({ content: userContent(msg.content) }));
+    } else if (msg.role === "assistant") {
+      result.push(
+        new AIMessage({
+          content: contentText(msg.content),
+          tool_calls: (msg.tool_calls ?? []).map((tc) => ({
+            id: tc.id,
+            name: tc.function.name,
+            args: parseArguments(tc.function.arguments),
+            type: "tool_call" as const,
+          })),
+        })
+      );
+    } else {
+      result.push(
+        new ToolMessage({ content: contentText(msg.content), tool_call_id: msg.tool_call_id! })
+      );
+    }
+  }
+  return { systemPrompt: system.filter(Boolean).join("\n"), messages: result };
+}
+
+/** 估算输入的 token 数（system 提示 + 所有消息的文字） */
+export function estimatePromptTokens(systemPrompt: string, messages: BaseMessage[]): number {
+  return messages.reduce(
+    (sum, m) => sum + countTokens(typeof m.content === "string" ? m.content : JSON.stringify(m.content)),
+    countTokens(systemPrompt)
+  );
+}
+
+// ====== 透传调用方的工具 ======
+
+/** OpenAI 的 tool_choice → LangChain 的写法（required 对应 any，指定函数时传函数名） */
+function toLangChainToolChoice(choice: ToolChoice | null | undefined): string | undefined {
+  if (!choice) return undefined;
+  if (typeof choice !== "string") return choice.function.name;
+  return choice === "required" ? "any" : choice;
+}
+
+export interface PassthroughOptions {
+  model: ModelConfig;
+  params: ModelParams;
+  temperature: number;
+  tools: FunctionTool[];
+  toolChoice?: ToolChoice | null;
+}
+
+/**
+ * 绑定调用方工具的模型：工具只交给模型挑，不在服务端执行
+ * 主模型失败时重试 / 换备用模型（备用链只保留支持工具的模型，见 graph.ts 的容错层）
+ */
+export function createPassthroughModel(options: PassthroughOptions): ResilientChatModel {
+  const { model, params, temperature } = options;
+  const tools = options.tools.map((t) => ({
+    type: "function" as const,
+    function: {
+      name: t.function.name,
+      description: t.function.description,
+      parameters: t.function.parameters ?? { type: "object", properties: {} },
+    },
+  }));
+  const toolChoice = toLangChainToolChoice(options.toolChoice);
+
+  return new ResilientChatModel(
+    getFallbackChain(model.id, { tools: true }).map((config) => ({
+      config,
+      runnable: createChatModel(config.id, {
+        ...params,
+        temperature,
+        maxTokens: params.maxTokens && Math.min(params.maxTokens, config.maxOutput),
+        streaming: true,
+        timeout: MODEL_REQUEST_TIMEOUT_MS,
+        maxRetries: 0,
+      }).bindTools!(tools, toolChoice ? { tool_choice: toolChoice } : {}),
+    }))
+  );
+}
+
+// ====== 响应 ======
+
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function: { name?: string; arguments: string };
+}
+
+/** 一段增量输出（对应 chat.completion.chunk 里的 delta） */
+export interface CompletionDelta {
+  content?: string;
+  reasoning_content?: string;
+  tool_calls?: ToolCallDelta[];
+}
+
+/** 生成回复：把增量输出一段段交给 write，出错时抛出 */
+export type CompletionProducer = (write: (delta: CompletionDelta) => void) => Promise<void>;
+
+/** 模型流式输出里调用方工具的参数片段 → tool_calls 增量（按出现顺序重新编号） */
+export function toolCallDeltas(
+  chunks: { index?: number; id?: string; name?: string; args?: string }[] | undefined,
+  indexes: Map<number, number>
+): ToolCallDelta[] {
+  return (chunks ?? []).map((tc) => {
+    const source = tc.index ?? 0;
+    if (!indexes.has(source)) indexes.set(source, indexes.size);
+    return {
+      index: indexes.get(source)!,
+      ...(tc.id ? { id: tc.id, type: "function" as const } : {}),
+      function: { ...(tc.name ? { name: tc.name } : {}), arguments: tc.args ?? "" },
+    };
+  });
+}
+
+export interface CompletionMeta {
+  id: string;
+  created: number;
+  /** 请求里的模型名（原样返回） */
+  model: string;
+}
+
+export function createCompletionMeta(model: string): CompletionMeta {
+  return {
+    id: "chatcmpl-" + crypto.randomUUID().replace(/-/g, ""),
+    created: Math.floor(Date.now() / 1000),
+    model,
+  };
+}
+
+/** 累积增量输出，算出完整消息、结束原因和用量 */
+class CompletionAccumulator {
+  content = "";
+  reasoning = "";
+  private readonly toolCalls: { id: string; type: "function"; function: { name: string; arguments: string } }[] = [];
+
+  add(delta: CompletionDelta): void {
+    this.content += delta.content ?? "";
+    this.reasoning += delta.reasoning_content ?? "";
+    for (const tc of delta.tool_calls ?? []) {
+      const call = (this.toolCalls[tc.index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (tc.id) call.id = tc.id;
+      call.function.name += tc.function.name ?? "";
+      call.function.arguments += tc.function.arguments;
+    }
+  }
+
+  get finishReason(): "stop" | "tool_calls" {
+    return this.toolCalls.length > 0 ? "tool_calls" : "stop";
+  }
+
+  message() {
+    return {
+      role: "assistant" as const,
+      content: this.content || (this.toolCalls.length > 0 ? null : ""),
+      ...(this.reasoning ? { reasoning_content: this.reasoning } : {}),
+      ...(this.toolCalls.length > 0 ? { tool_calls: this.toolCalls } : {}),
+    };
+  }
+
+  usage(promptTokens: number) {
+    const completionTokens =
+      countTokens(this.content) +
+      countTokens(this.reasoning) +
+      this.toolCalls.reduce((sum, tc) => sum + countTokens(tc.function.name + tc.function.arguments), 0);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+}
+
+/** OpenAI 格式的错误响应（SDK 按 error.message / error.code 抛异常） */
+export function openAIError(
+  status: number,
+  message: string,
+  type: "invalid_request_error" | "server_error",
+  code: string | null = null,
+  param: string | null = null
+): Response {
+  return Response.json({ error: { message, type, param, code } }, { status });
+}
+
+/** 请求体校验失败 → 400，指出第一个不对的字段 */
+export function invalidRequestError(error: z.ZodError): Response {
+  const issue = error.issues[0];
+  const param = issue?.path.join(".") || null;
+  return openAIError(
+    400,
+    param ? `${param}: ${issue.message}` : issue?.message ?? "请求格式不对",
+    "invalid_request_error",
+    null,
+    param
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "生成出错";
+}
+
+/** 非流式：等生成完，返回一个 chat.completion */
+export async function collectCompletion(
+  meta: CompletionMeta,
+  produce: CompletionProducer,
+  promptTokens: number
+): Promise<Response> {
+  const result = new CompletionAccumulator();
+  try {
+    await produce((delta) => result.add(delta));
+  } catch (err) {
+    console.error("[v1] chat completion 出错:", err);
+    return openAIError(500, errorMessage(err), "server_error");
+  }
+  return Response.json({
+    ...meta,
+    object: "chat.completion",
+    choices: [{ index: 0, message: result.message(), finish_reason: result.finishReason }],
+    usage: result.usage(promptTokens),
+  });
+}
+
+/**
+ * 流式：每段增量输出推一个 chat.completion.chunk，最后一个带 finish_reason，
+ * 要了 usage 时再推一个 choices 为空、带 usage 的 chunk，以 data: [DONE] 结束
+ * 中途出错推一个 { error } 帧（OpenAI SDK 读到会抛异常）
+ */
+export function streamCompletion(
+  meta: CompletionMeta,
+  produce: CompletionProducer,
+  options: { promptTokens: number; includeUsage: boolean }
+): Response {
+  const encoder = new TextEncoder();
+  const chunk = (
+    delta: CompletionDelta & { role?: "assistant" },
+    finishReason: string | null = null
+  ) => ({
+    ...meta,
+    object: "chat.completion.chunk",
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  const readableStream = new ReadableStream({
+    async start(controller) {
+      const send = (data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          /* 调用方已断开 */
+        }
+      };
+
+      const result = new CompletionAccumulator();
+      send(chunk({ role: "assistant", content: "" }));
+      try {
+        await produce((delta) => {
+          result.add(delta);
+          send(chunk(delta));
+        });
+        send(chunk({}, result.finishReason));
+        if (options.includeUsage) {
+          send({
+            ...meta,
+            object: "chat.completion.chunk",
+            choices: [],
+            usage: result.usage(options.promptTokens),
+          });
+        }
+      } catch (err) {
+        console.error("[v1] chat completion 出错:", err);
+        send({ error: { message: errorMessage(err), type: "server_error", param: null, code: null } });
+      } finally {
+        try {
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        } catch {
+          /* already closed */
+        }
+      }
+    },
+  });
+
+  return new Response(readableStream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,256 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_KNOWLEDGE_BASE_ID, loadDocumentsForEval } from "./knowledge-db";
+import {
+  CHUNK_OVERLAP,
+  CHUNK_SIZE,
+  IndexedChunk,
+  RetrievalStrategy,
+  ensureKnowledgeFolderSynced,
+  getLocalEmbeddings,
+  hashContent,
+  rankChunks,
+  splitDocument,
+  toIndexedChunk,
+} from "./rag";
+
+/**
+ * ========== 知识库检索评测 ==========
+ *
+ * 改切分参数、换检索策略、开关精排之后，用一组「标准问题」量化效果：
+ *
+ * 1. 读取标准问题集（默认 eval/golden-set.json），每题标注期望命中的文档段落
+ * 2. 按评测配置把知识库文档在内存里重新切分、向量化（本地 Embedding 模型，不写库、不调外部 API；
+ *    和已入库文本块内容相同的直接复用库里的向量）
+ * 3. 逐题检索，算 recall@k 和 MRR
+ * 4. 传两组配置时并排对比，给出各指标的差值
+ *
+ * 期望段落用「来源文件名 + 段落里必须包含的一句话」描述，而不是文本块 id，
+ * 这样换了切分参数、文本块重新编号后标准集照样能用
+ */
+
+/** 期望命中的段落 */
+export interface ExpectedPassage {
+  /** 文档来源（上传时的文件名，或 knowledge/ 目录下的文件名） */
+  source: string;
+  /** 文本块里必须包含的原文片段；不填表示命中该文档的任意文本块都算 */
+  contains?: string;
+}
+
+export interface GoldenQuestion {
+  question: string;
+  expected: ExpectedPassage[];
+}
+
+export interface EvalConfig {
+  name: string;
+  chunkSize: number;
+  chunkOverlap: number;
+  /** auto = 按文档类型切分（chunkers.ts）；recursive = 统一按字数切 */
+  chunker: "auto" | "recursive";
+  strategy: RetrievalStrategy;
+  rerank: boolean;
+  /** recall@k 的 k，也是每题检索返回的文本块数 */
+  topK: number;
+}
+
+export const DEFAULT_EVAL_CONFIG: EvalConfig = {
+  name: "当前配置",
+  chunkSize: CHUNK_SIZE,
+  chunkOverlap: CHUNK_OVERLAP,
+  chunker: "auto",
+  strategy: "hybrid",
+  rerank: false,
+  topK: 3,
+};
+
+export interface QuestionResult {
+  question: string;
+  /** 期望段落里被检索到的比例 */
+  recall: number;
+  /** 第一个命中期望段落的名次（从 1 开始），没命中为 null */
+  firstHitRank: number | null;
+  retrieved: { source: string; offset: number; score: number; relevant: boolean }[];
+}
+
+export interface EvalReport {
+  config: EvalConfig;
+  /** 评测用的文本块数（切分参数不同，块数也不同） */
+  chunkCount: number;
+  questionCount: number;
+  /** 各题 recall 的平均值 */
+  recallAtK: number;
+  /** 各题 1 / 首个命中名次的平均值（没命中记 0） */
+  mrr: number;
+  /** 至少命中一个期望段落的题目比例 */
+  hitRate: number;
+  durationMs: number;
+  questions: QuestionResult[];
+}
+
+export interface EvalComparison {
+  reports: EvalReport[];
+  /** 第二组相对第一组的变化（只有一组配置时为空） */
+  delta: { recallAtK: number; mrr: number; hitRate: number } | null;
+}
+
+const DEFAULT_GOLDEN_SET_PATH = path.join(process.cwd(), "eval", "golden-set.json");
+
+/** 读取标准问题集 */
+export function loadGoldenSet(filePath: string = DEFAULT_GOLDEN_SET_PATH): GoldenQuestion[] {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (!isGoldenSet(data)) {
+    throw new Error(`标准问题集格式不对: ${filePath}`);
+  }
+  return data;
+}
+
+export function isGoldenSet(value: unknown): value is GoldenQuestion[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (q) =>
+        typeof q?.question === "string" &&
+        Array.isArray(q.expected) &&
+        q.expected.length > 0 &&
+        q.expected.every(
+          (e: ExpectedPassage) =>
+            typeof e?.source === "string" &&
+            (e.contains === undefined || typeof e.contains === "string")
+        )
+    )
+  );
+}
+
+function matches(chunk: { source: string; content: string }, expected: ExpectedPassage): boolean {
+  return (
+    chunk.source === expected.source &&
+    (!expected.contains || chunk.content.includes(expected.contains))
+  );
+}
+
+/**
+ * 按配置在内存里建评测索引：重新切分文档，向量按内容哈希先查库里已有的，
+ * 再查本次评测已算过的，都没有才调用本地 Embedding 模型
+ */
+async function buildEvalIndex(
+  config: EvalConfig,
+  knowledgeBaseIds: string[],
+  embeddingCache: Map<string, number[]>
+): Promise<IndexedChunk[]> {
+  const { documents, embeddings } = await loadDocumentsForEval(knowledgeBaseIds);
+  for (const [hash, vector] of embeddings) {
+    if (!embeddingCache.has(hash)) embeddingCache.set(hash, vector);
+  }
+
+  const chunks: IndexedChunk[] = [];
+  let nextId = 1;
+  for (const doc of documents) {
+    const pieces = await splitDocument(doc.content, doc.file_type, config);
+    const hashes = pieces.map((p) => hashContent(p.content));
+
+    const missing = pieces.filter((_, i) => !embeddingCache.has(hashes[i]));
+    if (missing.length > 0 && config.strategy !== "bm25") {
+      const vectors = await getLocalEmbeddings().embedDocuments(missing.map((p) => p.content));
+      missing.forEach((p, i) => embeddingCache.set(hashContent(p.content), vectors[i]));
+    }
+
+    pieces.forEach((piece, i) => {
+      chunks.push(
+        toIndexedChunk({
+          // 评测索引只在内存里，id 只需要在本次评测内唯一
+          id: nextId++,
+          document_id: doc.id,
+          knowledge_base_id: doc.knowledge_base_id,
+          title: doc.title,
+          source: doc.source,
+          chunk_index: i,
+          char_offset: piece.offset,
+          heading_path: piece.headingPath,
+          page: piece.page,
+          content: piece.content,
+          embedding: embeddingCache.get(hashes[i]) ?? null,
+        })
+      );
+    });
+  }
+  return chunks;
+}
+
+/** 用一组配置跑完整个标准问题集 */
+async function evaluateConfig(
+  goldenSet: GoldenQuestion[],
+  config: EvalConfig,
+  knowledgeBaseIds: string[],
+  embeddingCache: Map<string, number[]>
+): Promise<EvalReport> {
+  const startedAt = Date.now();
+  const chunks = await buildEvalIndex(config, knowledgeBaseIds, embeddingCache);
+
+  const questions: QuestionResult[] = [];
+  for (const golden of goldenSet) {
+    const { hits } = await rankChunks(golden.question, chunks, {
+      topK: config.topK,
+      strategy: config.strategy,
+      rerank: config.rerank,
+    });
+    const found = golden.expected.filter((e) => hits.some((h) => matches(h, e)));
+    const firstHit = hits.findIndex((h) => golden.expected.some((e) => matches(h, e)));
+    questions.push({
+      question: golden.question,
+      recall: found.length / golden.expected.length,
+      firstHitRank: firstHit >= 0 ? firstHit + 1 : null,
+      retrieved: hits.map((h) => ({
+        source: h.source,
+        offset: h.offset,
+        score: h.score,
+        relevant: golden.expected.some((e) => matches(h, e)),
+      })),
+    });
+  }
+
+  const n = questions.length || 1;
+  return {
+    config,
+    chunkCount: chunks.length,
+    questionCount: questions.length,
+    recallAtK: questions.reduce((sum, q) => sum + q.recall, 0) / n,
+    mrr: questions.reduce((sum, q) => sum + (q.firstHitRank ? 1 / q.firstHitRank : 0), 0) / n,
+    hitRate: questions.filter((q) => q.firstHitRank !== null).length / n,
+    durationMs: Date.now() - startedAt,
+    questions,
+  };
+}
+
+/**
+ * 评测一组或两组配置（两组时并排对比）
+ * 多组配置共用一个向量缓存：切分结果相同的文本块只算一次向量
+ */
+export async function runKnowledgeEval(
+  goldenSet: GoldenQuestion[],
+  configs: EvalConfig[],
+  knowledgeBaseIds: string[] = [DEFAULT_KNOWLEDGE_BASE_ID]
+): Promise<EvalComparison> {
+  await ensureKnowledgeFolderSynced();
+
+  const embeddingCache = new Map<string, number[]>();
+  const reports: EvalReport[] = [];
+  for (const config of configs) {
+    reports.push(await evaluateConfig(goldenSet, config, knowledgeBaseIds, embeddingCache));
+    console.log(
+      `📏 知识库评测 [${config.name}]: recall@${config.topK}=${reports.at(-1)!.recallAtK.toFixed(3)}, MRR=${reports.at(-1)!.mrr.toFixed(3)}`
+    );
+  }
+
+  const [a, b] = reports;
+  return {
+    reports,
+    delta: b
+      ? {
+          recallAtK: b.recallAtK - a.recallAtK,
+          mrr: b.mrr - a.mrr,
+          hitRate: b.hitRate - a.hitRate,
+        }
+      : null,
+  };
+}
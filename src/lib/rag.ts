@@ -1,9 +1,23 @@
 import { Embeddings } from "@langchain/core/embeddings";
-import { MemoryVectorStore } from "@langchain/classic/vectorstores/memory";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { Document } from "@langchain/core/documents";
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
+import {
+  ChunkInput,
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  SYSTEM_OWNER,
+  KnowledgeChunk,
+  KnowledgeDocument,
+  deleteDocument,
+  getDocument,
+  getDocumentChunkEmbeddings,
+  getKnowledgeVersions,
+  listDocuments,
+  loadKnowledgeBaseChunks,
+  saveDocument,
+} from "./knowledge-db";
+import { tokenize } from "./tokenizer";
+import { DocumentChunk, getChunker, recursiveChunker } from "./chunkers";
 
 /**
  * ========== 第六课：RAG（检索增强生成） ==========
@@ -15,11 +29,17 @@ import path from "path";
  *    把文字转成向量，用余弦相似度搜索。
  *    优点：理解语义，"年假" ≈ "休假"
  *
- * 2. BM25 关键词检索（备用方案）
+ * 2. BM25 关键词检索
  *    经典信息检索算法，基于词频匹配。
- *    优点：零依赖，速度快
+ *    优点：零依赖，速度快，专有名词、编号这类精确匹配比向量更准
  *
  * 生产环境最佳实践：混合检索 = 向量检索 + BM25，先粗筛再精排。
+ * searchKnowledge 默认两路并行检索、用 RRF 融合排名，可选交叉编码器精排（见第五部分）。
+ *
+ * 文档存储：文档、文本块和向量都存在 PostgreSQL（见 knowledge-db.ts），
+ * 通过 /api/knowledge 上传 PDF / Excel / Markdown；knowledge/ 目录下的 .txt / .md
+ * 首次检索时同步入库。入库按内容哈希增量更新，冷启动不用重建索引。
+ * 文档分属不同的知识库，检索时只在当前对话绑定的知识库范围内查找。
  */
 
 // ========================================
@@ -34,7 +54,7 @@ import path from "path";
  *
  * 第一次运行会自动下载模型并缓存，之后不需要再下载
  */
-class LocalEmbeddings extends Embeddings {
+export class LocalEmbeddings extends Embeddings {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private pipe: any = null;
 
@@ -77,30 +97,26 @@ class LocalEmbeddings extends Embeddings {
   }
 }
 
-// ========================================
-// 二、BM25 关键词检索（备用方案）
-// ========================================
+/** Embedding 向量维度（all-MiniLM-L6-v2 输出 384 维） */
+export const EMBEDDING_DIM = 384;
 
-interface BM25Chunk {
-  content: string;
-  source: string;
-  tokens: string[];
-}
+let sharedEmbeddings: LocalEmbeddings | null = null;
 
-function tokenize(text: string): string[] {
-  const stopWords = new Set([
-    "的", "了", "在", "是", "我", "有", "和", "就",
-    "不", "人", "都", "一", "一个", "上", "也", "很",
-    "到", "说", "要", "去", "你", "会", "着", "没有",
-    "看", "好", "自己", "这",
-  ]);
-  return text
-    .replace(/[，。！？、；：""''（）【】\s\n\r]/g, " ")
-    .split(/\s+/)
-    .filter((w) => w.length >= 2 && !stopWords.has(w))
-    .map((w) => w.toLowerCase());
+/**
+ * 全局共享的 Embedding 实例
+ * 知识库和长期记忆共用同一个模型，避免重复加载
+ */
+export function getLocalEmbeddings(): LocalEmbeddings {
+  if (!sharedEmbeddings) sharedEmbeddings = new LocalEmbeddings();
+  return sharedEmbeddings;
 }
 
+// ========================================
+// 二、BM25 关键词检索
+// ========================================
+
+// 分词见 tokenizer.ts：中文按字符二元组切分，英文按单词，和长期记忆检索共用
+
 function bm25Score(
   queryTokens: string[],
   docTokens: string[],
@@ -128,142 +144,683 @@ function bm25Score(
 }
 
 // ========================================
-// 三、知识库管理（统一入口）
+// 三、文档入库（切分 + 向量化，按内容哈希增量更新）
 // ========================================
 
-let vectorStore: MemoryVectorStore | null = null;
-let bm25Chunks: BM25Chunk[] = [];
-let isInitialized = false;
-let isInitializing = false;
-let useVectorSearch = true; // 是否使用向量检索
+/** 默认切分参数（评测时可以换一组对比，见 rag-eval.ts） */
+export const CHUNK_SIZE = 300;
+export const CHUNK_OVERLAP = 50;
 
-/** 加载并切分文档（两种方案共用） */
-async function loadAndSplitDocuments(): Promise<Document[]> {
-  const knowledgeDir = path.join(process.cwd(), "knowledge");
-  if (!fs.existsSync(knowledgeDir)) {
-    console.log("⚠️ knowledge/ 目录不存在");
-    return [];
+export interface SplitOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+  /** auto = 按文件类型选切分器（见 chunkers.ts）；recursive = 不分类型，统一按字数切 */
+  chunker?: "auto" | "recursive";
+}
+
+/** 切分文档：每块带在原文中的位置、章节路径和页码 */
+export async function splitDocument(
+  content: string,
+  fileType: string,
+  options: SplitOptions = {}
+): Promise<DocumentChunk[]> {
+  const { chunkSize = CHUNK_SIZE, chunkOverlap = CHUNK_OVERLAP, chunker = "auto" } = options;
+  const split = chunker === "recursive" ? recursiveChunker : getChunker(fileType);
+  return split(content, { chunkSize, chunkOverlap });
+}
+
+/** 内容哈希（sha256），用来判断文档 / 文本块有没有变化 */
+export function hashContent(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+export interface IndexResult {
+  document: KnowledgeDocument;
+  /** unchanged = 内容没变，跳过；indexed = 重新切分入库 */
+  status: "unchanged" | "indexed";
+  /** 本次新算向量的文本块数 */
+  embedded: number;
+  /** 内容没变、直接复用旧向量的文本块数 */
+  reused: number;
+}
+
+/**
+ * 文档入库 / 重新索引
+ *
+ * 增量策略：
+ * 1. 整篇文档的内容哈希没变（且向量都已算好、已按文档类型切分过）→ 直接跳过
+ * 2. 内容变了 → 按文档类型重新切分，每个文本块按自己的内容哈希查旧向量，
+ *    只有新出现的文本块才调用 Embedding 模型
+ *
+ * Embedding 模型不可用时文本块照样入库（向量为空），检索退回 BM25，
+ * 下次重新索引时会补算向量
+ */
+export async function indexDocument(input: {
+  id?: string;
+  knowledgeBaseId: string;
+  title: string;
+  source: string;
+  fileType: string;
+  content: string;
+  createdBy: string;
+}): Promise<IndexResult> {
+  const id = input.id ?? crypto.randomUUID();
+  const contentHash = hashContent(input.content);
+
+  const existing = input.id ? await getDocument(id) : undefined;
+  const oldChunks = existing ? await getDocumentChunkEmbeddings(id) : [];
+  if (
+    existing &&
+    existing.content_hash === contentHash &&
+    oldChunks.every((c) => c.embedding && c.heading_path)
+  ) {
+    return { document: existing, status: "unchanged", embedded: 0, reused: 0 };
   }
 
-  const files = fs.readdirSync(knowledgeDir).filter((f) => f.endsWith(".txt"));
-  const documents: Document[] = [];
+  const pieces = await splitDocument(input.content, input.fileType);
+  const texts = pieces.map((p) => p.content);
+  const hashes = texts.map(hashContent);
 
-  for (const file of files) {
-    const content = fs.readFileSync(path.join(knowledgeDir, file), "utf-8");
-    documents.push(new Document({ pageContent: content, metadata: { source: file } }));
+  const reusable = new Map<string, number[]>();
+  for (const c of oldChunks) {
+    if (c.embedding) reusable.set(c.content_hash, c.embedding);
   }
-  console.log(`📄 加载了 ${documents.length} 个文档`);
+  const missing = texts.filter((_, i) => !reusable.has(hashes[i]));
 
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 300,
-    chunkOverlap: 50,
-  });
-  const chunks = await splitter.splitDocuments(documents);
-  console.log(`✂️  切分成 ${chunks.length} 个文本块`);
+  const fresh = new Map<string, number[]>();
+  if (missing.length > 0) {
+    try {
+      const vectors = await getLocalEmbeddings().embedDocuments(missing);
+      missing.forEach((text, i) => fresh.set(hashContent(text), vectors[i]));
+    } catch (error) {
+      console.warn("⚠️ 文本块向量化失败，先按 BM25 入库:", error);
+    }
+  }
 
-  return chunks;
+  const chunks: ChunkInput[] = texts.map((content, i) => ({
+    content,
+    contentHash: hashes[i],
+    offset: pieces[i].offset,
+    headingPath: pieces[i].headingPath,
+    page: pieces[i].page,
+    embedding: reusable.get(hashes[i]) ?? fresh.get(hashes[i]) ?? null,
+  }));
+
+  const document = await saveDocument(
+    {
+      id,
+      knowledgeBaseId: input.knowledgeBaseId,
+      title: input.title,
+      source: input.source,
+      fileType: input.fileType,
+      content: input.content,
+      contentHash,
+      createdBy: input.createdBy,
+    },
+    chunks
+  );
+
+  const reused = texts.length - missing.length;
+  console.log(
+    `📚 文档入库: ${input.title}（${texts.length} 块，新算向量 ${fresh.size}，复用 ${reused}）`
+  );
+  return { document, status: "indexed", embedded: fresh.size, reused };
 }
 
-/** 初始化知识库 */
-async function initKnowledgeBase() {
-  if (isInitialized) return;
-  if (isInitializing) {
-    while (isInitializing) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+// 从 knowledge/ 目录同步进来的文档放进内置的公司知识库，created_by 记为 system
+const FOLDER_EXTENSIONS = [".txt", ".md"];
+
+/**
+ * 把 knowledge/ 目录里的文件同步进数据库（按内容哈希增量，没变的文件直接跳过）
+ * 目录里删掉的文件，对应文档也一并删除
+ */
+async function syncKnowledgeFolder(): Promise<void> {
+  const knowledgeDir = path.join(process.cwd(), "knowledge");
+  const files = fs.existsSync(knowledgeDir)
+    ? fs
+        .readdirSync(knowledgeDir)
+        .filter((f) => FOLDER_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+    : [];
+
+  const folderIds = new Set<string>();
+  for (const file of files) {
+    const id = `file:${file}`;
+    folderIds.add(id);
+    await indexDocument({
+      id,
+      knowledgeBaseId: DEFAULT_KNOWLEDGE_BASE_ID,
+      title: path.basename(file, path.extname(file)),
+      source: file,
+      fileType: path.extname(file).toLowerCase(),
+      content: fs.readFileSync(path.join(knowledgeDir, file), "utf-8"),
+      createdBy: SYSTEM_OWNER,
+    });
+  }
+
+  for (const doc of await listDocuments()) {
+    if (doc.created_by === SYSTEM_OWNER && !folderIds.has(doc.id)) {
+      await deleteDocument(doc.id);
+      console.log(`🗑️ knowledge/ 目录已移除 ${doc.source}，同步删除`);
     }
-    return;
   }
+}
 
-  isInitializing = true;
-  console.log("🔄 正在初始化知识库...");
+// ========================================
+// 四、检索（统一入口）
+// ========================================
 
-  try {
-    const chunks = await loadAndSplitDocuments();
-    if (chunks.length === 0) {
-      isInitialized = true;
-      return;
-    }
+/** 检索用的文本块：带预先分好的词（BM25 用） */
+export interface IndexedChunk extends KnowledgeChunk {
+  tokens: string[];
+}
 
-    // 先建 BM25 索引（一定能成功）
-    bm25Chunks = chunks.map((doc) => ({
-      content: doc.pageContent,
-      source: doc.metadata.source as string,
-      tokens: tokenize(doc.pageContent),
-    }));
+export function toIndexedChunk(chunk: KnowledgeChunk): IndexedChunk {
+  return { ...chunk, tokens: tokenize(chunk.content) };
+}
 
-    // 再尝试向量检索（可能因为网络问题失败）
-    try {
-      console.log("🧠 正在构建向量索引...");
-      const embeddings = new LocalEmbeddings();
-      vectorStore = await MemoryVectorStore.fromDocuments(chunks, embeddings);
-      useVectorSearch = true;
-      console.log("✅ 知识库初始化完成（向量检索模式）！");
-    } catch (error) {
-      console.warn("⚠️ 向量检索初始化失败，回退到 BM25 模式:", error);
-      useVectorSearch = false;
-      console.log("✅ 知识库初始化完成（BM25 模式）！");
+// 进程内的检索索引缓存：按知识库分别缓存，各自按版本号失效（上传一个文件只重新加载那个知识库）
+const indexCache = new Map<string, { version: string; chunks: IndexedChunk[] }>();
+let folderSync: Promise<void> | null = null;
+
+/** 确保 knowledge/ 目录已同步进数据库（每个进程只同步一次，失败下次再试） */
+export async function ensureKnowledgeFolderSynced(): Promise<void> {
+  if (!folderSync) {
+    folderSync = syncKnowledgeFolder().catch((error) => {
+      folderSync = null; // 下次再试
+      console.warn("⚠️ knowledge/ 目录同步失败:", error);
+    });
+  }
+  await folderSync;
+}
+
+/** 取这些知识库里检索用的文本块（首次调用时先同步 knowledge/ 目录；知识库有写入时重新加载它） */
+async function loadSearchIndex(knowledgeBaseIds: string[]): Promise<IndexedChunk[]> {
+  await ensureKnowledgeFolderSynced();
+
+  const versions = await getKnowledgeVersions(knowledgeBaseIds);
+  const result: IndexedChunk[] = [];
+  for (const knowledgeBaseId of knowledgeBaseIds) {
+    const version = versions.get(knowledgeBaseId);
+    // 知识库已清空或删除：丢掉它的缓存
+    if (!version) {
+      indexCache.delete(knowledgeBaseId);
+      continue;
+    }
+    let cached = indexCache.get(knowledgeBaseId);
+    if (cached?.version !== version) {
+      const chunks = (await loadKnowledgeBaseChunks(knowledgeBaseId)).map(toIndexedChunk);
+      cached = { version, chunks };
+      indexCache.set(knowledgeBaseId, cached);
+      console.log(`🔄 知识库 ${knowledgeBaseId} 索引已加载（${chunks.length} 个文本块）`);
     }
+    result.push(...cached.chunks);
+  }
+  return result;
+}
 
-    isInitialized = true;
-  } finally {
-    isInitializing = false;
+/** 余弦相似度 */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
   }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-/** 向量检索 */
-async function vectorSearch(query: string, topK: number): Promise<string> {
-  if (!vectorStore) return "";
-  const results = await vectorStore.similaritySearch(query, topK);
-  if (results.length === 0) return "";
-  return results
-    .map((doc) => `【来源: ${doc.metadata.source} | 方式: 向量检索】\n${doc.pageContent}`)
-    .join("\n\n---\n\n");
+interface ScoredChunk {
+  chunk: IndexedChunk;
+  score: number;
+}
+
+/** 向量检索（只在已算好向量的文本块里找），按余弦相似度降序 */
+async function vectorSearch(
+  query: string,
+  chunks: IndexedChunk[],
+  topK: number
+): Promise<ScoredChunk[]> {
+  const withEmbedding = chunks.filter((c) => c.embedding);
+  if (withEmbedding.length === 0) return [];
+  const queryVector = await getLocalEmbeddings().embedQuery(query);
+  return withEmbedding
+    .map((chunk) => ({
+      chunk,
+      score: cosineSimilarity(queryVector, chunk.embedding as number[]),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
 }
 
-/** BM25 检索 */
-function bm25Search(query: string, topK: number): string {
-  if (bm25Chunks.length === 0) return "";
+/** BM25 检索，只返回有关键词命中（分数 > 0）的文本块 */
+function bm25Search(query: string, chunks: IndexedChunk[], topK: number): ScoredChunk[] {
+  if (chunks.length === 0) return [];
   const queryTokens = tokenize(query);
   const docFrequency = new Map<string, number>();
-  for (const chunk of bm25Chunks) {
+  for (const chunk of chunks) {
     const uniqueTokens = new Set(chunk.tokens);
     for (const token of uniqueTokens) {
       docFrequency.set(token, (docFrequency.get(token) || 0) + 1);
     }
   }
-  const avgDocLen = bm25Chunks.reduce((sum, c) => sum + c.tokens.length, 0) / bm25Chunks.length;
-  const scored = bm25Chunks.map((chunk) => ({
-    ...chunk,
-    score: bm25Score(queryTokens, chunk.tokens, avgDocLen, bm25Chunks.length, docFrequency),
-  }));
-  scored.sort((a, b) => b.score - a.score);
-  const topResults = scored.slice(0, topK).filter((r) => r.score > 0);
-  if (topResults.length === 0) return "";
-  return topResults
-    .map((r) => `【来源: ${r.source} | 方式: BM25 | 分数: ${r.score.toFixed(2)}】\n${r.content}`)
-    .join("\n\n---\n\n");
+  const avgDocLen = chunks.reduce((sum, c) => sum + c.tokens.length, 0) / chunks.length;
+  return chunks
+    .map((chunk) => ({
+      chunk,
+      score: bm25Score(queryTokens, chunk.tokens, avgDocLen, chunks.length, docFrequency),
+    }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+// ========================================
+// 五、混合检索（RRF 融合 + 交叉编码器精排）
+// ========================================
+
+/**
+ * 检索策略
+ * - vector：只用向量检索
+ * - bm25：只用关键词检索
+ * - hybrid：两路并行检索，用 RRF 融合排名（默认）
+ */
+export type RetrievalStrategy = "vector" | "bm25" | "hybrid";
+
+export const RETRIEVAL_STRATEGIES: RetrievalStrategy[] = ["vector", "bm25", "hybrid"];
+
+export interface KnowledgeSearchOptions {
+  topK?: number;
+  /** 限定检索范围；不传时只查内置的公司知识库 */
+  knowledgeBaseIds?: string[];
+  /** 只在章节标题路径含这个关键词的文本块里找，例如 "报销制度" */
+  section?: string;
+  strategy?: RetrievalStrategy;
+  /** 是否用交叉编码器对候选结果精排 */
+  rerank?: boolean;
+  /** 每一路召回的候选数，默认 topK 的 4 倍 */
+  candidateK?: number;
+}
+
+/** 单个文本块在各检索方式下的得分和名次（没被该方式召回的字段为空） */
+export interface MethodScores {
+  vector?: number;
+  vectorRank?: number;
+  bm25?: number;
+  bm25Rank?: number;
+  rrf?: number;
+  rerank?: number;
+}
+
+export interface KnowledgeSearchHit {
+  chunkId: number;
+  documentId: string;
+  knowledgeBaseId: string;
+  title: string;
+  source: string;
+  chunkIndex: number;
+  /** 文本块在原文中的起始字符位置 */
+  offset: number;
+  /** 所在章节的标题路径 */
+  headingPath: string[];
+  /** PDF 页码，其他类型为 null */
+  page: number | null;
+  content: string;
+  /** 最终排序用的分数（精排分 > RRF 分 > 单路分数） */
+  score: number;
+  scores: MethodScores;
 }
 
-/** 搜索知识库（对外暴露的统一接口） */
-export async function searchKnowledge(query: string, topK: number = 3): Promise<string> {
-  await initKnowledgeBase();
+/** 实际生效的检索方式（vector 不可用时会回退 BM25） */
+export type RetrievalMethod = RetrievalStrategy | `${RetrievalStrategy}+rerank`;
+
+export interface KnowledgeSearchResult {
+  hits: KnowledgeSearchHit[];
+  method: RetrievalMethod;
+  /** 范围内一个文本块都没有 */
+  empty: boolean;
+}
 
-  if (bm25Chunks.length === 0) {
-    return "知识库为空，请在 knowledge/ 目录下添加 .txt 文件。";
+/**
+ * RRF（Reciprocal Rank Fusion）常数
+ * score = Σ 1 / (k + rank)，k 越大排名靠后的结果权重衰减越慢，60 是论文里的经验值
+ */
+const RRF_K = 60;
+
+/** 按名次融合多路结果，不需要对各路分数做归一化 */
+function reciprocalRankFusion(lists: ScoredChunk[][]): Map<number, number> {
+  const fused = new Map<number, number>();
+  for (const list of lists) {
+    list.forEach(({ chunk }, i) => {
+      fused.set(chunk.id, (fused.get(chunk.id) || 0) + 1 / (RRF_K + i + 1));
+    });
+  }
+  return fused;
+}
+
+/**
+ * 本地交叉编码器（Cross-Encoder）
+ *
+ * 和 Embedding 模型不同，交叉编码器把「问题 + 文本块」拼在一起打分，
+ * 能看到两者之间的词语交互，精度更高但更慢，所以只用来给少量候选精排
+ * 模型：ms-marco-MiniLM-L-6-v2（~23MB），输出相关性 logit
+ */
+class LocalReranker {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private tokenizer: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private model: any = null;
+
+  private async load() {
+    if (!this.model) {
+      console.log("🧠 正在加载精排模型（首次需要下载 ~23MB）...");
+      const { AutoTokenizer, AutoModelForSequenceClassification, env } =
+        await import("@huggingface/transformers");
+      env.remoteHost = "https://hf-mirror.com";
+
+      const modelId = "Xenova/ms-marco-MiniLM-L-6-v2";
+      this.tokenizer = await AutoTokenizer.from_pretrained(modelId);
+      this.model = await AutoModelForSequenceClassification.from_pretrained(modelId, {
+        dtype: "fp32",
+      });
+      console.log("🧠 精排模型加载完成！");
+    }
+  }
+
+  /** 给每个文本块打 0~1 的相关性分数（sigmoid(logit)），顺序与 texts 一致 */
+  async score(query: string, texts: string[]): Promise<number[]> {
+    if (texts.length === 0) return [];
+    await this.load();
+    const inputs = this.tokenizer(new Array(texts.length).fill(query), {
+      text_pair: texts,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await this.model(inputs);
+    return (logits.sigmoid().tolist() as number[][]).map((row) => row[0]);
+  }
+}
+
+let sharedReranker: LocalReranker | null = null;
+
+function getLocalReranker(): LocalReranker {
+  if (!sharedReranker) sharedReranker = new LocalReranker();
+  return sharedReranker;
+}
+
+function toHit(chunk: IndexedChunk, scores: MethodScores): KnowledgeSearchHit {
+  return {
+    chunkId: chunk.id,
+    documentId: chunk.document_id,
+    knowledgeBaseId: chunk.knowledge_base_id,
+    title: chunk.title,
+    source: chunk.source,
+    chunkIndex: chunk.chunk_index,
+    offset: chunk.char_offset,
+    headingPath: chunk.heading_path,
+    page: chunk.page,
+    content: chunk.content,
+    score: scores.rerank ?? scores.rrf ?? scores.vector ?? scores.bm25 ?? 0,
+    scores,
+  };
+}
+
+/**
+ * 检索知识库，返回带各方式分数的结构化结果
+ *
+ * 流程：
+ * 1. 按策略召回候选（hybrid 时向量 / BM25 两路并行）
+ * 2. hybrid 用 RRF 按名次融合
+ * 3. 开启 rerank 时，用交叉编码器给融合后的候选重新打分排序
+ *
+ * 向量检索失败（模型不可用、没有向量）时自动退回 BM25；精排失败时保留融合排序
+ */
+export async function retrieveKnowledge(
+  query: string,
+  options: KnowledgeSearchOptions = {}
+): Promise<KnowledgeSearchResult> {
+  const { knowledgeBaseIds = [DEFAULT_KNOWLEDGE_BASE_ID], section, ...rankOptions } = options;
+
+  const inScope = await loadSearchIndex([...new Set(knowledgeBaseIds)]);
+  const method = rankOptions.strategy ?? "hybrid";
+  if (inScope.length === 0) {
+    return { hits: [], method, empty: true };
+  }
+
+  // 按章节过滤：标题路径里任意一级含关键词即可
+  const keyword = section?.trim().toLowerCase();
+  const chunks = keyword
+    ? inScope.filter((c) => c.heading_path.some((h) => h.toLowerCase().includes(keyword)))
+    : inScope;
+  if (chunks.length === 0) {
+    return { hits: [], method, empty: false };
   }
 
-  // 优先用向量检索，失败或不可用时回退 BM25
-  if (useVectorSearch && vectorStore) {
+  const result = await rankChunks(query, chunks, rankOptions);
+  return { ...result, empty: false };
+}
+
+/**
+ * 在给定的文本块里检索（retrieveKnowledge 的核心；评测时传入按其他参数切分的文本块）
+ */
+export async function rankChunks(
+  query: string,
+  chunks: IndexedChunk[],
+  options: Omit<KnowledgeSearchOptions, "knowledgeBaseIds" | "section"> = {}
+): Promise<Omit<KnowledgeSearchResult, "empty">> {
+  const { topK = 3, strategy = "hybrid", rerank = false } = options;
+  const candidateK = Math.max(options.candidateK ?? topK * 4, topK);
+
+  const runVector = async (): Promise<ScoredChunk[] | null> => {
     try {
-      const result = await vectorSearch(query, topK);
-      if (result) return result;
+      return await vectorSearch(query, chunks, candidateK);
     } catch (error) {
       console.warn("向量检索出错，回退到 BM25:", error);
+      return null;
+    }
+  };
+
+  const [vectorResults, bm25Results] = await Promise.all([
+    strategy === "bm25" ? Promise.resolve(null) : runVector(),
+    strategy === "vector" ? null : bm25Search(query, chunks, candidateK),
+  ]);
+
+  // 向量这一路没有结果时，纯向量策略退回 BM25，混合策略只剩 BM25 一路
+  let method: RetrievalStrategy = strategy;
+  let bm25List = bm25Results;
+  if (strategy !== "bm25" && !vectorResults?.length) {
+    method = "bm25";
+    bm25List = bm25List ?? bm25Search(query, chunks, candidateK);
+  }
+  const vectorList = method === "bm25" ? [] : vectorResults ?? [];
+
+  const scores = new Map<number, MethodScores>();
+  const byId = new Map<number, IndexedChunk>();
+  const record = (list: ScoredChunk[], key: "vector" | "bm25") => {
+    list.forEach(({ chunk, score }, i) => {
+      byId.set(chunk.id, chunk);
+      const entry = scores.get(chunk.id) ?? {};
+      entry[key] = score;
+      entry[key === "vector" ? "vectorRank" : "bm25Rank"] = i + 1;
+      scores.set(chunk.id, entry);
+    });
+  };
+  record(vectorList, "vector");
+  record(bm25List ?? [], "bm25");
+
+  if (method === "hybrid") {
+    for (const [id, rrf] of reciprocalRankFusion([vectorList, bm25List ?? []])) {
+      scores.get(id)!.rrf = rrf;
     }
   }
 
-  const result = bm25Search(query, topK);
-  if (result) return result;
+  let hits = [...scores.entries()]
+    .map(([id, s]) => toHit(byId.get(id)!, s))
+    .sort((a, b) => b.score - a.score);
 
-  return "知识库中没有找到与问题相关的信息。";
+  let finalMethod: RetrievalMethod = method;
+  if (rerank && hits.length > 0) {
+    try {
+      const rerankScores = await getLocalReranker().score(
+        query,
+        hits.map((h) => h.content)
+      );
+      hits = hits
+        .map((h, i) => toHit(byId.get(h.chunkId)!, { ...h.scores, rerank: rerankScores[i] }))
+        .sort((a, b) => b.score - a.score);
+      finalMethod = `${method}+rerank`;
+    } catch (error) {
+      console.warn("⚠️ 精排失败，保留融合排序:", error);
+    }
+  }
+
+  return { hits: hits.slice(0, topK), method: finalMethod };
+}
+
+const METHOD_LABELS: Record<RetrievalStrategy, string> = {
+  vector: "向量检索",
+  bm25: "BM25",
+  hybrid: "混合检索",
+};
+
+/** 把各方式的分数拼成一行，方便模型和调试时看清每个文本块是怎么被召回的 */
+function describeScores(scores: MethodScores): string {
+  const parts: string[] = [];
+  if (scores.vector !== undefined) parts.push(`向量 ${scores.vector.toFixed(3)} (#${scores.vectorRank})`);
+  if (scores.bm25 !== undefined) parts.push(`BM25 ${scores.bm25.toFixed(2)} (#${scores.bm25Rank})`);
+  if (scores.rrf !== undefined) parts.push(`RRF ${scores.rrf.toFixed(4)}`);
+  if (scores.rerank !== undefined) parts.push(`精排 ${scores.rerank.toFixed(3)}`);
+  return parts.join(" · ");
+}
+
+/** 文本块的位置：来源文件 › 章节路径 · 第 N 页 */
+function describeLocation(hit: KnowledgeSearchHit): string {
+  const parts = [hit.source, ...hit.headingPath].join(" › ");
+  return hit.page ? `${parts} · 第 ${hit.page} 页` : parts;
+}
+
+// ========================================
+// 六、引用（脚注）
+// ========================================
+
+/**
+ * 一条引用：回答里用 [^kb-<文本块 id>] 标注，前端渲染成脚注，点开看原文段落
+ * 会随 AI 回复一起存进 chat_messages.citations，刷新后还能打开
+ */
+export interface Citation {
+  /** 脚注标记里的 id，形如 kb-123 */
+  id: string;
+  chunkId: number;
+  documentId: string;
+  knowledgeBaseId: string;
+  title: string;
+  source: string;
+  /** 段落在原文中的起始字符位置 */
+  offset: number;
+  /** 所在章节的标题路径 */
+  headingPath: string[];
+  /** PDF 页码，其他类型为 null */
+  page: number | null;
+  score: number;
+  method: RetrievalMethod;
+  content: string;
+}
+
+/** 回答中的脚注标记：[^kb-123] */
+const CITATION_MARKER = /\[\^(kb-\d+)\]/g;
+
+export function toCitation(hit: KnowledgeSearchHit, method: RetrievalMethod): Citation {
+  return {
+    id: `kb-${hit.chunkId}`,
+    chunkId: hit.chunkId,
+    documentId: hit.documentId,
+    knowledgeBaseId: hit.knowledgeBaseId,
+    title: hit.title,
+    source: hit.source,
+    offset: hit.offset,
+    headingPath: hit.headingPath,
+    page: hit.page,
+    score: hit.score,
+    method,
+    content: hit.content,
+  };
+}
+
+/** 只保留回答里真正标注过的引用（按首次出现的顺序） */
+export function pickCitedCitations(reply: string, citations: Citation[]): Citation[] {
+  const byId = new Map(citations.map((c) => [c.id, c]));
+  const picked = new Map<string, Citation>();
+  for (const [, id] of reply.matchAll(CITATION_MARKER)) {
+    const citation = byId.get(id);
+    if (citation && !picked.has(id)) picked.set(id, citation);
+  }
+  return [...picked.values()];
+}
+
+/** 去掉回答里的脚注标记（生成标题等纯文本场景用） */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER, "");
+}
+
+/**
+ * 搜索知识库并带上引用信息（知识库工具使用）
+ * text 给模型阅读，每段前面标出脚注标记，让模型在回答里照着标注；citations 是结构化的文本块
+ */
+export async function searchKnowledgeWithCitations(
+  query: string,
+  topK: number = 3,
+  knowledgeBaseIds: string[] = [DEFAULT_KNOWLEDGE_BASE_ID],
+  options: Pick<KnowledgeSearchOptions, "strategy" | "rerank" | "section"> = {}
+): Promise<{ text: string; citations: Citation[] }> {
+  const { hits, method, empty } = await retrieveKnowledge(query, {
+    ...options,
+    topK,
+    knowledgeBaseIds,
+  });
+
+  if (empty) {
+    return {
+      text: "知识库为空，请先上传文档（或在 knowledge/ 目录下添加 .txt 文件）。",
+      citations: [],
+    };
+  }
+  if (hits.length === 0) {
+    const where = options.section ? `「${options.section}」相关章节中` : "知识库中";
+    return { text: `${where}没有找到与问题相关的信息。`, citations: [] };
+  }
+
+  const [base, reranked] = method.split("+");
+  const label = METHOD_LABELS[base as RetrievalStrategy] + (reranked ? " + 精排" : "");
+  const citations = hits.map((h) => toCitation(h, method));
+  const body = hits
+    .map(
+      (h, i) =>
+        `【引用: [^${citations[i].id}] | 来源: ${describeLocation(h)} | 方式: ${label} | ${describeScores(h.scores)}】\n${h.content}`
+    )
+    .join("\n\n---\n\n");
+  return {
+    text:
+      body +
+      "\n\n（回答中用到上面的内容时，在对应句子末尾原样标注引用标记，例如 [^" +
+      citations[0].id +
+      "]；没用到的不要标注）",
+    citations,
+  };
+}
+
+/**
+ * 搜索知识库（对外暴露的统一接口，返回拼好的文本给模型阅读）
+ * knowledgeBaseIds 限定检索范围；不传时只查内置的公司知识库
+ * 需要结构化结果（每个文本块的分数）时用 retrieveKnowledge
+ */
+export async function searchKnowledge(
+  query: string,
+  topK: number = 3,
+  knowledgeBaseIds: string[] = [DEFAULT_KNOWLEDGE_BASE_ID],
+  options: Pick<KnowledgeSearchOptions, "strategy" | "rerank" | "section"> = {}
+): Promise<string> {
+  return (await searchKnowledgeWithCitations(query, topK, knowledgeBaseIds, options)).text;
 }
@@ -0,0 +1,424 @@
+import {
+  Annotation,
+  BaseCheckpointSaver,
+  END,
+  START,
+  StateGraph,
+  isGraphInterrupt,
+} from "@langchain/langgraph";
+import { dispatchCustomEvent } from "@langchain/core/callbacks/dispatch";
+import { ToolMessage } from "@langchain/core/messages";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { StructuredToolInterface, ToolInputParsingException } from "@langchain/core/tools";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { truncateToTokens } from "./context-builder";
+import {
+  INTERNAL_RUN_TAG,
+  MODEL_FALLBACK_EVENT,
+  MODEL_REQUEST_TIMEOUT_MS,
+  ModelRequestError,
+  callWithFallback,
+  createAgent,
+} from "./graph";
+import { ModelConfig, ModelParams, getFallbackChain, getOpenAICompatibleEndpoint } from "./models";
+
+/**
+ * ========== 推理模式的规划 / 执行图 ==========
+ *
+ * 推理模型（deepseek-reasoner）不支持 function calling，以前推理模式只能在推理前用 Agent 联网搜一次。
+ * 现在拆成两个角色：推理模型负责「想」—— 判断要不要查资料、查什么；工具由执行节点来「做」：
+ *
+ *   START → plan（推理模型思考，输出工具调用或最终回答）
+ *              ├─ 有工具调用 → execute（执行工具，结果作为新的用户消息交回）→ 回到 plan
+ *              └─ 直接回答 → END
+ *
+ * 推理模型按提示里的约定，用 <tool_calls>[...]</tool_calls> 声明要调的工具：
+ *   - 参数齐全且符合工具 schema 的直接执行（不经过额外的模型调用）
+ *   - 参数不合法或只给了任务描述的，交给支持工具调用的执行模型（默认 deepseek-chat）按描述调用
+ *
+ * 推理模型要走原始 fetch：@langchain/openai 拿不到 reasoning_content（思考链）。
+ * 思考链和回答内容以自定义事件发出，工具调用是普通的 tool run，路由照常收到 on_tool_start / on_tool_end
+ */
+
+/** 思考链增量（streamEvents 里是 on_custom_event），data 为 ReasonerDelta */
+export const REASONER_THINKING_EVENT = "reasoner_thinking";
+/** 最终回答增量，data 为 ReasonerDelta */
+export const REASONER_CONTENT_EVENT = "reasoner_content";
+
+export interface ReasonerDelta {
+  content: string;
+  /** 实际输出的模型 id（备用模型接管时和所选推理模型不同） */
+  model: string;
+}
+
+/** 最多规划几轮工具调用，用完后要求推理模型直接回答 */
+const MAX_TOOL_ROUNDS = 3;
+/** 每轮最多执行几个工具调用 */
+const MAX_CALLS_PER_ROUND = 4;
+
+const TOOL_CALLS_OPEN = "<tool_calls>";
+const TOOL_CALLS_CLOSE = "</tool_calls>";
+
+export interface ReasonerMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/** 推理模型声明的一次工具调用 */
+interface ToolRequest {
+  tool: string;
+  /** 工具参数（符合 schema 时直接执行） */
+  args?: Record<string, unknown>;
+  /** 要这个工具完成什么（参数不合法时交给执行模型） */
+  task?: string;
+}
+
+const ReasoningState = Annotation.Root({
+  /** 不含 system 的对话消息（历史 + 本轮用户消息 + 每轮的工具调用和结果） */
+  messages: Annotation<ReasonerMessage[]>({
+    reducer: (prev, next) => [...prev, ...next],
+    default: () => [],
+  }),
+  /** 本轮待执行的工具调用 */
+  pending: Annotation<ToolRequest[]>({
+    reducer: (_, next) => next,
+    default: () => [],
+  }),
+  rounds: Annotation<number>({
+    reducer: (_, next) => next,
+    default: () => 0,
+  }),
+  /** 最终回答；null 表示推理模型还没给出回答 */
+  answer: Annotation<string | null>({
+    reducer: (_, next) => next,
+    default: () => null,
+  }),
+});
+
+export interface ReasoningAgentOptions {
+  /** 人设 + 日期 + 记忆 + 摘要（buildContext 拼好的系统提示） */
+  systemPrompt: string;
+  tools: StructuredToolInterface[];
+  /** 推理模型（必须是 OpenAI 兼容接口），失败时按它的备用链换模型 */
+  reasoningModel: ModelConfig;
+  /** 执行模型：推理模型给的参数不能直接用时，由它按任务描述调用工具（需支持 function calling） */
+  executorModelId: string;
+  /** 用户设置的生成参数（只作用于推理模型） */
+  params?: ModelParams;
+  /** 工具结果可用的 token 数（见 context-builder.ts），平均分给每一轮的每个调用 */
+  toolBudget: number;
+  /** 保存每一步的状态，中断后可以从检查点继续；挂了需要人工确认的工具时必须传（见 tool-approval.ts） */
+  checkpointer?: BaseCheckpointSaver;
+}
+
+function describeTools(tools: StructuredToolInterface[]): string {
+  return tools
+    .map((t) => {
+      const schema = JSON.stringify(toJsonSchema(t.schema as Parameters<typeof toJsonSchema>[0]));
+      return `- ${t.name}：${t.description}\n  参数 JSON Schema：${schema}`;
+    })
+    .join("\n");
+}
+
+function toolProtocolPrompt(tools: StructuredToolInterface[]): string {
+  return (
+    "\n\n[可用工具]\n" +
+    describeTools(tools) +
+    "\n\n[工具调用约定]\n" +
+    "如果回答前需要查资料、计算或执行操作，本次回复只输出一个工具调用块，不要输出其他任何内容：\n" +
+    `${TOOL_CALLS_OPEN}[{"tool": "工具名", "args": {按参数 schema 填写}, "task": "一句话说明要它完成什么"}]${TOOL_CALLS_CLOSE}\n` +
+    `一次最多 ${MAX_CALLS_PER_ROUND} 个调用，互不依赖的可以放在同一个块里。` +
+    "工具结果会以「[工具结果]」开头的用户消息返回，之后你可以继续调用工具或直接回答。\n" +
+    "不需要工具时直接输出最终回答，不要提及这个约定。"
+  );
+}
+
+/** 解析工具调用块；格式不对返回错误说明 */
+function parseToolCalls(text: string, tools: StructuredToolInterface[]): ToolRequest[] | string {
+  const end = text.lastIndexOf(TOOL_CALLS_CLOSE);
+  const body = text.slice(text.indexOf(TOOL_CALLS_OPEN) + TOOL_CALLS_OPEN.length, end >= 0 ? end : undefined);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.trim());
+  } catch {
+    return "工具调用块不是合法的 JSON 数组";
+  }
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const requests: ToolRequest[] = [];
+  for (const item of items) {
+    if (typeof item?.tool !== "string") return "工具调用缺少 tool 字段";
+    if (!tools.some((t) => t.name === item.tool)) return `没有名为 ${item.tool} 的工具`;
+    requests.push({
+      tool: item.tool,
+      args: item.args && typeof item.args === "object" ? item.args : undefined,
+      task: typeof item.task === "string" ? item.task : undefined,
+    });
+  }
+  if (requests.length === 0) return "工具调用块是空的";
+  return requests.slice(0, MAX_CALLS_PER_ROUND);
+}
+
+function toolResultText(output: unknown): string {
+  if (ToolMessage.isInstance(output)) {
+    return typeof output.content === "string" ? output.content : JSON.stringify(output.content);
+  }
+  return typeof output === "string" ? output : JSON.stringify(output);
+}
+
+/**
+ * 发起推理模型的流式请求：失败时重试 / 按备用链换模型（只换 OpenAI 兼容接口的模型）
+ * 响应头到达就算调用成功，返回响应和实际接手的模型，读流由调用方负责
+ */
+async function streamReasoner(
+  model: ModelConfig,
+  messages: ReasonerMessage[],
+  params: ModelParams,
+  config: RunnableConfig
+): Promise<{ response: Response; model: ModelConfig }> {
+  const { result, model: answeringModel } = await callWithFallback(
+    getFallbackChain(model.id).filter((m) => getOpenAICompatibleEndpoint(m)),
+    async (candidate) => {
+      const endpoint = getOpenAICompatibleEndpoint(candidate)!;
+      const timeout = new AbortController();
+      const timer = setTimeout(
+        () => timeout.abort(new ModelRequestError(`${candidate.id} 请求超时`, 408)),
+        MODEL_REQUEST_TIMEOUT_MS
+      );
+      try {
+        const response = await fetch(`${endpoint.baseURL}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${endpoint.apiKey}`,
+          },
+          body: JSON.stringify({
+            model: candidate.model,
+            messages,
+            stream: true,
+            // 用户设置的生成参数（没设置的不传，用接口默认值）
+            temperature: params.temperature,
+            top_p: params.topP,
+            max_tokens: params.maxTokens && Math.min(params.maxTokens, candidate.maxOutput),
+            presence_penalty: params.presencePenalty,
+          }),
+          signal: config.signal ? AbortSignal.any([config.signal, timeout.signal]) : timeout.signal,
+        });
+        if (!response.ok) {
+          const errText = await response.text();
+          const retryAfter = Number(response.headers.get("retry-after")) * 1000;
+          throw new ModelRequestError(
+            `${candidate.id} 接口错误 ${response.status}: ${errText}`,
+            response.status,
+            retryAfter || undefined
+          );
+        }
+        return response;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    {
+      signal: config.signal,
+      onFallback: async (notice) => {
+        console.warn(`🔀 备用模型接管: ${notice.from} → ${notice.to}（${notice.reason}）`);
+        await dispatchCustomEvent(MODEL_FALLBACK_EVENT, notice, config).catch(() => {});
+      },
+    }
+  );
+  return { response: result, model: answeringModel };
+}
+
+/**
+ * 创建推理模式的规划 / 执行图
+ * 输入 { messages }（历史 + 本轮用户消息），输出里的 answer 是最终回答
+ */
+export function createReasoningAgent(options: ReasoningAgentOptions) {
+  const { systemPrompt, tools, reasoningModel, executorModelId, params = {}, toolBudget, checkpointer } =
+    options;
+
+  const plan = async (state: typeof ReasoningState.State, config: RunnableConfig) => {
+    // 工具轮数用完（或没有工具）时不再给工具说明，推理模型只能直接回答
+    const canUseTools = tools.length > 0 && state.rounds < MAX_TOOL_ROUNDS;
+    const system = systemPrompt + (canUseTools ? toolProtocolPrompt(tools) : "");
+    const { response, model } = await streamReasoner(
+      reasoningModel,
+      [{ role: "system", content: system }, ...state.messages],
+      params,
+      config
+    );
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error("无法获取推理响应流");
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    // 回答开头是工具调用块时不发内容事件（那不是给用户看的）；还不确定时先攒着，null = 未确定
+    let isToolCall: boolean | null = canUseTools ? null : false;
+
+    const emitContent = async (text: string) => {
+      if (text) {
+        const delta: ReasonerDelta = { content: text, model: model.id };
+        await dispatchCustomEvent(REASONER_CONTENT_EVENT, delta, config);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data: ")) continue;
+        const payload = trimmed.slice(6);
+        if (payload === "[DONE]") continue;
+
+        let delta: { reasoning_content?: string; content?: string } | undefined;
+        try {
+          delta = JSON.parse(payload).choices?.[0]?.delta;
+        } catch {
+          continue; // skip malformed JSON
+        }
+        if (!delta) continue;
+
+        if (delta.reasoning_content) {
+          await dispatchCustomEvent(
+            REASONER_THINKING_EVENT,
+            { content: delta.reasoning_content, model: model.id },
+            config
+          );
+        }
+        if (!delta.content) continue;
+        content += delta.content;
+        if (isToolCall === null) {
+          const head = content.trimStart();
+          if (head.length < TOOL_CALLS_OPEN.length && TOOL_CALLS_OPEN.startsWith(head)) continue;
+          isToolCall = head.startsWith(TOOL_CALLS_OPEN);
+          if (!isToolCall) await emitContent(content);
+        } else if (!isToolCall) {
+          await emitContent(delta.content);
+        }
+      }
+    }
+
+    // 回答很短、没攒够判断长度就结束了：不可能是完整的工具调用块
+    if (isToolCall === null) {
+      isToolCall = false;
+      await emitContent(content);
+    }
+    if (!isToolCall) return { answer: content, pending: [] };
+
+    const requests = parseToolCalls(content, tools);
+    if (typeof requests === "string") {
+      console.warn(`🧠 推理模型的工具调用无法解析: ${requests}`);
+      return {
+        messages: [
+          { role: "assistant" as const, content },
+          { role: "user" as const, content: `[工具结果]\n工具调用格式有误：${requests}。请按约定重新输出，或直接回答。` },
+        ],
+        pending: [],
+        rounds: state.rounds + 1,
+      };
+    }
+    console.log("🧠 推理模型规划工具调用:", requests.map((r) => r.tool).join(", "));
+    return { messages: [{ role: "assistant" as const, content }], pending: requests };
+  };
+
+  /** 参数不合法时让执行模型按任务描述调用这个工具，返回工具结果（没调用就返回模型的回复） */
+  const executeWithModel = async (
+    target: StructuredToolInterface,
+    request: ToolRequest,
+    config: RunnableConfig
+  ): Promise<string> => {
+    const executor = createAgent(
+      "你是工具执行助手。根据任务描述调用给定的工具，参数按工具的 schema 填写，调用一次即可。",
+      0,
+      [target],
+      undefined,
+      { id: executorModelId, params: {} }
+    );
+    try {
+      const result = await executor.invoke(
+        {
+          messages: [
+            {
+              role: "user",
+              content:
+                `任务：${request.task || "按参数调用工具"}\n` +
+                (request.args ? `参考参数（可能不合法，请修正）：${JSON.stringify(request.args)}` : ""),
+            },
+          ],
+        },
+        { ...config, tags: [...(config.tags ?? []), INTERNAL_RUN_TAG] }
+      );
+      const outputs = result.messages.filter((m) => ToolMessage.isInstance(m)).map(toolResultText);
+      if (outputs.length > 0) return outputs.join("\n\n");
+      return toolResultText(result.messages[result.messages.length - 1]?.content ?? "");
+    } catch (error) {
+      if (isGraphInterrupt(error)) throw error;
+      return `工具调用失败：${error instanceof Error ? error.message : String(error)}`;
+    }
+  };
+
+  // 这一轮里已经执行完的工具请求（请求 id → 结果）。停在确认上恢复时 LangGraph 重跑整个 execute 节点，
+  // 确认之前已经执行过的请求直接用这里的结果，不再执行一次（见 tool-approval.ts）
+  const finished = new Map<string, string>();
+
+  const execute = async (state: typeof ReasoningState.State, config: RunnableConfig) => {
+    const perCall = Math.floor(toolBudget / MAX_TOOL_ROUNDS / state.pending.length);
+    const sections: string[] = [];
+
+    for (const [index, request] of state.pending.entries()) {
+      const target = tools.find((t) => t.name === request.tool)!;
+      const requestId = `reasoner-${state.rounds}-${index}`;
+      let result = finished.get(requestId);
+      if (result !== undefined) {
+        sections.push(`### ${request.tool}\n${truncateToTokens(result, perCall)}`);
+        continue;
+      }
+      try {
+        result = toolResultText(
+          await target.invoke(
+            // 以 ToolCall 的形式调用，返回 ToolMessage（知识库工具的引用 artifact 才会出现在 on_tool_end 里）
+            { id: requestId, name: target.name, args: request.args ?? {}, type: "tool_call" },
+            config
+          )
+        );
+      } catch (error) {
+        // 需要人工确认的工具在这里暂停整个图（见 tool-approval.ts），不能当成失败吞掉
+        if (isGraphInterrupt(error)) throw error;
+        if (!(error instanceof ToolInputParsingException)) {
+          result = `工具调用失败：${error instanceof Error ? error.message : String(error)}`;
+        } else {
+          result = await executeWithModel(target, request, config);
+        }
+      }
+      finished.set(requestId, result);
+      sections.push(`### ${request.tool}\n${truncateToTokens(result, perCall)}`);
+    }
+
+    const rounds = state.rounds + 1;
+    const note =
+      rounds >= MAX_TOOL_ROUNDS ? "\n\n（工具调用次数已用完，请根据以上结果直接回答用户）" : "";
+    return {
+      messages: [{ role: "user" as const, content: `[工具结果]\n${sections.join("\n\n")}${note}` }],
+      pending: [],
+      rounds,
+    };
+  };
+
+  return new StateGraph(ReasoningState)
+    .addNode("plan", plan)
+    .addNode("execute", execute)
+    .addEdge(START, "plan")
+    // 工具调用块格式有误时已经把错误说明交回去了，回到 plan 重新规划（同样占一轮）
+    .addConditionalEdges(
+      "plan",
+      (state) => (state.pending.length > 0 ? "execute" : state.answer === null ? "plan" : END),
+      ["execute", "plan", END]
+    )
+    .addEdge("execute", "plan")
+    .compile({ checkpointer });
+}
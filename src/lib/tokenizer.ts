@@ -0,0 +1,114 @@
+import fs from "fs";
+
+/**
+ * 中英文混合分词（BM25 知识库检索、长期记忆关键词检索共用）
+ *
+ * 中文没有空格分词，按标点切开后整句会变成一个超长 token，
+ * "年假几天" 这样的查询几乎匹配不上。这里用字符二元组（bigram）切分中文：
+ *   "年假几天" → 年假 / 假几 / 几天
+ * 不需要词典，查询和文档按同样的规则切，只要有相同的两字片段就能命中。
+ *
+ * 混合文本先按字符类型切成连续片段：
+ * - 中日韩文字片段：先在单字停用词（的、了、是……）处断开，再切 bigram；只剩一个字的片段保留单字
+ * - 英文 / 数字片段：按非字母数字字符切词、转小写；英文词至少 2 个字母，数字保留（"5 天" 里的 5 有意义）
+ *
+ * 停用词可配置：createTokenizer 传入自定义列表，
+ * 或用环境变量 STOP_WORDS_FILE 指向一个每行一个词的文件，追加到默认列表
+ */
+
+/** 默认停用词（单字的用来断开中文片段，多字的直接过滤掉） */
+export const DEFAULT_STOP_WORDS: readonly string[] = [
+  // 中文单字
+  "的", "了", "在", "是", "我", "你", "他", "她", "它", "和", "就", "也", "很",
+  "都", "着", "吗", "呢", "吧", "啊", "呀", "与", "及", "或", "被", "把",
+  // 中文多字
+  "一个", "没有", "自己", "我们", "你们", "他们", "什么", "怎么", "这个", "那个",
+  "这样", "那样", "还是", "就是", "但是", "因为", "所以", "如果", "请问",
+  // 英文
+  "a", "an", "the", "is", "are", "was", "were", "be", "to", "of", "in", "on",
+  "at", "for", "and", "or", "it", "this", "that", "with", "as", "by", "what",
+  "how", "do", "does", "i", "you", "me", "my",
+];
+
+export interface TokenizerOptions {
+  /** 替换默认停用词 */
+  stopWords?: Iterable<string>;
+  /** 在默认（或 stopWords 指定的）列表基础上追加 */
+  extraStopWords?: Iterable<string>;
+}
+
+export type Tokenizer = (text: string) => string[];
+
+// 中日韩文字：汉字（含扩展 A、兼容汉字）、日文假名、韩文
+const CJK_RANGES = "\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\u3040-\\u30ff\\uac00-\\ud7af";
+const CJK_CHAR = new RegExp(`[${CJK_RANGES}]`);
+// 按「连续 CJK」和「连续的其他字母数字」切片，其余字符（标点、空白）丢掉
+const SEGMENT = new RegExp(`[${CJK_RANGES}]+|(?:(?![${CJK_RANGES}])[\\p{L}\\p{N}])+`, "gu");
+
+/** 读取 STOP_WORDS_FILE 里的额外停用词（文件不存在时忽略） */
+function loadStopWordsFile(): string[] {
+  const file = process.env.STOP_WORDS_FILE;
+  if (!file) return [];
+  try {
+    return fs
+      .readFileSync(file, "utf-8")
+      .split(/\r?\n/)
+      .map((w) => w.trim())
+      .filter((w) => w && !w.startsWith("#"));
+  } catch (error) {
+    console.warn(`⚠️ 停用词文件读取失败 (${file}):`, error);
+    return [];
+  }
+}
+
+/** 把一个中文片段切成 bigram，单字停用词处断开 */
+function cjkBigrams(run: string, stopChars: Set<string>): string[] {
+  const tokens: string[] = [];
+  const chars = Array.from(run);
+  let piece: string[] = [];
+  const flush = () => {
+    if (piece.length === 1) tokens.push(piece[0]);
+    for (let i = 0; i + 1 < piece.length; i++) tokens.push(piece[i] + piece[i + 1]);
+    piece = [];
+  };
+  for (const ch of chars) {
+    if (stopChars.has(ch)) flush();
+    else piece.push(ch);
+  }
+  flush();
+  return tokens;
+}
+
+/** 按停用词配置创建分词函数 */
+export function createTokenizer(options: TokenizerOptions = {}): Tokenizer {
+  const stopWords = new Set(
+    [...(options.stopWords ?? DEFAULT_STOP_WORDS), ...(options.extraStopWords ?? [])].map(
+      (w) => w.toLowerCase()
+    )
+  );
+  const stopChars = new Set(
+    [...stopWords].filter((w) => w.length === 1 && CJK_CHAR.test(w))
+  );
+
+  return (text: string): string[] => {
+    const tokens: string[] = [];
+    for (const segment of text.toLowerCase().match(SEGMENT) ?? []) {
+      if (CJK_CHAR.test(segment[0])) {
+        tokens.push(...cjkBigrams(segment, stopChars));
+      } else if (/^\p{N}+$/u.test(segment) || segment.length >= 2) {
+        tokens.push(segment);
+      }
+    }
+    return tokens.filter((t) => !stopWords.has(t));
+  };
+}
+
+let defaultTokenizer: Tokenizer | null = null;
+
+/** 默认分词（默认停用词 + STOP_WORDS_FILE） */
+export function tokenize(text: string): string[] {
+  if (!defaultTokenizer) {
+    defaultTokenizer = createTokenizer({ extraStopWords: loadStopWordsFile() });
+  }
+  return defaultTokenizer(text);
+}
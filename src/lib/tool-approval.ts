@@ -0,0 +1,211 @@
+import { interrupt, StateSnapshot } from "@langchain/langgraph";
+import { RunnableConfig } from "@langchain/core/runnables";
+import {
+  DynamicStructuredTool,
+  StructuredToolInterface,
+  ToolRunnableConfig,
+} from "@langchain/core/tools";
+
+/**
+ * ========== 敏感工具调用的人工确认 ==========
+ *
+ * 以前只有发布文章有确认步骤（prepare_article_publish 只生成草稿，由前端弹窗确认后再发布），
+ * MCP 的文件写入、GitHub、浏览器操作等工具都是模型想调就调。现在每个工具有一条策略：
+ *
+ *   - allow：直接执行
+ *   - ask：执行前暂停整个图（LangGraph interrupt + checkpointer），
+ *          路由推 approval_required 事件，用户批准（可以改参数）或拒绝后由 /api/chat/approve 恢复
+ *   - deny：不交给模型
+ *
+ * 内置工具默认 allow（都是查询或只生成草稿），可以用 TOOL_POLICIES 环境变量覆盖；
+ * MCP 工具按 server 配置（默认 ask，单个工具可以单独设置，见 mcp-db.ts）。
+ *
+ * 恢复时 LangGraph 会重新执行被中断的整个节点。挂了确认类工具的这一轮里，
+ * 所有工具（包括 allow 的）的结果都按 tool call id 记下，重跑节点时直接复用，
+ * 同一步里已经执行过的调用（MCP 写文件、发消息等有副作用的操作）不会再执行一次
+ */
+
+export type ToolPolicy = "allow" | "ask" | "deny";
+export const TOOL_POLICIES: readonly ToolPolicy[] = ["allow", "ask", "deny"];
+
+/** MCP server 没有单独配置时的默认策略 */
+export const DEFAULT_MCP_TOOL_POLICY: ToolPolicy = "ask";
+
+/** 等待确认的运行保留多久，过期按用户停止处理 */
+export const APPROVAL_TTL_MS = 30 * 60_000;
+
+export function isToolPolicy(value: unknown): value is ToolPolicy {
+  return TOOL_POLICIES.includes(value as ToolPolicy);
+}
+
+/** 一个工具的策略，MCP 工具额外带上来源（「总是允许」时写回对应的 server 配置） */
+export interface ToolPolicyEntry {
+  policy: ToolPolicy;
+  mcpServerId?: string;
+  /** MCP server 上的原始工具名（不带 server 前缀） */
+  mcpToolName?: string;
+}
+
+/** interrupt 发出的确认请求（也是 approval_required 事件的内容） */
+export interface ApprovalRequest {
+  tool: string;
+  args: Record<string, unknown>;
+  toolCallId?: string;
+  mcpServerId?: string;
+  mcpToolName?: string;
+}
+
+/** 用户的决定，作为 Command({ resume }) 的值交回被中断的工具 */
+export interface ApprovalDecision {
+  approved: boolean;
+  /** 用户修改过的参数，不传按原参数执行 */
+  args?: Record<string, unknown>;
+}
+
+/** TOOL_POLICIES=web_search=ask,generate_image=deny 这种格式的内置工具策略覆盖 */
+function builtinPolicyOverrides(): Map<string, ToolPolicy> {
+  const overrides = new Map<string, ToolPolicy>();
+  for (const item of (process.env.TOOL_POLICIES || "").split(",")) {
+    const [name, policy] = item.split("=").map((s) => s.trim());
+    if (!name) continue;
+    if (!isToolPolicy(policy)) {
+      console.warn(`TOOL_POLICIES 里 ${name} 的策略 "${policy}" 无效，已忽略`);
+      continue;
+    }
+    overrides.set(name, policy);
+  }
+  return overrides;
+}
+
+/** 内置工具的策略（默认 allow） */
+export function getBuiltinToolPolicy(name: string): ToolPolicy {
+  return builtinPolicyOverrides().get(name) ?? "allow";
+}
+
+/**
+ * 给需要确认的工具包一层：执行前 interrupt 等用户决定，批准后按（可能改过的）参数执行
+ * executed 是本轮对话共用的结果缓存（tool call id → 结果），恢复后重跑节点时不重复执行
+ */
+export function withApproval(
+  target: StructuredToolInterface,
+  entry: ToolPolicyEntry,
+  executed: Map<string, unknown>
+): StructuredToolInterface {
+  return new DynamicStructuredTool({
+    name: target.name,
+    description: target.description,
+    schema: target.schema,
+    func: async (args: Record<string, unknown>, _runManager, config?: ToolRunnableConfig) => {
+      const toolCallId = config?.toolCall?.id;
+      // 每次都先调 interrupt：恢复时 LangGraph 按调用顺序对应之前的决定
+      const decision = interrupt<ApprovalRequest, ApprovalDecision>({
+        tool: target.name,
+        args,
+        toolCallId,
+        mcpServerId: entry.mcpServerId,
+        mcpToolName: entry.mcpToolName,
+      });
+      if (toolCallId && executed.has(toolCallId)) return executed.get(toolCallId)!;
+      if (!decision?.approved) {
+        return `用户拒绝执行 ${target.name}。不要重试这个调用，换个方式完成任务或直接告诉用户。`;
+      }
+
+      // 原工具单独运行（清掉继承的回调），免得前端看到两次同名工具调用
+      const output = await target.invoke(decision.args ?? args, { signal: config?.signal, callbacks: [] });
+      const result = typeof output === "string" ? output : JSON.stringify(output);
+      if (toolCallId) executed.set(toolCallId, result);
+      return result;
+    },
+  });
+}
+
+/**
+ * 不用确认的工具按 tool call id 记下结果（原样保存，ToolMessage 上的 artifact 也在），
+ * 恢复后重跑节点时直接返回。只替换 invoke：工具事件、回调和原工具完全一样
+ */
+export function withReplayCache(
+  target: StructuredToolInterface,
+  executed: Map<string, unknown>
+): StructuredToolInterface {
+  const cached: StructuredToolInterface = Object.create(target);
+  cached.invoke = (async (input: unknown, config?: ToolRunnableConfig) => {
+    const toolCall = input as { type?: string; id?: string } | null;
+    const toolCallId = toolCall?.type === "tool_call" ? toolCall.id : config?.toolCall?.id;
+    if (toolCallId && executed.has(toolCallId)) return executed.get(toolCallId);
+    const output = await target.invoke(input as Parameters<typeof target.invoke>[0], config);
+    if (toolCallId) executed.set(toolCallId, output);
+    return output;
+  }) as StructuredToolInterface["invoke"];
+  return cached;
+}
+
+/**
+ * 按策略处理工具列表：deny 的去掉，ask 的包上确认
+ * 有需要确认的工具时，其余工具也包上结果缓存（恢复后重跑节点时不重复执行）
+ * 返回处理后的工具和是否有需要确认的工具（有的话运行结束后要检查是不是停在确认上）
+ */
+export function applyToolPolicies(
+  tools: StructuredToolInterface[],
+  policyOf: (tool: StructuredToolInterface) => ToolPolicyEntry,
+  executed: Map<string, unknown>
+): { tools: StructuredToolInterface[]; needsApproval: boolean } {
+  const allowed = tools
+    .map((t) => ({ tool: t, entry: policyOf(t) }))
+    .filter(({ entry }) => entry.policy !== "deny");
+  const needsApproval = allowed.some(({ entry }) => entry.policy === "ask");
+  if (!needsApproval) return { tools: allowed.map(({ tool }) => tool), needsApproval };
+
+  return {
+    tools: allowed.map(({ tool, entry }) =>
+      entry.policy === "ask" ? withApproval(tool, entry, executed) : withReplayCache(tool, executed)
+    ),
+    needsApproval,
+  };
+}
+
+/** 运行结束后检查图是不是停在某个确认上，是就返回第一个待确认的请求 */
+export async function getPendingApproval(
+  graph: { getState(config: RunnableConfig): Promise<StateSnapshot> },
+  config: RunnableConfig
+): Promise<ApprovalRequest | null> {
+  const state = await graph.getState(config);
+  for (const task of state.tasks) {
+    for (const pending of task.interrupts) {
+      return pending.value as ApprovalRequest;
+    }
+  }
+  return null;
+}
+
+/** 停在确认上的一轮对话 */
+export interface PausedRun {
+  userId: string;
+  sessionId: string;
+  request: ApprovalRequest;
+  /** 按用户的决定恢复运行，返回新的 SSE 流 */
+  resume: (decision: ApprovalDecision, signal: AbortSignal) => ReadableStream;
+  /** 过期没人处理时收尾（保存已生成的部分回复、关闭 MCP 连接） */
+  expire: () => Promise<void>;
+}
+
+// runId → 暂停的运行（进程内；图的状态在 Postgres 检查点里，服务重启后从检查点继续时会重新发起确认）
+const pausedRuns = new Map<string, { run: PausedRun; timer: ReturnType<typeof setTimeout> }>();
+
+export function registerPausedRun(runId: string, run: PausedRun): void {
+  const timer = setTimeout(() => {
+    pausedRuns.delete(runId);
+    console.log(`⏳ 工具确认超时，结束运行 ${runId}`);
+    run.expire().catch((err) => console.warn("结束超时的运行失败:", err));
+  }, APPROVAL_TTL_MS);
+  timer.unref?.();
+  pausedRuns.set(runId, { run, timer });
+}
+
+/** 取出（并移除）当前用户的暂停运行，不存在、已过期或不属于该用户返回 null */
+export function takePausedRun(runId: string, userId: string): PausedRun | null {
+  const entry = pausedRuns.get(runId);
+  if (!entry || entry.run.userId !== userId) return null;
+  clearTimeout(entry.timer);
+  pausedRuns.delete(runId);
+  return entry.run;
+}
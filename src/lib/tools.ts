@@ -105,23 +105,60 @@ export const weatherTool = tool(
 
 // ===== 工具 4：知识库搜索（RAG） =====
 // 这就是 RAG 作为工具的实现 —— AI 需要查公司资料时自动调用
-import { searchKnowledge } from "./rag";
+// 工具返回 content_and_artifact：文本给模型读，artifact 是结构化引用（/api/chat 转成 citations 事件）
+import { searchKnowledgeWithCitations, Citation } from "./rag";
 
+const knowledgeQuerySchema = z.object({
+  query: z.string().describe("搜索关键词，例如 '年假几天'、'StarChat 价格'、'报销流程'"),
+  section: z
+    .string()
+    .optional()
+    .describe("可选，限定章节标题关键词，例如 '报销制度'；只在标题路径含这个词的段落里找"),
+});
+
+/** 默认的知识库工具：只查内置的公司知识库（外部 API 等没有会话上下文的场景使用） */
 export const knowledgeBaseTool = tool(
-  async ({ query }) => {
-    return await searchKnowledge(query, 3);
+  async ({ query, section }): Promise<[string, Citation[]]> => {
+    const { text, citations } = await searchKnowledgeWithCitations(query, 3, undefined, { section });
+    return [text, citations];
   },
   {
     name: "search_knowledge_base",
     description:
       "搜索公司知识库。当用户询问公司制度、产品信息、报销政策、考勤规则、请假制度等公司相关问题时使用。" +
-      "传入搜索关键词，返回相关的文档内容。",
-    schema: z.object({
-      query: z.string().describe("搜索关键词，例如 '年假几天'、'StarChat 价格'、'报销流程'"),
-    }),
+      "传入搜索关键词（知道在哪一章时可以再传章节关键词缩小范围），返回相关的文档内容和引用标记。",
+    schema: knowledgeQuerySchema,
+    responseFormat: "content_and_artifact",
   }
 );
 
+/**
+ * 按对话范围创建知识库工具：只检索传入的知识库，
+ * 并在工具描述里列出这些知识库，让 AI 知道什么问题该来这里查
+ */
+export function createKnowledgeBaseTool(
+  bases: { id: string; name: string; description: string }[]
+) {
+  const ids = bases.map((b) => b.id);
+  const catalog = bases
+    .map((b) => `「${b.name}」${b.description ? `（${b.description}）` : ""}`)
+    .join("、");
+  return tool(
+    async ({ query, section }): Promise<[string, Citation[]]> => {
+      const { text, citations } = await searchKnowledgeWithCitations(query, 3, ids, { section });
+      return [text, citations];
+    },
+    {
+      name: "search_knowledge_base",
+      description:
+        `搜索知识库。当前对话可查的知识库有：${catalog}。` +
+        "当用户的问题可能涉及这些知识库里的资料时使用。传入搜索关键词（知道在哪一章时可以再传章节关键词缩小范围），返回相关的文档内容和引用标记。",
+      schema: knowledgeQuerySchema,
+      responseFormat: "content_and_artifact",
+    }
+  );
+}
+
 // ===== 工具 5：联网搜索 =====
 // 让 AI 能搜索互联网回答实时问题
 import { webSearch } from "./search";